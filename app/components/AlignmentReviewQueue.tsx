@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { CheckCircle2, Loader2, PlayCircle, RefreshCw } from 'lucide-react';
+import { ALIGNMENT_NUDGE_LIMIT_MS } from '~/lib/alignment';
+import type { OutputProfile } from '~/lib/outputProfile';
+import type { AlignmentReportEntry } from '~/types/electron';
+
+interface AlignmentReviewQueueProps {
+  entries: AlignmentReportEntry[]; // pairs waiting for review
+  unavailable: string[]; // outputs whose source files are gone; they cannot be previewed or re-muxed
+  outputProfile: OutputProfile;
+  onRemuxed: (entry: AlignmentReportEntry) => void;
+  onError: (message: string) => void;
+}
+
+const NUDGE_STEPS = [-1000, -100, -10, 10, 100, 1000];
+
+const filePathToUrl = (filePath: string) => {
+  const normalizedPath = filePath.replace(/\\/g, '/');
+  if (/^[a-zA-Z]:/.test(normalizedPath)) {
+    return `file:///${normalizedPath}`;
+  }
+  return `file://${normalizedPath}`;
+};
+
+export function AlignmentReviewQueue({
+  entries,
+  unavailable,
+  outputProfile,
+  onRemuxed,
+  onError,
+}: AlignmentReviewQueueProps) {
+  const { t } = useTranslation();
+  const [nudges, setNudges] = useState<Record<string, number>>({});
+  const [fixed, setFixed] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<{ output: string; path: string } | null>(null);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [isRemuxing, setIsRemuxing] = useState(false);
+
+  const setNudge = (output: string, value: number) => {
+    const clamped = Math.max(-ALIGNMENT_NUDGE_LIMIT_MS, Math.min(ALIGNMENT_NUDGE_LIMIT_MS, Math.round(value)));
+    setNudges((prev) => ({ ...prev, [output]: clamped }));
+    // The open preview no longer matches the offset
+    setPreview((prev) => (prev?.output === output ? null : prev));
+  };
+
+  const toggleFixed = (output: string) => {
+    setFixed((prev) => {
+      const next = new Set(prev);
+      if (next.has(output)) next.delete(output);
+      else next.add(output);
+      return next;
+    });
+  };
+
+  const handlePreview = async (entry: AlignmentReportEntry) => {
+    setPreviewing(entry.output);
+    const result = await window.electronAPI.alignment.preview({
+      entry,
+      nudgeMs: nudges[entry.output] ?? 0,
+      outputProfile,
+    });
+    setPreviewing(null);
+    if (result.error || !result.path) {
+      onError(result.error || t('align.review.previewFailed'));
+      return;
+    }
+    setPreview({ output: entry.output, path: result.path });
+  };
+
+  const handleRemux = async () => {
+    setIsRemuxing(true);
+    for (const entry of entries.filter((item) => fixed.has(item.output) && !unavailable.includes(item.output))) {
+      const result = await window.electronAPI.alignment.remux({
+        entry,
+        nudgeMs: nudges[entry.output] ?? 0,
+        outputProfile,
+      });
+      if (result.error || !result.entry) {
+        onError(t('align.review.remuxFailed', { title: entry.title, error: result.error || '' }));
+        continue;
+      }
+      setFixed((prev) => {
+        const next = new Set(prev);
+        next.delete(entry.output);
+        return next;
+      });
+      setNudges((prev) => ({ ...prev, [entry.output]: 0 }));
+      setPreview((prev) => (prev?.output === entry.output ? null : prev));
+      onRemuxed(result.entry);
+    }
+    setIsRemuxing(false);
+  };
+
+  const fixedCount = entries.filter((entry) => fixed.has(entry.output) && !unavailable.includes(entry.output)).length;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">{t('align.review.hint')}</p>
+      {entries.map((entry) => {
+        const nudge = nudges[entry.output] ?? 0;
+        const missing = unavailable.includes(entry.output);
+        return (
+          <div key={entry.output} className="border rounded-md p-3 text-sm space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="font-semibold break-all">{entry.title}</p>
+              <span className="text-xs rounded px-2 py-0.5 bg-muted">
+                {t(`align.confidence.${entry.confidence}`)} · {entry.score.toFixed(3)}
+              </span>
+              {entry.skipped && (
+                <span className="text-xs rounded px-2 py-0.5 bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300">
+                  {t('align.review.skipped')}
+                </span>
+              )}
+            </div>
+            <p>
+              <strong>{t('align.reportOffset')}:</strong> {entry.offsetMs} ms
+            </p>
+            {missing && <p className="text-amber-700 dark:text-amber-300">{t('align.review.sourcesMissing')}</p>}
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor={`nudge-${entry.output}`}>{t('align.review.nudge')}</Label>
+                <Input
+                  id={`nudge-${entry.output}`}
+                  type="number"
+                  step="10"
+                  className="w-32"
+                  value={nudge}
+                  onChange={(e) => {
+                    const parsed = Number(e.target.value);
+                    if (e.target.value.trim() !== '' && Number.isFinite(parsed)) setNudge(entry.output, parsed);
+                  }}
+                />
+              </div>
+              {NUDGE_STEPS.map((step) => (
+                <Button key={step} variant="outline" size="sm" onClick={() => setNudge(entry.output, nudge + step)}>
+                  {step > 0 ? `+${step}` : step}
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handlePreview(entry)}
+                disabled={missing || previewing !== null || isRemuxing}
+              >
+                {previewing === entry.output ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <PlayCircle className="h-4 w-4 mr-2" />
+                )}
+                {t('align.review.preview')}
+              </Button>
+              <Button
+                variant={fixed.has(entry.output) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => toggleFixed(entry.output)}
+                disabled={missing || isRemuxing}
+                aria-pressed={fixed.has(entry.output)}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                {t('align.review.markFixed')}
+              </Button>
+            </div>
+            {preview?.output === entry.output && (
+              <video
+                key={preview.path}
+                src={filePathToUrl(preview.path)}
+                controls
+                autoPlay
+                className="w-full max-w-xl rounded-md bg-black"
+                onError={() => onError(t('align.review.previewUnplayable'))}
+              />
+            )}
+          </div>
+        );
+      })}
+      <Button onClick={handleRemux} disabled={fixedCount === 0 || isRemuxing}>
+        {isRemuxing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+        {t('align.review.remux', { count: fixedCount })}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useTranslation } from 'react-i18next';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
+import {
+  type DuckingMode,
+  type DuckingPreset,
+  type DuckingSettings,
+  DUCKING_PRESETS,
+  applyDuckingPreset,
+  matchDuckingPreset,
+} from '~/lib/ducking';
+
+interface DuckingSettingsPanelProps {
+  id: string; // prefix for input ids, the panel can appear on more than one page
+  value: DuckingSettings;
+  onChange: (value: DuckingSettings) => void;
+}
+
+type NumericField = 'threshold' | 'ratio' | 'attackMs' | 'releaseMs' | 'depthDb' | 'fadeMs';
+
+const SIDECHAIN_FIELDS: { field: NumericField; step: string }[] = [
+  { field: 'threshold', step: '0.01' },
+  { field: 'ratio', step: '1' },
+  { field: 'attackMs', step: '10' },
+  { field: 'releaseMs', step: '10' },
+];
+
+const ENVELOPE_FIELDS: { field: NumericField; step: string }[] = [
+  { field: 'depthDb', step: '1' },
+  { field: 'fadeMs', step: '50' },
+];
+
+export function DuckingSettingsPanel({ id, value, onChange }: DuckingSettingsPanelProps) {
+  const { t } = useTranslation();
+  const preset = matchDuckingPreset(value) ?? 'custom';
+  const fields = value.mode === 'envelope' ? ENVELOPE_FIELDS : SIDECHAIN_FIELDS;
+
+  const setNumber = (field: NumericField, raw: string) => {
+    const parsed = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(parsed)) return;
+    onChange({ ...value, [field]: parsed });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <input
+          id={`${id}-enabled`}
+          type="checkbox"
+          className="h-4 w-4"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        <Label htmlFor={`${id}-enabled`}>{t('ducking.enabled')}</Label>
+      </div>
+      {value.enabled && (
+        <>
+          <div className="flex flex-wrap gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`${id}-mode`}>{t('ducking.mode')}</Label>
+              <Select value={value.mode} onValueChange={(mode) => onChange({ ...value, mode: mode as DuckingMode })}>
+                <SelectTrigger id={`${id}-mode`} className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sidechain">{t('ducking.modes.sidechain')}</SelectItem>
+                  <SelectItem value="envelope">{t('ducking.modes.envelope')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`${id}-preset`}>{t('ducking.preset')}</Label>
+              <Select
+                value={preset}
+                onValueChange={(next) => {
+                  if (next !== 'custom') onChange(applyDuckingPreset(value, next as DuckingPreset));
+                }}
+              >
+                <SelectTrigger id={`${id}-preset`} className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DUCKING_PRESETS) as DuckingPreset[]).map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {t(`ducking.presets.${name}`)}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom" disabled>
+                    {t('ducking.presets.custom')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {fields.map(({ field, step }) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`${id}-${field}`}>{t(`ducking.fields.${field}`)}</Label>
+                <Input
+                  id={`${id}-${field}`}
+                  type="number"
+                  step={step}
+                  className="w-[120px]"
+                  value={value[field]}
+                  onChange={(e) => setNumber(field, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{t(`ducking.help.${value.mode}`)}</p>
+        </>
+      )}
+    </div>
+  );
+}
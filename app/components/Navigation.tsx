@@ -1,6 +1,6 @@
 import { NavLink } from 'react-router';
 import { useTranslation } from 'react-i18next';
-import { Settings, Volume2, FileText, Captions, Link2 } from 'lucide-react';
+import { Settings, Volume2, FileText, Captions, Link2, Languages } from 'lucide-react';
 
 export function Navigation() {
   const { t } = useTranslation();
@@ -48,6 +48,21 @@ export function Navigation() {
                   {t('nav.convertSubtitles')}
                 </NavLink>
               </li>
+              <li>
+                <NavLink
+                  to="/translate-subtitles"
+                  className={({ isActive }) =>
+                    `flex items-center gap-2 px-3 py-2 rounded-md transition-colors ${
+                      isActive
+                        ? 'bg-primary text-primary-foreground'
+                        : 'hover:bg-accent'
+                    }`
+                  }
+                >
+                  <Languages className="h-4 w-4" aria-hidden="true" />
+                  {t('nav.translateSubtitles')}
+                </NavLink>
+              </li>
               <li>
                 <NavLink
                   to="/align"
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { formatTimestamp, type Subtitle } from '~/lib/srt';
+import type { DialogueGap, WaveformData } from '~/types/electron';
+
+export type TimelineMode = 'waveform' | 'spectrogram';
+
+interface WaveformTimelineProps {
+  data: WaveformData;
+  subtitles: Subtitle[];
+  gaps?: DialogueGap[];
+  currentTimeMs: number;
+  pixelsPerSecond: number;
+  mode: TimelineMode;
+  label: string;
+  onSeek: (ms: number) => void;
+  onCueTimingChange: (id: number, startMs: number, endMs: number) => void;
+  onZoom?: (direction: 1 | -1) => void;
+}
+
+type CueDrag = { id: number; edge: 'start' | 'end'; startMs: number; endMs: number };
+
+const TIMELINE_HEIGHT = 140;
+const GAP_STRIP_HEIGHT = 6;
+const EDGE_HIT_PX = 5;
+const MIN_CUE_MS = 100;
+const KEY_SEEK_MS = 1000;
+
+// Dark blue -> teal -> yellow, indexed by spectrum magnitude
+const SPECTRUM_STOPS: [number, number, number][] = [
+  [13, 8, 48],
+  [32, 110, 140],
+  [60, 190, 110],
+  [250, 230, 60],
+];
+
+function spectrumColor(value: number): [number, number, number] {
+  const scaled = (value / 255) * (SPECTRUM_STOPS.length - 1);
+  const index = Math.min(Math.floor(scaled), SPECTRUM_STOPS.length - 2);
+  const frac = scaled - index;
+  const [a, b] = [SPECTRUM_STOPS[index], SPECTRUM_STOPS[index + 1]];
+  return [a[0] + (b[0] - a[0]) * frac, a[1] + (b[1] - a[1]) * frac, a[2] + (b[2] - a[2]) * frac];
+}
+
+/**
+ * Scrollable, zoomable media timeline. Only the visible slice is drawn, so long
+ * files stay cheap at high zoom levels.
+ */
+export function WaveformTimeline({
+  data,
+  subtitles,
+  gaps = [],
+  currentTimeMs,
+  pixelsPerSecond,
+  mode,
+  label,
+  onSeek,
+  onCueTimingChange,
+  onZoom,
+}: WaveformTimelineProps) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [drag, setDrag] = useState<CueDrag | null>(null);
+
+  const durationMs = data.durationMs ?? 0;
+  const totalWidth = Math.max(1, Math.ceil((durationMs / 1000) * pixelsPerSecond));
+
+  const xToMs = useCallback(
+    (x: number) => Math.min(durationMs, Math.max(0, ((scrollLeft + x) / pixelsPerSecond) * 1000)),
+    [durationMs, pixelsPerSecond, scrollLeft]
+  );
+  const msToX = useCallback((ms: number) => (ms / 1000) * pixelsPerSecond - scrollLeft, [pixelsPerSecond, scrollLeft]);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportWidth(container.clientWidth));
+    observer.observe(container);
+    setViewportWidth(container.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the playhead in view while playing, unless a boundary is being dragged
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || drag || viewportWidth === 0) return;
+    const x = (currentTimeMs / 1000) * pixelsPerSecond - container.scrollLeft;
+    if (x < 0 || x > viewportWidth) {
+      container.scrollLeft = Math.max(0, (currentTimeMs / 1000) * pixelsPerSecond - viewportWidth * 0.1);
+    }
+  }, [currentTimeMs, drag, pixelsPerSecond, viewportWidth]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || viewportWidth === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(viewportWidth * ratio);
+    canvas.height = Math.floor(TIMELINE_HEIGHT * ratio);
+    const styles = getComputedStyle(canvas);
+    const foreground = styles.color;
+    const startSec = scrollLeft / pixelsPerSecond;
+
+    if (mode === 'spectrogram' && data.spectrum && data.spectrumBands && data.spectrumFramesPerSecond) {
+      const bands = data.spectrumBands;
+      const frames = data.spectrum.length / bands;
+      const image = ctx.createImageData(canvas.width, canvas.height);
+      for (let px = 0; px < canvas.width; px++) {
+        const sec = startSec + px / ratio / pixelsPerSecond;
+        const frame = Math.floor(sec * data.spectrumFramesPerSecond);
+        if (frame < 0 || frame >= frames) continue;
+        for (let py = 0; py < canvas.height; py++) {
+          const band = Math.min(bands - 1, Math.floor((1 - py / canvas.height) * bands));
+          const [r, g, b] = spectrumColor(data.spectrum[frame * bands + band]);
+          const offset = (py * canvas.width + px) * 4;
+          image.data[offset] = r;
+          image.data[offset + 1] = g;
+          image.data[offset + 2] = b;
+          image.data[offset + 3] = 255;
+        }
+      }
+      ctx.putImageData(image, 0, 0);
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    } else {
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      ctx.clearRect(0, 0, viewportWidth, TIMELINE_HEIGHT);
+      const peaks = data.peaks;
+      const peaksPerSecond = data.peaksPerSecond ?? 0;
+      if (peaks && peaksPerSecond > 0) {
+        const mid = TIMELINE_HEIGHT / 2;
+        ctx.fillStyle = foreground;
+        for (let x = 0; x < viewportWidth; x++) {
+          const from = Math.floor((startSec + x / pixelsPerSecond) * peaksPerSecond);
+          const to = Math.max(from + 1, Math.floor((startSec + (x + 1) / pixelsPerSecond) * peaksPerSecond));
+          if (from >= peaks.length) break;
+          let peak = 0;
+          for (let i = from; i < to && i < peaks.length; i++) {
+            if (peaks[i] > peak) peak = peaks[i];
+          }
+          const h = Math.max(1, peak * mid);
+          ctx.fillRect(x, mid - h, 1, h * 2);
+        }
+      }
+    }
+
+    ctx.fillStyle = 'rgba(22, 163, 74, 0.8)';
+    for (const gap of gaps) {
+      const x1 = msToX(gap.startMs);
+      const x2 = msToX(gap.endMs);
+      if (x2 < 0 || x1 > viewportWidth) continue;
+      ctx.fillRect(x1, TIMELINE_HEIGHT - GAP_STRIP_HEIGHT, x2 - x1, GAP_STRIP_HEIGHT);
+    }
+
+    ctx.font = '11px sans-serif';
+    for (const sub of subtitles) {
+      const startMs = drag?.id === sub.id ? drag.startMs : sub.startTime;
+      const endMs = drag?.id === sub.id ? drag.endMs : sub.endTime;
+      const x1 = msToX(startMs);
+      const x2 = msToX(endMs);
+      if (x2 < 0 || x1 > viewportWidth) continue;
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.25)';
+      ctx.fillRect(x1, 0, x2 - x1, TIMELINE_HEIGHT);
+      ctx.fillStyle = 'rgb(37, 99, 235)';
+      ctx.fillRect(x1 - 1, 0, 2, TIMELINE_HEIGHT);
+      ctx.fillRect(x2 - 1, 0, 2, TIMELINE_HEIGHT);
+      ctx.fillText(String(sub.id), Math.max(x1, 0) + 4, 12);
+    }
+
+    const playheadX = msToX(currentTimeMs);
+    if (playheadX >= 0 && playheadX <= viewportWidth) {
+      ctx.fillStyle = 'rgb(220, 38, 38)';
+      ctx.fillRect(playheadX - 1, 0, 2, TIMELINE_HEIGHT);
+    }
+  }, [currentTimeMs, data, drag, gaps, mode, msToX, pixelsPerSecond, scrollLeft, subtitles, viewportWidth]);
+
+  const findEdge = (x: number): CueDrag | null => {
+    for (const sub of subtitles) {
+      if (Math.abs(msToX(sub.startTime) - x) <= EDGE_HIT_PX) {
+        return { id: sub.id, edge: 'start', startMs: sub.startTime, endMs: sub.endTime };
+      }
+      if (Math.abs(msToX(sub.endTime) - x) <= EDGE_HIT_PX) {
+        return { id: sub.id, edge: 'end', startMs: sub.startTime, endMs: sub.endTime };
+      }
+    }
+    return null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const edge = findEdge(event.nativeEvent.offsetX);
+    if (edge) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDrag(edge);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const x = event.nativeEvent.offsetX;
+    if (!drag) {
+      event.currentTarget.style.cursor = findEdge(x) ? 'ew-resize' : 'pointer';
+      return;
+    }
+    const ms = Math.round(xToMs(x));
+    setDrag((prev) =>
+      prev?.edge === 'start'
+        ? { ...prev, startMs: Math.min(ms, prev.endMs - MIN_CUE_MS) }
+        : prev && { ...prev, endMs: Math.max(ms, prev.startMs + MIN_CUE_MS) }
+    );
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) {
+      onSeek(Math.round(xToMs(event.nativeEvent.offsetX)));
+      return;
+    }
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    const original = subtitles.find((sub) => sub.id === drag.id);
+    if (original && (original.startTime !== drag.startMs || original.endTime !== drag.endMs)) {
+      onCueTimingChange(drag.id, drag.startMs, drag.endMs);
+    }
+    setDrag(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      const delta = event.key === 'ArrowLeft' ? -KEY_SEEK_MS : KEY_SEEK_MS;
+      onSeek(Math.min(durationMs, Math.max(0, currentTimeMs + delta)));
+    } else if ((event.key === '+' || event.key === '=') && onZoom) {
+      event.preventDefault();
+      onZoom(1);
+    } else if (event.key === '-' && onZoom) {
+      event.preventDefault();
+      onZoom(-1);
+    }
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      className="relative w-full overflow-x-auto rounded-md border bg-muted/30 focus:outline-none focus:ring-2 focus:ring-ring"
+      onScroll={(event) => setScrollLeft(event.currentTarget.scrollLeft)}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      role="slider"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={Math.round(durationMs)}
+      aria-valuenow={Math.round(currentTimeMs)}
+      aria-valuetext={formatTimestamp(currentTimeMs)}
+    >
+      <div style={{ width: totalWidth, height: TIMELINE_HEIGHT }}>
+        <canvas
+          ref={canvasRef}
+          className="sticky left-0 block text-primary"
+          style={{ width: viewportWidth, height: TIMELINE_HEIGHT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+    </div>
+  );
+}
@@ -4,11 +4,25 @@ import {
   useState,
   useEffect,
   useCallback,
+  useMemo,
   useRef,
   type ReactNode,
 } from 'react';
 import i18n from '~/i18n';
-import type { TTSConfig, TTSService, Voice, VoicesResult, SpeakResult, SaveResult, SubtitleSettings } from '~/types/electron';
+import type {
+  AlignmentReviewSettings,
+  ProviderLimits,
+  TTSConfig,
+  TTSService,
+  Voice,
+  VoicesResult,
+  SpeakResult,
+  SaveResult,
+  SubtitleSettings,
+} from '~/types/electron';
+import { normalizeAlignmentReview } from '~/lib/alignment';
+import { normalizeOutputProfile, type OutputProfile } from '~/lib/outputProfile';
+import { normalizeProviderLimits, type TTSServiceType } from '~/lib/ttsQueue';
 
 interface TTSContextValue {
   config: TTSConfig;
@@ -16,6 +30,9 @@ interface TTSContextValue {
   error: string | null;
   defaultService: TTSService | null;
   subtitleSettings: SubtitleSettings;
+  outputProfile: OutputProfile;
+  providerLimits: Record<TTSServiceType, ProviderLimits>;
+  alignmentReview: AlignmentReviewSettings;
   addService: (service: Omit<TTSService, 'id'>) => Promise<void>;
   updateService: (id: string, service: Partial<TTSService>) => Promise<void>;
   deleteService: (id: string) => Promise<void>;
@@ -23,9 +40,14 @@ interface TTSContextValue {
   getVoices: (service: Partial<TTSService>) => Promise<VoicesResult>;
   speak: (text: string, service?: TTSService) => Promise<SpeakResult>;
   stopSpeaking: () => void;
-  saveToFile: (text: string, outputPath: string, service?: TTSService) => Promise<SaveResult>;
+  // Pass a profile for files the user keeps; intermediate clips stay in the provider's own encoding
+  saveToFile: (text: string, outputPath: string, service?: TTSService, profile?: OutputProfile) => Promise<SaveResult>;
   reloadConfig: () => Promise<void>;
   updateSubtitleSettings: (settings: SubtitleSettings) => Promise<void>;
+  updateSpeakerVoices: (speakerVoices: Record<string, string>) => Promise<void>;
+  updateOutputProfile: (profile: OutputProfile) => Promise<void>;
+  updateProviderLimits: (limits: Record<TTSServiceType, ProviderLimits>) => Promise<void>;
+  updateAlignmentReview: (settings: AlignmentReviewSettings) => Promise<void>;
 }
 
 const TTSContext = createContext<TTSContextValue | null>(null);
@@ -34,9 +56,18 @@ const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
     'Transcribe the audio. You can also translate by specifying the desired output language and format in this prompt.',
   normalizeForTranscription: true,
   useConvertCache: true,
+  stripAssOverrideTags: true,
+  parseSpeakerPrefixes: false,
+  transcriptionProvider: 'gemini',
+  whisperBinaryPath: '',
+  whisperModelPath: '',
+  whisperLanguage: 'auto',
+  gapMinDurationMs: 2000,
 };
 const DEFAULT_LANGUAGE = 'en';
 const DEFAULT_SPEED = 1;
+// Voices enumerated by the main process on Linux (espeak-ng / Piper) rather than by Chromium
+const SYSTEM_VOICE_ID = /^(espeak|piper):/;
 
 // Web Speech API helpers
 function getWebSpeechVoices(): Promise<Voice[]> {
@@ -95,6 +126,7 @@ export function TTSProvider({ children }: { children: ReactNode }) {
     defaultServiceId: null,
     subtitleSettings: DEFAULT_SUBTITLE_SETTINGS,
     language: DEFAULT_LANGUAGE,
+    speakerVoices: {},
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -127,6 +159,10 @@ export function TTSProvider({ children }: { children: ReactNode }) {
         defaultServiceId: loadedConfig.defaultServiceId ?? null,
         subtitleSettings,
         language: loadedConfig.language || DEFAULT_LANGUAGE,
+        speakerVoices: loadedConfig.speakerVoices || {},
+        outputProfile: normalizeOutputProfile(loadedConfig.outputProfile),
+        providerLimits: normalizeProviderLimits(loadedConfig.providerLimits),
+        alignmentReview: normalizeAlignmentReview(loadedConfig.alignmentReview),
       });
     } catch (err) {
       setError((err as Error).message);
@@ -148,6 +184,10 @@ export function TTSProvider({ children }: { children: ReactNode }) {
       defaultServiceId: newConfig.defaultServiceId ?? null,
       subtitleSettings: { ...DEFAULT_SUBTITLE_SETTINGS, ...(newConfig.subtitleSettings || {}) },
       language: newConfig.language || config.language || DEFAULT_LANGUAGE,
+      speakerVoices: newConfig.speakerVoices || {},
+      outputProfile: normalizeOutputProfile(newConfig.outputProfile),
+      providerLimits: normalizeProviderLimits(newConfig.providerLimits),
+      alignmentReview: normalizeAlignmentReview(newConfig.alignmentReview),
     };
     await window.electronAPI.config.save(normalizedConfig);
     setConfig(normalizedConfig);
@@ -178,6 +218,9 @@ export function TTSProvider({ children }: { children: ReactNode }) {
     const newConfig: TTSConfig = {
       ...config,
       services: config.services.filter((s) => s.id !== id),
+      speakerVoices: Object.fromEntries(
+        Object.entries(config.speakerVoices || {}).filter(([, serviceId]) => serviceId !== id)
+      ),
       defaultServiceId:
         config.defaultServiceId === id
           ? config.services.find((s) => s.id !== id)?.id || null
@@ -207,10 +250,46 @@ export function TTSProvider({ children }: { children: ReactNode }) {
     await saveConfig(newConfig);
   };
 
+  const updateSpeakerVoices = async (speakerVoices: Record<string, string>) => {
+    const newConfig: TTSConfig = {
+      ...config,
+      speakerVoices,
+    };
+    await saveConfig(newConfig);
+  };
+
+  const updateOutputProfile = async (outputProfile: OutputProfile) => {
+    const newConfig: TTSConfig = {
+      ...config,
+      outputProfile,
+    };
+    await saveConfig(newConfig);
+  };
+
+  const updateProviderLimits = async (providerLimits: Record<TTSServiceType, ProviderLimits>) => {
+    const newConfig: TTSConfig = {
+      ...config,
+      providerLimits,
+    };
+    await saveConfig(newConfig);
+  };
+
+  const updateAlignmentReview = async (alignmentReview: AlignmentReviewSettings) => {
+    const newConfig: TTSConfig = {
+      ...config,
+      alignmentReview,
+    };
+    await saveConfig(newConfig);
+  };
+
   const getVoices = async (service: Partial<TTSService>): Promise<VoicesResult> => {
     switch (service.type) {
       case 'webspeech':
         try {
+          const systemVoices = await window.electronAPI.system.getVoices();
+          if (systemVoices.voices?.length) {
+            return systemVoices;
+          }
           const voices = await getWebSpeechVoices();
           return { voices };
         } catch (err) {
@@ -252,6 +331,17 @@ export function TTSProvider({ children }: { children: ReactNode }) {
 
     switch (targetService.type) {
       case 'webspeech':
+        if (SYSTEM_VOICE_ID.test(targetService.voiceId)) {
+          // Chromium cannot speak these voices, so render a preview file instead
+          const tempDir = await window.electronAPI.system.createTempDir();
+          const preview = await window.electronAPI.system.saveToFile(
+            text,
+            targetService.voiceName,
+            `${tempDir}/preview.wav`,
+            speed
+          );
+          return preview.error ? { error: preview.error } : { success: true, audioPath: preview.path };
+        }
         // WebSpeech API handles speed directly on the utterance
         return new Promise((resolve) => {
           const synth = window.speechSynthesis;
@@ -320,7 +410,8 @@ export function TTSProvider({ children }: { children: ReactNode }) {
   const saveToFile = async (
     text: string,
     outputPath: string,
-    service?: TTSService
+    service?: TTSService,
+    profile?: OutputProfile
   ): Promise<SaveResult> => {
     const targetService = service || config.services.find((s) => s.id === config.defaultServiceId);
     if (!targetService) {
@@ -331,12 +422,13 @@ export function TTSProvider({ children }: { children: ReactNode }) {
 
     switch (targetService.type) {
       case 'webspeech':
-        // Use the voice name as the ID for SAPI5 (Windows) or say (macOS) lookup
+        // Use the voice name as the ID for SAPI5 (Windows), say (macOS) or espeak-ng/Piper (Linux) lookup
         return window.electronAPI.system.saveToFile(
           text,
           targetService.voiceName, // Use voiceName, not ID (URI)
           outputPath,
-          speed
+          speed,
+          profile
         );
       case 'azure':
         if (!targetService.apiKey || !targetService.region) {
@@ -348,7 +440,8 @@ export function TTSProvider({ children }: { children: ReactNode }) {
           targetService.apiKey,
           targetService.region,
           outputPath,
-          speed
+          speed,
+          profile
         );
       case 'elevenlabs':
         if (!targetService.apiKey) {
@@ -360,7 +453,8 @@ export function TTSProvider({ children }: { children: ReactNode }) {
           targetService.apiKey,
           outputPath,
           targetService.modelId,
-          speed
+          speed,
+          profile
         );
       case 'google':
         if (!targetService.apiKey) {
@@ -371,7 +465,8 @@ export function TTSProvider({ children }: { children: ReactNode }) {
           targetService.voiceId,
           targetService.apiKey,
           outputPath,
-          speed
+          speed,
+          profile
         );
       case 'gemini':
         if (!targetService.apiKey) {
@@ -383,7 +478,8 @@ export function TTSProvider({ children }: { children: ReactNode }) {
           targetService.apiKey,
           outputPath,
           targetService.style, // Pass optional style prompt
-          speed
+          speed,
+          profile
         );
       default:
         return { error: 'Unknown service type' };
@@ -391,6 +487,8 @@ export function TTSProvider({ children }: { children: ReactNode }) {
   };
 
   const defaultService = config.services.find((s) => s.id === config.defaultServiceId) || null;
+  // Stable between renders so callbacks that submit queue work can depend on it
+  const providerLimits = useMemo(() => normalizeProviderLimits(config.providerLimits), [config.providerLimits]);
 
   return (
     <TTSContext.Provider
@@ -400,6 +498,9 @@ export function TTSProvider({ children }: { children: ReactNode }) {
         error,
         defaultService,
         subtitleSettings: config.subtitleSettings || DEFAULT_SUBTITLE_SETTINGS,
+        outputProfile: normalizeOutputProfile(config.outputProfile),
+        providerLimits,
+        alignmentReview: normalizeAlignmentReview(config.alignmentReview),
         addService,
         updateService,
         deleteService,
@@ -410,6 +511,10 @@ export function TTSProvider({ children }: { children: ReactNode }) {
         saveToFile,
         reloadConfig: loadConfig,
         updateSubtitleSettings,
+        updateSpeakerVoices,
+        updateOutputProfile,
+        updateProviderLimits,
+        updateAlignmentReview,
       }}
     >
       {children}
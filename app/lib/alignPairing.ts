@@ -0,0 +1,165 @@
+export type AlignPairingStrategy = 'auto' | 'episode' | 'similarity' | 'duration' | 'order';
+
+export const ALIGN_PAIRING_STRATEGIES: AlignPairingStrategy[] = ['auto', 'episode', 'similarity', 'duration', 'order'];
+
+// One row of the pairing table; audio is null when nothing matched the video
+export interface AlignPairRow {
+  video: string;
+  audio: string | null;
+}
+
+export interface AlignPairing {
+  rows: AlignPairRow[];
+  unmatchedAudios: string[];
+}
+
+interface EpisodeKey {
+  season?: number;
+  episode: number;
+}
+
+// Below this a "similar" name is more likely a coincidence than a match
+const MIN_NAME_SIMILARITY = 0.35;
+// Described and dubbed tracks often run a little long or short
+const MAX_DURATION_DIFF_RATIO = 0.1;
+const MIN_DURATION_DIFF_MS = 30 * 1000;
+
+function baseName(filePath: string) {
+  const name = filePath.split(/[\\/]/).pop() ?? filePath;
+  return name.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Episode number from names like "Show S01E02", "show.1x02" or "Episode 12".
+ */
+export function parseEpisodeKey(filePath: string): EpisodeKey | null {
+  const name = baseName(filePath);
+  const seasonEpisode = name.match(/s(\d{1,2})[\s._-]*e(\d{1,3})/i) ?? name.match(/\b(\d{1,2})x(\d{2,3})\b/i);
+  if (seasonEpisode) {
+    return { season: Number(seasonEpisode[1]), episode: Number(seasonEpisode[2]) };
+  }
+  const episodeOnly = name.match(/\b(?:episode|ep|e)[\s._-]*(\d{1,3})\b/i);
+  return episodeOnly ? { episode: Number(episodeOnly[1]) } : null;
+}
+
+function episodesMatch(a: EpisodeKey, b: EpisodeKey) {
+  return a.episode === b.episode && (a.season === undefined || b.season === undefined || a.season === b.season);
+}
+
+function normalizeName(filePath: string) {
+  return baseName(filePath)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized file names, 0..1.
+ */
+export function nameSimilarity(a: string, b: string) {
+  const bigrams = (value: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+      const gram = value.slice(i, i + 2);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let shared = 0;
+  for (const [gram, count] of leftGrams) {
+    shared += Math.min(count, rightGrams.get(gram) ?? 0);
+  }
+  return (2 * shared) / (left.length - 1 + (right.length - 1));
+}
+
+// Greedy assignment, best scoring candidates first; null scores never pair
+function greedyPairs(videos: string[], audios: string[], score: (video: string, audio: string) => number | null) {
+  const candidates: { video: string; audio: string; score: number }[] = [];
+  for (const video of videos) {
+    for (const audio of audios) {
+      const value = score(video, audio);
+      if (value !== null) candidates.push({ video, audio, score: value });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+  const matched = new Map<string, string>();
+  const usedAudios = new Set<string>();
+  for (const candidate of candidates) {
+    if (matched.has(candidate.video) || usedAudios.has(candidate.audio)) continue;
+    matched.set(candidate.video, candidate.audio);
+    usedAudios.add(candidate.audio);
+  }
+  return matched;
+}
+
+function episodeScore(video: string, audio: string) {
+  const videoKey = parseEpisodeKey(video);
+  const audioKey = parseEpisodeKey(audio);
+  if (!videoKey || !audioKey || !episodesMatch(videoKey, audioKey)) return null;
+  // Prefer exact season matches, then the closer name among repeats
+  return (videoKey.season === audioKey.season ? 1 : 0) + nameSimilarity(video, audio);
+}
+
+function similarityScore(video: string, audio: string) {
+  const similarity = nameSimilarity(video, audio);
+  return similarity >= MIN_NAME_SIMILARITY ? similarity : null;
+}
+
+/**
+ * Pair videos with audios. 'auto' matches episode numbers first and falls back to name
+ * similarity for the rest; 'duration' needs durationsMs for both lists.
+ */
+export function pairAlignInputs(
+  videoPaths: string[],
+  audioPaths: string[],
+  strategy: AlignPairingStrategy,
+  durationsMs: Record<string, number> = {}
+): AlignPairing {
+  let matched: Map<string, string>;
+  switch (strategy) {
+    case 'order': {
+      const videos = [...videoPaths].sort();
+      const audios = [...audioPaths].sort();
+      matched = new Map(videos.slice(0, audios.length).map((video, index) => [video, audios[index]]));
+      break;
+    }
+    case 'episode':
+      matched = greedyPairs(videoPaths, audioPaths, episodeScore);
+      break;
+    case 'similarity':
+      matched = greedyPairs(videoPaths, audioPaths, similarityScore);
+      break;
+    case 'duration':
+      matched = greedyPairs(videoPaths, audioPaths, (video, audio) => {
+        const videoMs = durationsMs[video];
+        const audioMs = durationsMs[audio];
+        if (!videoMs || !audioMs) return null;
+        const diff = Math.abs(videoMs - audioMs);
+        return diff <= Math.max(MIN_DURATION_DIFF_MS, videoMs * MAX_DURATION_DIFF_RATIO) ? -diff : null;
+      });
+      break;
+    case 'auto': {
+      matched = greedyPairs(videoPaths, audioPaths, episodeScore);
+      const usedAudios = new Set(matched.values());
+      const rest = greedyPairs(
+        videoPaths.filter((video) => !matched.has(video)),
+        audioPaths.filter((audio) => !usedAudios.has(audio)),
+        similarityScore
+      );
+      rest.forEach((audio, video) => matched.set(video, audio));
+      break;
+    }
+  }
+
+  const usedAudios = new Set(matched.values());
+  return {
+    rows: [...videoPaths].sort().map((video) => ({ video, audio: matched.get(video) ?? null })),
+    unmatchedAudios: audioPaths.filter((audio) => !usedAudios.has(audio)),
+  };
+}
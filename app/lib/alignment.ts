@@ -0,0 +1,31 @@
+import type { AlignmentReportEntry, AlignmentReviewSettings } from '~/types/electron';
+
+// Mirrors the main process defaults
+export const DEFAULT_ALIGNMENT_REVIEW: AlignmentReviewSettings = {
+  highScore: 0.6,
+  lowScore: 0.3,
+  lowConfidence: 'flag',
+};
+
+export const ALIGNMENT_NUDGE_LIMIT_MS = 10 * 60 * 1000;
+
+/**
+ * Fill missing fields from defaults, keep scores in 0..1 and the low threshold at or below the high one.
+ */
+export function normalizeAlignmentReview(raw?: Partial<AlignmentReviewSettings> | null): AlignmentReviewSettings {
+  const score = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+  const highScore = score(raw?.highScore, DEFAULT_ALIGNMENT_REVIEW.highScore);
+  return {
+    highScore,
+    lowScore: Math.min(highScore, score(raw?.lowScore, DEFAULT_ALIGNMENT_REVIEW.lowScore)),
+    lowConfidence: raw?.lowConfidence === 'skip' ? 'skip' : 'flag',
+  };
+}
+
+/**
+ * Pairs that need a human look: anything below high confidence that has not been re-muxed yet.
+ */
+export function needsAlignmentReview(entry: AlignmentReportEntry) {
+  return !entry.reviewed && (entry.skipped === true || entry.confidence !== 'high');
+}
@@ -0,0 +1,138 @@
+import type { AlignmentReportEntry, AlignmentReportFormat, AlignmentRun } from '~/types/electron';
+
+export const ALIGNMENT_REPORT_FORMATS: AlignmentReportFormat[] = ['csv', 'json', 'html'];
+
+export type AlignmentEntryStatus = 'muxed' | 'skipped' | 'reviewed';
+
+const COLUMNS = [
+  'title',
+  'video',
+  'audio',
+  'videoDuration',
+  'audioDuration',
+  'offset',
+  'score',
+  'confidence',
+  'tempo',
+  'segments',
+  'status',
+  'output',
+] as const;
+
+export type AlignmentReportColumn = (typeof COLUMNS)[number];
+
+// Machine-readable headers; the HTML summary uses translated labels instead
+const CSV_HEADERS: Record<AlignmentReportColumn, string> = {
+  title: 'title',
+  video: 'video',
+  audio: 'audio',
+  videoDuration: 'video_duration_s',
+  audioDuration: 'audio_duration_s',
+  offset: 'offset_ms',
+  score: 'score',
+  confidence: 'confidence',
+  tempo: 'tempo',
+  segments: 'segments',
+  status: 'status',
+  output: 'output',
+};
+
+export function alignmentEntryStatus(entry: AlignmentReportEntry): AlignmentEntryStatus {
+  if (entry.reviewed) return 'reviewed';
+  return entry.skipped ? 'skipped' : 'muxed';
+}
+
+function cellValues(entry: AlignmentReportEntry): Record<AlignmentReportColumn, string> {
+  return {
+    title: entry.title,
+    video: entry.video,
+    audio: entry.audio,
+    videoDuration: (entry.durationMs / 1000).toFixed(3),
+    audioDuration: (entry.audioDurationMs / 1000).toFixed(3),
+    offset: String(entry.offsetMs),
+    score: entry.score.toFixed(4),
+    confidence: entry.confidence,
+    tempo: entry.tempo.toFixed(5),
+    segments: String(entry.segments.length),
+    status: alignmentEntryStatus(entry),
+    output: entry.output,
+  };
+}
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatAlignmentReportCsv(run: AlignmentRun) {
+  const lines = [COLUMNS.map((column) => CSV_HEADERS[column]).join(',')];
+  for (const entry of run.entries) {
+    const values = cellValues(entry);
+    lines.push(COLUMNS.map((column) => csvCell(values[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// The full entries, segments included, so a report can be re-read by tools
+export function formatAlignmentReportJson(run: AlignmentRun) {
+  return `${JSON.stringify(run, null, 2)}\n`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Standalone HTML summary with inline styles. label() receives a column key, "heading",
+ * "createdAt", "levels.<confidence>" or "statuses.<status>".
+ */
+export function formatAlignmentReportHtml(run: AlignmentRun, label: (key: string) => string, lang = 'en') {
+  const header = COLUMNS.map((column) => `<th>${escapeHtml(label(column))}</th>`).join('');
+  const rows = run.entries
+    .map((entry) => {
+      const values = cellValues(entry);
+      const cells = COLUMNS.map((column) => {
+        const value =
+          column === 'confidence'
+            ? label(`levels.${values.confidence}`)
+            : column === 'status'
+              ? label(`statuses.${values.status}`)
+              : values[column];
+        return `<td class="${column}">${escapeHtml(value)}</td>`;
+      }).join('');
+      return `<tr class="${values.status} ${entry.confidence}">${cells}</tr>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(label('heading'))}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+td.video, td.audio, td.output { word-break: break-all; }
+tr.low td.confidence { color: #b91c1c; font-weight: 600; }
+tr.medium td.confidence { color: #b45309; }
+tr.skipped { background: #fffbeb; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(label('heading'))}</h1>
+<p>${escapeHtml(label('createdAt'))}: ${escapeHtml(new Date(run.createdAt).toLocaleString(lang))}</p>
+<table>
+<thead><tr>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,118 @@
+import { type DuckingSettings, normalizeDucking } from './ducking';
+import type { LoudnessTarget } from './loudness';
+import { type OutputProfile, normalizeOutputProfile } from './outputProfile';
+import type { Subtitle } from './srt';
+
+export const CONVERT_JOB_VERSION = 1;
+
+// 'running' on disk means the app quit or crashed mid-job
+export type ConvertJobStatus = 'running' | 'paused' | 'cancelled' | 'failed';
+
+export interface ConvertJobFailure {
+  index: number; // position in subtitles
+  text: string;
+  error: string;
+}
+
+// Convert Subtitles run persisted to userData so it can be resumed after a failure, cancel or crash
+export interface ConvertJob {
+  version: number;
+  id: string;
+  status: ConvertJobStatus;
+  updatedAt: string; // ISO timestamp
+  fileName: string;
+  subtitles: Subtitle[];
+  outputs: {
+    ttsOnly: string;
+    ducked?: string;
+    video?: string;
+  };
+  originalAudioPath: string | null;
+  sourceVideoPath: string | null;
+  ducking: DuckingSettings;
+  loudnessTarget: LoudnessTarget;
+  loudnessTruePeak?: number;
+  outputProfile: OutputProfile;
+  adLanguage: string;
+  adTitle: string;
+  clips: Record<string, string>; // rendered base clip per cache key
+  progress: { done: number; total: number };
+  failures: ConvertJobFailure[];
+  error?: string; // set when mixing or muxing failed after every clip rendered
+}
+
+export function serializeConvertJob(job: ConvertJob): string {
+  return JSON.stringify({ ...job, updatedAt: new Date().toISOString() });
+}
+
+const LOUDNESS_TARGET_VALUES: LoudnessTarget[] = ['off', 'ebu-r128', 'atsc-a85', 'podcast'];
+const STATUS_VALUES: ConvertJobStatus[] = ['running', 'paused', 'cancelled', 'failed'];
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord => typeof value === 'object' && value !== null;
+
+// Cues without text would break speaker parsing and rendering on resume
+const isSubtitle = (value: unknown): value is Subtitle =>
+  isRecord(value) &&
+  typeof value.startTime === 'number' &&
+  typeof value.endTime === 'number' &&
+  typeof value.text === 'string';
+
+/**
+ * Parse a saved job, or return null when the file is unreadable or from a newer version.
+ */
+export function parseConvertJob(content: string): ConvertJob | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.subtitles) || !isRecord(raw.outputs) || typeof raw.outputs.ttsOnly !== 'string') {
+    return null;
+  }
+  if (typeof raw.version === 'number' && raw.version > CONVERT_JOB_VERSION) return null;
+
+  const text = (value: unknown, fallback = '') => (typeof value === 'string' ? value : fallback);
+  const optionalText = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const clips: Record<string, string> = {};
+  for (const [key, value] of Object.entries(isRecord(raw.clips) ? raw.clips : {})) {
+    if (typeof value === 'string') clips[key] = value;
+  }
+  const subtitles = raw.subtitles.filter(isSubtitle);
+  const progress = isRecord(raw.progress) ? raw.progress : {};
+
+  return {
+    version: CONVERT_JOB_VERSION,
+    id: text(raw.id, 'job'),
+    status: STATUS_VALUES.find((status) => status === raw.status) ?? 'running',
+    updatedAt: text(raw.updatedAt, new Date(0).toISOString()),
+    fileName: text(raw.fileName),
+    subtitles,
+    outputs: {
+      ttsOnly: raw.outputs.ttsOnly,
+      ducked: optionalText(raw.outputs.ducked),
+      video: optionalText(raw.outputs.video),
+    },
+    originalAudioPath: optionalText(raw.originalAudioPath) ?? null,
+    sourceVideoPath: optionalText(raw.sourceVideoPath) ?? null,
+    ducking: normalizeDucking(isRecord(raw.ducking) ? raw.ducking : undefined),
+    loudnessTarget: LOUDNESS_TARGET_VALUES.find((target) => target === raw.loudnessTarget) ?? 'off',
+    loudnessTruePeak: typeof raw.loudnessTruePeak === 'number' ? raw.loudnessTruePeak : undefined,
+    outputProfile: normalizeOutputProfile(isRecord(raw.outputProfile) ? raw.outputProfile : undefined),
+    adLanguage: text(raw.adLanguage, 'und'),
+    adTitle: text(raw.adTitle),
+    clips,
+    progress: {
+      done: typeof progress.done === 'number' ? progress.done : Object.keys(clips).length,
+      total: typeof progress.total === 'number' ? progress.total : subtitles.length,
+    },
+    failures: Array.isArray(raw.failures)
+      ? raw.failures
+          .filter((failure): failure is JsonRecord => isRecord(failure) && typeof failure.index === 'number')
+          .map((failure) => ({ index: failure.index as number, text: text(failure.text), error: text(failure.error) }))
+      : [],
+    error: optionalText(raw.error),
+  };
+}
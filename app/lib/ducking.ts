@@ -0,0 +1,85 @@
+import type { Subtitle } from './srt';
+
+export type DuckingMode = 'sidechain' | 'envelope';
+export type DuckingPreset = 'gentle' | 'broadcast' | 'aggressive';
+
+export interface DuckingSettings {
+  enabled: boolean;
+  mode: DuckingMode;
+  // sidechain mode: compressor keyed by the narration track
+  threshold: number; // sidechaincompress threshold (0-1)
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+  // envelope mode: fixed gain reduction inside each cue
+  depthDb: number; // negative, applied to the background
+  fadeMs: number; // ramp before the cue start and after its end
+}
+
+// Per-cue override stored on Subtitle; unset fields use the global settings
+export interface CueDucking {
+  enabled?: boolean;
+  depthDb?: number; // envelope mode only
+}
+
+// Cue range sent to system:mixAudio
+export interface DuckingCue {
+  startMs: number;
+  endMs: number;
+  enabled?: boolean;
+  depthDb?: number;
+}
+
+export const DUCKING_PRESETS: Record<DuckingPreset, Omit<DuckingSettings, 'enabled' | 'mode'>> = {
+  gentle: { threshold: 0.2, ratio: 4, attackMs: 100, releaseMs: 600, depthDb: -6, fadeMs: 400 },
+  // Matches the sidechaincompress values system:mixAudio has always used
+  broadcast: { threshold: 0.1, ratio: 12, attackMs: 50, releaseMs: 400, depthDb: -12, fadeMs: 250 },
+  aggressive: { threshold: 0.05, ratio: 20, attackMs: 20, releaseMs: 250, depthDb: -20, fadeMs: 150 },
+};
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+  enabled: true,
+  mode: 'sidechain',
+  ...DUCKING_PRESETS.broadcast,
+};
+
+export function applyDuckingPreset(settings: DuckingSettings, preset: DuckingPreset): DuckingSettings {
+  return { ...settings, ...DUCKING_PRESETS[preset] };
+}
+
+/**
+ * The preset whose values the settings currently match, or null when they have been customised.
+ */
+export function matchDuckingPreset(settings: DuckingSettings): DuckingPreset | null {
+  const presets = Object.keys(DUCKING_PRESETS) as DuckingPreset[];
+  return (
+    presets.find((preset) => {
+      const values = DUCKING_PRESETS[preset];
+      return (Object.keys(values) as (keyof typeof values)[]).every((key) => values[key] === settings[key]);
+    }) ?? null
+  );
+}
+
+/**
+ * Fill missing fields from defaults; projects and settings saved before envelope mode
+ * only carry the sidechain values.
+ */
+export function normalizeDucking(raw?: Partial<DuckingSettings> | null): DuckingSettings {
+  const merged = { ...DEFAULT_DUCKING, ...raw };
+  return {
+    ...merged,
+    mode: merged.mode === 'envelope' ? 'envelope' : 'sidechain',
+    depthDb: Math.min(0, merged.depthDb),
+    fadeMs: Math.max(0, merged.fadeMs),
+  };
+}
+
+// Cues without text are not voiced, so they never duck the background
+export function buildDuckingCues(subtitles: Subtitle[]): DuckingCue[] {
+  return subtitles.filter((sub) => sub.text.trim()).map((sub) => ({
+    startMs: sub.startTime,
+    endMs: sub.endTime,
+    enabled: sub.ducking?.enabled,
+    depthDb: sub.ducking?.depthDb,
+  }));
+}
@@ -0,0 +1,55 @@
+export interface HistoryEntry<T> {
+  state: T;
+  action: string; // what produced the change, used for announcements
+}
+
+export interface HistoryStacks<T> {
+  undo: HistoryEntry<T>[];
+  redo: HistoryEntry<T>[];
+}
+
+export const MAX_HISTORY = 100;
+
+export function emptyHistory<T>(): HistoryStacks<T> {
+  return { undo: [], redo: [] };
+}
+
+/**
+ * Record the state as it was before `action` ran. Any redo branch is dropped.
+ */
+export function pushHistory<T>(stacks: HistoryStacks<T>, state: T, action: string, limit = MAX_HISTORY): HistoryStacks<T> {
+  return { undo: [...stacks.undo, { state, action }].slice(-limit), redo: [] };
+}
+
+/**
+ * Step back one entry. `current` moves onto the redo stack under the same action.
+ */
+export function undoHistory<T>(
+  stacks: HistoryStacks<T>,
+  current: T
+): { stacks: HistoryStacks<T>; entry: HistoryEntry<T> } | null {
+  const entry = stacks.undo[stacks.undo.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    stacks: {
+      undo: stacks.undo.slice(0, -1),
+      redo: [...stacks.redo, { state: current, action: entry.action }],
+    },
+  };
+}
+
+export function redoHistory<T>(
+  stacks: HistoryStacks<T>,
+  current: T
+): { stacks: HistoryStacks<T>; entry: HistoryEntry<T> } | null {
+  const entry = stacks.redo[stacks.redo.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    stacks: {
+      undo: [...stacks.undo, { state: current, action: entry.action }],
+      redo: stacks.redo.slice(0, -1),
+    },
+  };
+}
@@ -0,0 +1,47 @@
+export type LoudnessTarget = 'off' | 'ebu-r128' | 'atsc-a85' | 'podcast';
+
+export interface LoudnessOptions {
+  integrated: number; // LUFS / LKFS
+  truePeak: number; // dBTP
+  lra: number; // LU
+}
+
+export interface LoudnessMeasurement {
+  integrated: number;
+  truePeak: number;
+  lra: number;
+}
+
+// Returned by system:mixAudio in SaveResult.loudness
+export interface LoudnessReport {
+  target: LoudnessOptions;
+  input: LoudnessMeasurement;
+  output: LoudnessMeasurement;
+  normalizationType: 'linear' | 'dynamic'; // dynamic when a linear gain would have broken the true-peak limit
+}
+
+// Integrated loudness, true-peak ceiling and loudness range per delivery spec
+export const LOUDNESS_TARGETS: Record<Exclude<LoudnessTarget, 'off'>, LoudnessOptions & { tolerance: number }> = {
+  'ebu-r128': { integrated: -23, truePeak: -1, lra: 15, tolerance: 1 },
+  'atsc-a85': { integrated: -24, truePeak: -2, lra: 15, tolerance: 2 },
+  podcast: { integrated: -16, truePeak: -1, lra: 11, tolerance: 1 },
+};
+
+/**
+ * Options for system:mixAudio, or undefined when normalization is off.
+ */
+export function resolveLoudnessOptions(target: LoudnessTarget, truePeak?: number): LoudnessOptions | undefined {
+  if (target === 'off') return undefined;
+  const { integrated, lra, truePeak: defaultPeak } = LOUDNESS_TARGETS[target];
+  return { integrated, lra, truePeak: Number.isFinite(truePeak) ? Math.min(0, truePeak as number) : defaultPeak };
+}
+
+/**
+ * Whether the rendered output meets the target's integrated tolerance and true-peak ceiling.
+ */
+export function isWithinLoudnessTarget(report: LoudnessReport, tolerance = 1): boolean {
+  return (
+    Math.abs(report.output.integrated - report.target.integrated) <= tolerance &&
+    report.output.truePeak <= report.target.truePeak
+  );
+}
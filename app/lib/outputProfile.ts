@@ -0,0 +1,54 @@
+export type OutputFormat = 'mp3' | 'wav' | 'flac' | 'aac' | 'opus';
+
+export interface OutputProfile {
+  format: OutputFormat;
+  sampleRate: number;
+  channels: 1 | 2;
+  bitrateKbps: number; // ignored by the lossless formats
+}
+
+interface OutputFormatInfo {
+  extensions: string[]; // first entry is the one offered by save dialogs
+  lossless: boolean;
+  sampleRates: number[];
+  bitrates: number[];
+}
+
+const COMMON_SAMPLE_RATES = [16000, 22050, 24000, 44100, 48000];
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  mp3: { extensions: ['mp3'], lossless: false, sampleRates: COMMON_SAMPLE_RATES, bitrates: [128, 192, 256, 320] },
+  wav: { extensions: ['wav'], lossless: true, sampleRates: COMMON_SAMPLE_RATES, bitrates: [] },
+  flac: { extensions: ['flac'], lossless: true, sampleRates: COMMON_SAMPLE_RATES, bitrates: [] },
+  aac: { extensions: ['m4a', 'aac'], lossless: false, sampleRates: COMMON_SAMPLE_RATES, bitrates: [96, 128, 192, 256] },
+  // libopus only encodes at its native rates
+  opus: { extensions: ['opus', 'ogg'], lossless: false, sampleRates: [16000, 24000, 48000], bitrates: [48, 64, 96, 128, 160] },
+};
+
+// What mixing and alignment have always produced
+export const DEFAULT_OUTPUT_PROFILE: OutputProfile = {
+  format: 'mp3',
+  sampleRate: 48000,
+  channels: 2,
+  bitrateKbps: 320,
+};
+
+/**
+ * Fill missing fields and snap the sample rate and bitrate to values the format's encoder accepts.
+ */
+export function normalizeOutputProfile(raw?: Partial<OutputProfile> | null): OutputProfile {
+  const format = raw?.format && raw.format in OUTPUT_FORMATS ? raw.format : DEFAULT_OUTPUT_PROFILE.format;
+  const info = OUTPUT_FORMATS[format];
+  const sampleRate =
+    raw?.sampleRate && info.sampleRates.includes(raw.sampleRate) ? raw.sampleRate : DEFAULT_OUTPUT_PROFILE.sampleRate;
+  const bitrateKbps = info.lossless
+    ? DEFAULT_OUTPUT_PROFILE.bitrateKbps
+    : raw?.bitrateKbps && info.bitrates.includes(raw.bitrateKbps)
+      ? raw.bitrateKbps
+      : info.bitrates[info.bitrates.length - 1];
+  return { format, sampleRate, channels: raw?.channels === 1 ? 1 : 2, bitrateKbps };
+}
+
+export function outputProfileExtension(profile: OutputProfile): string {
+  return OUTPUT_FORMATS[profile.format].extensions[0];
+}
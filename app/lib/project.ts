@@ -0,0 +1,157 @@
+import { type DuckingSettings, normalizeDucking } from './ducking';
+import type { AssStyleSheet, Subtitle, SubtitleFormat } from './srt';
+
+export const PROJECT_VERSION = 1;
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+export interface OpenDescProject {
+  version: number;
+  mediaPath: string | null; // original media file, not the temp playback copy
+  mediaKind?: 'audio' | 'video';
+  subtitles: Subtitle[];
+  subtitleFormat: SubtitleFormat;
+  assStyles?: AssStyleSheet; // styles of an imported ASS file
+  voices: {
+    defaultServiceId: string | null;
+    speakerVoices: Record<string, string>;
+  };
+  ducking: DuckingSettings;
+  outputPaths: {
+    subtitles?: string;
+    video?: string; // last subtitled video export
+  };
+}
+
+export function createProject(partial: Partial<OpenDescProject> = {}): OpenDescProject {
+  return {
+    version: PROJECT_VERSION,
+    mediaPath: partial.mediaPath ?? null,
+    mediaKind: partial.mediaKind,
+    subtitles: partial.subtitles ?? [],
+    subtitleFormat: partial.subtitleFormat ?? 'srt',
+    assStyles: partial.assStyles,
+    voices: {
+      defaultServiceId: partial.voices?.defaultServiceId ?? null,
+      speakerVoices: partial.voices?.speakerVoices ?? {},
+    },
+    ducking: normalizeDucking(partial.ducking),
+    outputPaths: { ...partial.outputPaths },
+  };
+}
+
+export function serializeProject(project: OpenDescProject): string {
+  return JSON.stringify(project, null, 2) + '\n';
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord => typeof value === 'object' && value !== null;
+
+const optionalText = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// String values of a plain object; anything else, arrays included, gives an empty map
+const stringRecord = (value: unknown): Record<string, string> => {
+  const entries = isRecord(value) && !Array.isArray(value) ? Object.entries(value) : [];
+  return Object.fromEntries(entries.filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+};
+
+// Copy only the known cue fields, each with its expected type
+function parseSubtitle(raw: JsonRecord, index: number): Subtitle {
+  const ducking = isRecord(raw.ducking) ? raw.ducking : null;
+  return {
+    id: index + 1,
+    startTime: raw.startTime as number,
+    endTime: raw.endTime as number,
+    text: optionalText(raw.text) ?? '',
+    identifier: optionalText(raw.identifier),
+    settings: optionalText(raw.settings),
+    notes: Array.isArray(raw.notes) ? raw.notes.filter((note): note is string => typeof note === 'string') : undefined,
+    style: optionalText(raw.style),
+    actor: optionalText(raw.actor),
+    speaker: optionalText(raw.speaker),
+    ducking: ducking
+      ? {
+          enabled: typeof ducking.enabled === 'boolean' ? ducking.enabled : undefined,
+          depthDb: typeof ducking.depthDb === 'number' ? ducking.depthDb : undefined,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Parse an .opendesc file, filling defaults for fields added after the file was written.
+ */
+export function parseProject(content: string): OpenDescProject {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error('The project file is not valid JSON.');
+  }
+  return normalizeProject(raw);
+}
+
+function normalizeProject(raw: unknown): OpenDescProject {
+  if (!isRecord(raw) || !Array.isArray(raw.subtitles)) {
+    throw new Error('The file is not an OpenDesc project.');
+  }
+  if (typeof raw.version === 'number' && raw.version > PROJECT_VERSION) {
+    throw new Error(`The project was saved by a newer version (format ${raw.version}).`);
+  }
+
+  const subtitles = raw.subtitles
+    .filter(
+      (sub): sub is JsonRecord => isRecord(sub) && typeof sub.startTime === 'number' && typeof sub.endTime === 'number'
+    )
+    .map(parseSubtitle);
+  const assStyles = isRecord(raw.assStyles) ? raw.assStyles : null;
+  const voices = isRecord(raw.voices) ? raw.voices : {};
+  const outputPaths = isRecord(raw.outputPaths) ? raw.outputPaths : {};
+
+  return createProject({
+    mediaPath: optionalText(raw.mediaPath) ?? null,
+    mediaKind: raw.mediaKind === 'video' || raw.mediaKind === 'audio' ? raw.mediaKind : undefined,
+    subtitles,
+    subtitleFormat: SUBTITLE_FORMATS.find((format) => format === raw.subtitleFormat) ?? 'srt',
+    assStyles:
+      assStyles && Array.isArray(assStyles.fields) && Array.isArray(assStyles.styles)
+        ? {
+            fields: assStyles.fields.filter((field): field is string => typeof field === 'string'),
+            styles: assStyles.styles.filter((style): style is string => typeof style === 'string'),
+          }
+        : undefined,
+    voices: {
+      defaultServiceId: optionalText(voices.defaultServiceId) ?? null,
+      speakerVoices: stringRecord(voices.speakerVoices),
+    },
+    ducking: normalizeDucking(isRecord(raw.ducking) ? raw.ducking : undefined),
+    outputPaths: {
+      subtitles: optionalText(outputPaths.subtitles),
+      video: optionalText(outputPaths.video),
+    },
+  });
+}
+
+// Autosaved Create Subtitles session, written to userData for crash recovery
+export interface SessionSnapshot {
+  savedAt: string; // ISO timestamp
+  positionMs: number;
+  projectPath: string | null;
+  project: OpenDescProject;
+}
+
+export function serializeSession(snapshot: SessionSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+export function parseSession(content: string): SessionSnapshot {
+  const parsed: unknown = JSON.parse(content);
+  const raw = isRecord(parsed) ? parsed : {};
+  return {
+    savedAt: optionalText(raw.savedAt) ?? new Date(0).toISOString(),
+    positionMs: typeof raw.positionMs === 'number' ? raw.positionMs : 0,
+    projectPath: optionalText(raw.projectPath) ?? null,
+    project: normalizeProject(raw.project),
+  };
+}
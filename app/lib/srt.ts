@@ -1,10 +1,48 @@
+import type { CueDucking } from './ducking';
+
 export interface Subtitle {
   id: number;
   startTime: number; // ms
   endTime: number; // ms
   text: string;
+  identifier?: string; // WebVTT cue identifier
+  settings?: string; // WebVTT cue settings (e.g. "align:start line:0")
+  notes?: string[]; // WebVTT NOTE blocks that precede the cue
+  style?: string; // ASS/SSA style name
+  actor?: string; // ASS/SSA actor (Name) field
+  speaker?: string; // Explicit speaker used to pick a voice when rendering
+  ducking?: CueDucking; // Per-cue override of the mix's ducking settings
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface ParseSubtitleOptions {
+  stripOverrideTags?: boolean; // ASS/SSA only: drop {\...} override blocks from the text
+}
+
+// The [V4+ Styles] section of an imported ASS file, kept so a save does not lose fonts and positioning
+export interface AssStyleSheet {
+  fields: string[]; // from the section's Format: line
+  styles: string[]; // values after "Style:", in file order
 }
 
+export interface SplitSpeakerOptions {
+  speakerVoices?: Record<string, string>; // prefixes naming a mapped speaker are always taken
+  parsePrefixes?: boolean; // take every "NAME:" prefix, mapped or not
+}
+
+export interface SerializeSubtitleOptions {
+  assStyles?: AssStyleSheet | null;
+}
+
+// Upper-case "NAME:" at the start of a cue, e.g. "NARRATOR: The door opens."
+const SPEAKER_PREFIX = /^\s*([\p{Lu}\d][\p{Lu}\d .'_-]{0,39}):\s+/u;
+
+const ASS_EVENT_FIELDS = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+const ASS_STYLE_FIELDS =
+  'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const ASS_DEFAULT_STYLE_VALUES = 'Arial,20,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1';
+
 export function parseSrt(content: string): Subtitle[] {
   const subs: Subtitle[] = [];
   // Normalize line endings and split by double newline
@@ -95,3 +133,275 @@ export function serializeSrt(subtitles: Subtitle[]): string {
     .join('\n')
     .trim() + '\n';
 }
+
+export function formatVttTimestamp(ms: number): string {
+  return formatTimestamp(ms).replace(',', '.');
+}
+
+export function parseVtt(content: string): Subtitle[] {
+  const subs: Subtitle[] = [];
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').trim();
+  const blocks = normalized.split(/\n{2,}/);
+  let pendingNotes: string[] = [];
+
+  for (let b = 0; b < blocks.length; b++) {
+    const lines = blocks[b].split('\n');
+    const first = lines[0].trim();
+
+    // The header block (WEBVTT plus optional metadata) carries no cues
+    if (b === 0 && first.startsWith('WEBVTT')) continue;
+
+    if (/^NOTE($|[ \t])/.test(first)) {
+      const note = [first.replace(/^NOTE[ \t]?/, ''), ...lines.slice(1)].join('\n').trim();
+      pendingNotes.push(note);
+      continue;
+    }
+
+    // STYLE and REGION blocks have no equivalent in the Subtitle model
+    if (/^(STYLE|REGION)($|[ \t])/.test(first)) continue;
+
+    const timeIdx = lines.findIndex((line) => line.includes('-->'));
+    if (timeIdx === -1 || timeIdx > 1) continue;
+
+    const identifier = timeIdx === 1 ? lines[0].trim() : undefined;
+    const match = lines[timeIdx].trim().match(/^(\S+)\s+-->\s+(\S+)\s*(.*)$/);
+    if (!match) continue;
+
+    const sub: Subtitle = {
+      id: subs.length + 1,
+      startTime: parseTime(match[1]),
+      endTime: parseTime(match[2]),
+      text: lines.slice(timeIdx + 1).join('\n'),
+    };
+    if (identifier) sub.identifier = identifier;
+    if (match[3].trim()) sub.settings = match[3].trim();
+    if (pendingNotes.length) sub.notes = pendingNotes;
+    pendingNotes = [];
+
+    subs.push(sub);
+  }
+
+  return subs;
+}
+
+export function serializeVtt(subtitles: Subtitle[]): string {
+  const ordered = [...subtitles]
+    .sort((a, b) => a.startTime - b.startTime || a.id - b.id)
+    .map((sub, index) => ({
+      ...sub,
+      id: index + 1,
+    }));
+
+  const blocks = ordered.flatMap((sub) => {
+    const notes = (sub.notes || []).map((note) => (note.includes('\n') ? `NOTE\n${note}` : `NOTE ${note}`));
+    const timing = `${formatVttTimestamp(sub.startTime)} --> ${formatVttTimestamp(sub.endTime)}`;
+    const cue = [
+      ...(sub.identifier ? [sub.identifier] : []),
+      sub.settings ? `${timing} ${sub.settings}` : timing,
+      // Blank lines would terminate the cue early, so collapse them
+      sub.text.trim().replace(/\n{2,}/g, '\n'),
+    ].join('\n');
+    return [...notes, cue];
+  });
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function formatAssTimestamp(ms: number): string {
+  const totalCs = Math.floor(Math.max(0, ms) / 10);
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const seconds = Math.floor((totalCs % 6000) / 100);
+  const centis = totalCs % 100;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(centis)}`;
+}
+
+export function stripAssOverrideTags(text: string): string {
+  return text.replace(/\{[^}]*\}/g, '');
+}
+
+export function parseAss(content: string, options: ParseSubtitleOptions = {}): Subtitle[] {
+  const subs: Subtitle[] = [];
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const stripTags = options.stripOverrideTags !== false;
+  let inEvents = false;
+  let fields = ASS_EVENT_FIELDS;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (line.startsWith('Format:')) {
+      fields = line.slice('Format:'.length).split(',').map((field) => field.trim());
+      continue;
+    }
+    // Comment: events are disabled lines and are not rendered
+    if (!line.startsWith('Dialogue:')) continue;
+
+    // Text is always the last field and may itself contain commas
+    const values = line.slice('Dialogue:'.length).trim().split(',');
+    const head = values.slice(0, fields.length - 1);
+    const record: Record<string, string> = {};
+    fields.forEach((field, index) => {
+      record[field] = index < fields.length - 1 ? (head[index] || '').trim() : values.slice(fields.length - 1).join(',');
+    });
+
+    let text = (record.Text || '').replace(/\\[Nn]/g, '\n').replace(/\\h/g, ' ');
+    if (stripTags) {
+      text = stripAssOverrideTags(text);
+    }
+
+    const sub: Subtitle = {
+      id: subs.length + 1,
+      startTime: parseTime(record.Start || '0'),
+      endTime: parseTime(record.End || '0'),
+      text,
+    };
+    if (record.Style) sub.style = record.Style;
+    if (record.Name) sub.actor = record.Name;
+
+    subs.push(sub);
+  }
+
+  return subs;
+}
+
+/**
+ * Read the [V4+ Styles] section. SSA's [V4 Styles] uses different colour and alignment
+ * semantics, so those files fall back to the default style.
+ */
+export function parseAssStyles(content: string): AssStyleSheet | null {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  let inStyles = false;
+  let fields: string[] | null = null;
+  const styles: string[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inStyles = line.toLowerCase() === '[v4+ styles]';
+      continue;
+    }
+    if (!inStyles) continue;
+    if (line.startsWith('Format:')) {
+      fields = line.slice('Format:'.length).split(',').map((field) => field.trim());
+    } else if (line.startsWith('Style:')) {
+      styles.push(line.slice('Style:'.length).trim());
+    }
+  }
+
+  return fields && styles.length ? { fields, styles } : null;
+}
+
+export function serializeAss(subtitles: Subtitle[], title = 'OpenDesc', styleSheet?: AssStyleSheet | null): string {
+  const ordered = [...subtitles].sort((a, b) => a.startTime - b.startTime || a.id - b.id);
+  const styleNames = Array.from(new Set(['Default', ...ordered.map((sub) => sub.style || 'Default')]));
+
+  // Commas in the Name field would shift every following column
+  const clean = (value?: string) => (value || '').replace(/,/g, ' ');
+
+  const defaultFields = ASS_STYLE_FIELDS.split(',').map((field) => field.trim());
+  const defaultValues = ASS_DEFAULT_STYLE_VALUES.split(',');
+  const fields = styleSheet?.fields ?? defaultFields;
+  const nameIndex = Math.max(0, fields.indexOf('Name'));
+  const styleLines = styleSheet?.styles ?? [];
+  const kept = new Set(styleLines.map((style) => style.split(',')[nameIndex]?.trim()));
+  // Styles the cues use that the imported file did not define get the default look
+  const defaultStyle = (name: string) =>
+    fields
+      .map((field) => {
+        if (field === 'Name') return clean(name);
+        const index = defaultFields.indexOf(field);
+        return index >= 0 ? defaultValues[index - 1] : '0';
+      })
+      .join(',');
+  const styles = [...styleLines, ...styleNames.filter((name) => !kept.has(name)).map(defaultStyle)];
+
+  return [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    `Format: ${fields.join(', ')}`,
+    ...styles.map((style) => `Style: ${style}`),
+    '',
+    '[Events]',
+    `Format: ${ASS_EVENT_FIELDS.join(', ')}`,
+    ...ordered.map((sub) =>
+      [
+        'Dialogue: 0',
+        formatAssTimestamp(sub.startTime),
+        formatAssTimestamp(sub.endTime),
+        clean(sub.style) || 'Default',
+        clean(sub.actor),
+        '0',
+        '0',
+        '0',
+        '',
+        sub.text.trim().replace(/\n/g, '\\N'),
+      ].join(',')
+    ),
+  ].join('\n') + '\n';
+}
+
+export function detectSubtitleFormat(content: string, fileName?: string): SubtitleFormat {
+  if (fileName && /\.vtt$/i.test(fileName)) return 'vtt';
+  if (fileName && /\.(ass|ssa)$/i.test(fileName)) return 'ass';
+  if (fileName && /\.srt$/i.test(fileName)) return 'srt';
+  if (/^\uFEFF?WEBVTT/.test(content)) return 'vtt';
+  return /^\uFEFF?\s*\[Script Info\]/i.test(content) ? 'ass' : 'srt';
+}
+
+export function parseSubtitles(content: string, format: SubtitleFormat, options: ParseSubtitleOptions = {}): Subtitle[] {
+  switch (format) {
+    case 'vtt':
+      return parseVtt(content);
+    case 'ass':
+      return parseAss(content, options);
+    default:
+      return parseSrt(content);
+  }
+}
+
+export function serializeSubtitles(
+  subtitles: Subtitle[],
+  format: SubtitleFormat,
+  options: SerializeSubtitleOptions = {}
+): string {
+  switch (format) {
+    case 'vtt':
+      return serializeVtt(subtitles);
+    case 'ass':
+      return serializeAss(subtitles, undefined, options.assStyles);
+    default:
+      return serializeSrt(subtitles);
+  }
+}
+
+export function normalizeSpeakerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+/**
+ * Resolve the speaker of a cue (explicit property, then ASS actor, then a "NAME:" prefix)
+ * and return the text with the speaker prefix removed. A prefix only counts when it names a
+ * mapped speaker or prefix parsing is on, so "WARNING: ..." or "10: ..." is spoken as written.
+ */
+export function splitSpeaker(subtitle: Subtitle, options: SplitSpeakerOptions = {}): { speaker?: string; text: string } {
+  const found = subtitle.text.match(SPEAKER_PREFIX);
+  const match =
+    found && (options.parsePrefixes || options.speakerVoices?.[normalizeSpeakerName(found[1])] !== undefined)
+      ? found
+      : null;
+  const text = match ? subtitle.text.slice(match[0].length) : subtitle.text;
+  const speaker = subtitle.speaker || subtitle.actor || match?.[1];
+  return { speaker: speaker ? normalizeSpeakerName(speaker) : undefined, text };
+}
@@ -0,0 +1,96 @@
+import type { Subtitle } from './srt';
+
+type Translator = (text: string, prompt: string) => Promise<{ text?: string; error?: string }>;
+
+interface TranslateSubtitlesOptions {
+  targetLanguage: string;
+  instructions?: string;
+  batchSize?: number;
+  translate: Translator;
+  onBatch?: (done: number, total: number) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 40;
+// One extra attempt per batch when the model drops, merges or renumbers cues
+const MAX_BATCH_ATTEMPTS = 2;
+
+export function buildTranslationPrompt(targetLanguage: string, instructions?: string): string {
+  const lines = [
+    `Translate the text of each subtitle cue into ${targetLanguage}.`,
+    'The input is a JSON array of {"i": <index>, "text": <cue text>} objects.',
+    'Respond with only a JSON array of the same length, in the same order, using the same "i" values, where "text" is the translation.',
+    'Never merge, split, add or drop cues. Keep line breaks inside a cue and any "NAME:" speaker prefix untranslated.',
+  ];
+  if (instructions?.trim()) {
+    lines.push(`Additional instructions: ${instructions.trim()}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse a batch response and check that it maps 1:1 onto the cues that were sent.
+ * Throws when the count or indices do not line up.
+ */
+export function parseTranslationResponse(raw: string, indices: number[]): string[] {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    throw new Error('Translation response was not valid JSON.');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Translation response was not a list of cues.');
+  }
+  if (parsed.length !== indices.length) {
+    throw new Error(`Expected ${indices.length} translated cues but received ${parsed.length}.`);
+  }
+  return parsed.map((item, position) => {
+    const entry = item as { i?: unknown; text?: unknown };
+    if (Number(entry?.i) !== indices[position] || typeof entry?.text !== 'string') {
+      throw new Error(`Expected translated cue ${indices[position]} at position ${position + 1}.`);
+    }
+    return entry.text;
+  });
+}
+
+/**
+ * Translate cue text in batches, keeping cue count, ids, timings and metadata unchanged.
+ */
+export async function translateSubtitles(
+  subtitles: Subtitle[],
+  { targetLanguage, instructions, batchSize = DEFAULT_BATCH_SIZE, translate, onBatch }: TranslateSubtitlesOptions
+): Promise<Subtitle[]> {
+  const prompt = buildTranslationPrompt(targetLanguage, instructions);
+  const translated: Subtitle[] = [];
+  const totalBatches = Math.ceil(subtitles.length / batchSize);
+
+  for (let start = 0; start < subtitles.length; start += batchSize) {
+    const batch = subtitles.slice(start, start + batchSize);
+    const indices = batch.map((_, offset) => start + offset + 1);
+    const payload = JSON.stringify(batch.map((sub, offset) => ({ i: indices[offset], text: sub.text })));
+
+    let texts: string[] | null = null;
+    let lastError: Error | null = null;
+    for (let attempt = 0; attempt < MAX_BATCH_ATTEMPTS && !texts; attempt++) {
+      const result = await translate(payload, prompt);
+      if (result.error || !result.text) {
+        lastError = new Error(result.error || 'Empty translation response.');
+        continue;
+      }
+      try {
+        texts = parseTranslationResponse(result.text, indices);
+      } catch (err) {
+        lastError = err as Error;
+      }
+    }
+    if (!texts) {
+      throw new Error(`Cues ${indices[0]}-${indices[indices.length - 1]}: ${lastError?.message}`);
+    }
+
+    batch.forEach((sub, offset) => translated.push({ ...sub, text: texts![offset] }));
+    onBatch?.(start / batchSize + 1, totalBatches);
+  }
+
+  return translated;
+}
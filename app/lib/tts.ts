@@ -1,7 +1,7 @@
-import type { Subtitle } from './srt';
+import { normalizeSpeakerName, type Subtitle } from './srt';
 import type { SaveResult, TTSService } from '~/types/electron';
 
-type SaveToFile = (text: string, outputPath: string, service?: TTSService) => Promise<SaveResult>;
+type SaveToFile = (text: string, outputPath: string, service: TTSService) => Promise<SaveResult>;
 
 interface EnsureClipFitsSubtitleSlotOptions {
   baseClipPath: string;
@@ -17,6 +17,20 @@ interface EnsureClipFitsSubtitleSlotOptions {
   onInvalidDuration?: () => Promise<string>;
 }
 
+/**
+ * Pick the service mapped to a speaker in Settings, falling back to the default service.
+ */
+export function resolveSpeakerService(
+  speaker: string | undefined,
+  services: TTSService[],
+  speakerVoices: Record<string, string> | undefined,
+  fallback: TTSService | null
+): TTSService | null {
+  if (!speaker || !speakerVoices) return fallback;
+  const serviceId = speakerVoices[normalizeSpeakerName(speaker)];
+  return services.find((service) => service.id === serviceId) || fallback;
+}
+
 /**
  * Ensure an audio clip fits inside a subtitle's time slot, regenerating with a higher speed if needed.
  */
@@ -0,0 +1,49 @@
+import type { ProviderLimits, SaveResult, TtsQueueOptions, TTSService } from '~/types/electron';
+
+export type TTSServiceType = TTSService['type'];
+
+// Mirrors the main process defaults; local engines render one clip at a time
+export const DEFAULT_PROVIDER_LIMITS: Record<TTSServiceType, ProviderLimits> = {
+  webspeech: { concurrency: 1, ratePerMinute: 600 },
+  azure: { concurrency: 4, ratePerMinute: 180 },
+  elevenlabs: { concurrency: 2, ratePerMinute: 60 },
+  google: { concurrency: 4, ratePerMinute: 300 },
+  gemini: { concurrency: 1, ratePerMinute: 10 },
+};
+
+export const MAX_PROVIDER_CONCURRENCY = 16;
+
+/**
+ * Fill missing providers from defaults and clamp values to what the queue accepts.
+ */
+export function normalizeProviderLimits(
+  raw?: Partial<Record<TTSServiceType, Partial<ProviderLimits>>> | null
+): Record<TTSServiceType, ProviderLimits> {
+  const types = Object.keys(DEFAULT_PROVIDER_LIMITS) as TTSServiceType[];
+  return Object.fromEntries(
+    types.map((type) => {
+      const merged = { ...DEFAULT_PROVIDER_LIMITS[type], ...raw?.[type] };
+      return [
+        type,
+        {
+          concurrency: Math.min(MAX_PROVIDER_CONCURRENCY, Math.max(1, Math.round(merged.concurrency))),
+          ratePerMinute: Math.max(1, merged.ratePerMinute),
+        },
+      ];
+    })
+  ) as Record<TTSServiceType, ProviderLimits>;
+}
+
+/**
+ * A saveToFile that goes through the main-process queue, so one-off renders share the
+ * provider's concurrency and rate limits with any running batch.
+ */
+export function queuedSaveToFile(options: TtsQueueOptions) {
+  return async (text: string, outputPath: string, service: TTSService): Promise<SaveResult> => {
+    const id = crypto.randomUUID();
+    const { results, error } = await window.electronAPI.ttsQueue.run(id, [{ id, text, outputPath, service }], options);
+    const result = results[0];
+    if (error || !result) return { error: error || 'unknown error' };
+    return result.error ? { error: result.error } : { success: true, path: result.path };
+  };
+}
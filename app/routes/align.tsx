@@ -5,14 +5,56 @@ import { Button } from '~/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card';
 import { Input } from '~/components/ui/input';
 import { Label } from '~/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
 import { Textarea } from '~/components/ui/textarea';
-import { FolderOpen, Info, Link2, Loader2, PlayCircle, Settings as SettingsIcon, Trash2, Wand2, Download } from 'lucide-react';
-import type { AlignmentReportEntry } from '~/types/electron';
+import { AlignmentReviewQueue } from '~/components/AlignmentReviewQueue';
+import {
+  FileDown,
+  FolderOpen,
+  History,
+  Info,
+  Link2,
+  Loader2,
+  PlayCircle,
+  Settings as SettingsIcon,
+  ShieldAlert,
+  Shuffle,
+  Trash2,
+  Wand2,
+  Download,
+} from 'lucide-react';
+import { useTTS } from '~/contexts/TTSContext';
+import { needsAlignmentReview, normalizeAlignmentReview } from '~/lib/alignment';
+import {
+  ALIGN_PAIRING_STRATEGIES,
+  type AlignPairRow,
+  type AlignPairingStrategy,
+  pairAlignInputs,
+} from '~/lib/alignPairing';
+import {
+  ALIGNMENT_REPORT_FORMATS,
+  formatAlignmentReportCsv,
+  formatAlignmentReportHtml,
+  formatAlignmentReportJson,
+} from '~/lib/alignmentReport';
+import type {
+  AlignmentFileStatus,
+  AlignmentReportEntry,
+  AlignmentReportFormat,
+  AlignmentReviewSettings,
+  AlignmentRun,
+} from '~/types/electron';
 
 type AlignListType = 'video' | 'audio';
 
+// Radix Select cannot use an empty value
+const NO_AUDIO = '__none__';
+
+const fileName = (filePath: string) => filePath.split(/[\\/]/).pop() ?? filePath;
+
 export default function AlignPage() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const { outputProfile, alignmentReview, updateAlignmentReview } = useTTS();
   const [videoPaths, setVideoPaths] = useState<string[]>([]);
   const [audioPaths, setAudioPaths] = useState<string[]>([]);
   const [prepend, setPrepend] = useState('ad_');
@@ -20,9 +62,21 @@ export default function AlignPage() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [isRunning, setIsRunning] = useState(false);
-  const [reportData, setReportData] = useState<AlignmentReportEntry[] | null>(null);
+  const [currentRun, setCurrentRun] = useState<AlignmentRun | null>(null);
+  const [history, setHistory] = useState<AlignmentRun[]>([]);
+  const [fileStatus, setFileStatus] = useState<Record<string, AlignmentFileStatus>>({});
+  const [review, setReview] = useState<AlignmentReviewSettings>(alignmentReview);
+  const [pairingStrategy, setPairingStrategy] = useState<AlignPairingStrategy>('auto');
+  const [durationsMs, setDurationsMs] = useState<Record<string, number>>({});
+  const [isProbing, setIsProbing] = useState(false);
+  const [pairRows, setPairRows] = useState<AlignPairRow[]>([]);
   const runIdRef = useRef<string | null>(null);
 
+  // The config loads after the first render
+  useEffect(() => {
+    setReview(alignmentReview);
+  }, [alignmentReview]);
+
   useEffect(() => {
     const unsubscribe = window.electronAPI.alignment.onLog((payload) => {
       if (runIdRef.current && payload.runId === runIdRef.current) {
@@ -34,6 +88,75 @@ export default function AlignPage() {
     };
   }, []);
 
+  const loadHistory = async () => {
+    const result = await window.electronAPI.alignment.getHistory();
+    setHistory(result.runs);
+    return result.runs;
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  // Runs reopened from the history may point at temp files that are gone
+  useEffect(() => {
+    if (!currentRun) {
+      setFileStatus({});
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.alignment.checkFiles(currentRun.entries).then(({ files }) => {
+      if (cancelled) return;
+      setFileStatus(Object.fromEntries(currentRun.entries.map((entry, index) => [entry.output, files[index]])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentRun]);
+
+  // Re-pairing discards manual edits, so only do it when the inputs or the strategy change,
+  // and once more when a duration probe finishes (below)
+  useEffect(() => {
+    setPairRows(pairAlignInputs(videoPaths, audioPaths, pairingStrategy, durationsMs).rows);
+  }, [videoPaths, audioPaths, pairingStrategy]);
+
+  useEffect(() => {
+    if (pairingStrategy !== 'duration') return;
+    const missing = [...videoPaths, ...audioPaths].filter((filePath) => durationsMs[filePath] === undefined);
+    if (!missing.length) return;
+    let cancelled = false;
+    setIsProbing(true);
+    window.electronAPI.alignment.probeDurations(missing).then((result) => {
+      if (cancelled) return;
+      setIsProbing(false);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      const durations = { ...durationsMs, ...result.durations };
+      setDurationsMs(durations);
+      setPairRows(pairAlignInputs(videoPaths, audioPaths, pairingStrategy, durations).rows);
+    });
+    return () => {
+      cancelled = true;
+      setIsProbing(false);
+    };
+  }, [pairingStrategy, videoPaths, audioPaths, durationsMs]);
+
+  const setRowAudio = (video: string, audio: string | null) => {
+    // An audio goes to one video at most; picking it again moves it
+    setPairRows((prev) =>
+      prev.map((row) => {
+        if (row.video === video) return { ...row, audio };
+        return audio !== null && row.audio === audio ? { ...row, audio: null } : row;
+      })
+    );
+  };
+
+  const pairs = pairRows.flatMap((row) => (row.audio ? [{ video: row.video, audio: row.audio }] : []));
+  const unmatchedVideos = pairRows.filter((row) => !row.audio).map((row) => row.video);
+  const unmatchedAudios = audioPaths.filter((audio) => !pairRows.some((row) => row.audio === audio));
+
   const handlePickPaths = async (kind: AlignListType) => {
     setError(null);
     const result = await window.electronAPI.dialog.pickAlignPaths(kind);
@@ -63,21 +186,33 @@ export default function AlignPage() {
       setError(t('align.errors.missingInputs'));
       return;
     }
+    if (!pairs.length) {
+      setError(t('align.errors.noPairs'));
+      return;
+    }
 
     setError(null);
     setSuccess(null);
     setLogs([]);
-    setReportData(null);
+    setCurrentRun(null);
     setIsRunning(true);
 
     const runId = crypto.randomUUID();
     runIdRef.current = runId;
 
+    const reviewSettings = normalizeAlignmentReview(review);
+    if (JSON.stringify(reviewSettings) !== JSON.stringify(alignmentReview)) {
+      await updateAlignmentReview(reviewSettings);
+    }
+
     const result = await window.electronAPI.alignment.run({
       runId,
       videoPaths,
       audioPaths,
+      pairs,
       prepend: prepend || 'ad_',
+      outputProfile,
+      review: reviewSettings,
     });
 
     if (result.error) {
@@ -85,7 +220,15 @@ export default function AlignPage() {
     } else if (result.success) {
       setSuccess(t('align.success.completed'));
       if (result.reportData) {
-        setReportData(result.reportData);
+        // Main saved the run to the history; prefer that copy so later edits update the same record
+        const runs = await loadHistory();
+        setCurrentRun(
+          runs.find((run) => run.id === runId) ?? {
+            id: runId,
+            createdAt: new Date().toISOString(),
+            entries: result.reportData,
+          }
+        );
       }
     }
 
@@ -93,6 +236,58 @@ export default function AlignPage() {
     runIdRef.current = null;
   };
 
+  const replaceEntry = async (output: string, updated: AlignmentReportEntry) => {
+    if (!currentRun) return;
+    const run: AlignmentRun = {
+      ...currentRun,
+      entries: currentRun.entries.map((entry) => (entry.output === output ? updated : entry)),
+    };
+    setCurrentRun(run);
+    await window.electronAPI.alignment.saveHistoryRun(run);
+    await loadHistory();
+  };
+
+  const handleRemuxed = async (updated: AlignmentReportEntry) => {
+    setSuccess(t('align.review.remuxed', { title: updated.title }));
+    await replaceEntry(updated.output, updated);
+  };
+
+  const handleExport = async (format: AlignmentReportFormat) => {
+    if (!currentRun) return;
+    const content =
+      format === 'csv'
+        ? formatAlignmentReportCsv(currentRun)
+        : format === 'json'
+          ? formatAlignmentReportJson(currentRun)
+          : formatAlignmentReportHtml(currentRun, (key) => t(`align.export.labels.${key}`), i18n.language);
+    const suggestedName = `alignment-report-${currentRun.createdAt.slice(0, 10)}`;
+    const result = await window.electronAPI.alignment.exportReport(content, format, suggestedName);
+    if (result.error) {
+      setError(result.error);
+    } else if (result.path) {
+      setSuccess(t('align.export.saved', { path: result.path }));
+    }
+  };
+
+  const handleDeleteRun = async (id: string) => {
+    const result = await window.electronAPI.alignment.deleteHistoryRun(id);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    if (currentRun?.id === id) setCurrentRun(null);
+    await loadHistory();
+  };
+
+  const setReviewScore = (field: 'highScore' | 'lowScore', raw: string) => {
+    const parsed = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(parsed)) return;
+    setReview((prev) => ({ ...prev, [field]: parsed }));
+  };
+
+  const reportData = currentRun?.entries ?? null;
+  const reviewQueue = reportData?.filter(needsAlignmentReview) ?? [];
+
   const handleSaveEntry = async (entry: AlignmentReportEntry) => {
     const res = await window.electronAPI.alignment.saveOutput(entry.output, entry.title);
     if (res?.error) {
@@ -100,9 +295,14 @@ export default function AlignPage() {
     } else if (res?.path) {
       setSuccess(t('align.success.completedPath', { path: res.path }));
       setTimeout(() => setSuccess(null), 2500);
+      // The saved copy outlives the temp output, so the history and later re-muxes use it
+      await replaceEntry(entry.output, { ...entry, output: res.path });
     }
   };
 
+  const outputMissing = (entry: AlignmentReportEntry) => fileStatus[entry.output]?.output === false;
+  const unavailableOutputs = Object.keys(fileStatus).filter((output) => !fileStatus[output].sources);
+
   const renderPathList = (items: string[], label: string, type: AlignListType) => (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
@@ -205,6 +405,101 @@ export default function AlignPage() {
         </CardContent>
       </Card>
 
+      {videoPaths.length > 0 && audioPaths.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Shuffle className="h-5 w-5" aria-hidden="true" />
+              {t('align.pairing.title')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="pairing-strategy">{t('align.pairing.strategy')}</Label>
+                <Select
+                  value={pairingStrategy}
+                  onValueChange={(value) => setPairingStrategy(value as AlignPairingStrategy)}
+                >
+                  <SelectTrigger id="pairing-strategy" className="w-[260px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALIGN_PAIRING_STRATEGIES.map((strategy) => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {t(`align.pairing.strategies.${strategy}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isProbing && (
+                <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {t('align.pairing.probing')}
+                </span>
+              )}
+            </div>
+
+            {(unmatchedVideos.length > 0 || unmatchedAudios.length > 0) && (
+              <Alert className="border-amber-500 bg-amber-50 dark:bg-amber-950">
+                <AlertDescription className="text-amber-800 dark:text-amber-300 space-y-1">
+                  <p>{t('align.pairing.unmatchedWarning')}</p>
+                  <ul className="list-disc pl-5 break-all">
+                    {unmatchedVideos.map((video) => (
+                      <li key={video}>
+                        {t('align.pairing.unmatchedVideo')}: {fileName(video)}
+                      </li>
+                    ))}
+                    {unmatchedAudios.map((audio) => (
+                      <li key={audio}>
+                        {t('align.pairing.unmatchedAudio')}: {fileName(audio)}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 font-medium">{t('align.reportVideo')}</th>
+                  <th className="text-left py-2 font-medium">{t('align.reportAudio')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pairRows.map((row) => (
+                  <tr key={row.video} className="border-b last:border-0">
+                    <td className="py-2 pr-3 break-all" title={row.video}>
+                      {fileName(row.video)}
+                    </td>
+                    <td className="py-2">
+                      <Select
+                        value={row.audio ?? NO_AUDIO}
+                        onValueChange={(value) => setRowAudio(row.video, value === NO_AUDIO ? null : value)}
+                      >
+                        <SelectTrigger className="w-full max-w-md" aria-label={t('align.pairing.audioFor', { video: fileName(row.video) })}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_AUDIO}>{t('align.pairing.none')}</SelectItem>
+                          {audioPaths.map((audio) => (
+                            <SelectItem key={audio} value={audio}>
+                              {fileName(audio)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -223,6 +518,50 @@ export default function AlignPage() {
             />
           </div>
 
+          <div className="flex flex-wrap gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="review-high">{t('align.options.highScore')}</Label>
+              <Input
+                id="review-high"
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                className="w-32"
+                value={review.highScore}
+                onChange={(e) => setReviewScore('highScore', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="review-low">{t('align.options.lowScore')}</Label>
+              <Input
+                id="review-low"
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                className="w-32"
+                value={review.lowScore}
+                onChange={(e) => setReviewScore('lowScore', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="review-action">{t('align.options.lowConfidence')}</Label>
+              <Select
+                value={review.lowConfidence}
+                onValueChange={(value) => setReview((prev) => ({ ...prev, lowConfidence: value as 'flag' | 'skip' }))}
+              >
+                <SelectTrigger id="review-action" className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="flag">{t('align.options.lowConfidenceFlag')}</SelectItem>
+                  <SelectItem value="skip">{t('align.options.lowConfidenceSkip')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <p className="text-sm text-muted-foreground">{t('align.options.hint')}</p>
         </CardContent>
       </Card>
@@ -238,7 +577,7 @@ export default function AlignPage() {
           <Button
             size="lg"
             onClick={handleRun}
-            disabled={isRunning || !videoPaths.length || !audioPaths.length}
+            disabled={isRunning || !pairs.length}
           >
             {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
             {isRunning ? t('align.running') : t('align.run')}
@@ -257,9 +596,17 @@ export default function AlignPage() {
           </div>
           {reportData && reportData.length > 0 && (
             <div className="space-y-3">
-              <div className="flex items-center gap-2">
+              <div className="flex flex-wrap items-center gap-2">
                 <Info className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
                 <span className="text-sm text-muted-foreground">{t('align.report')}</span>
+                <div className="flex gap-2 ml-auto">
+                  {ALIGNMENT_REPORT_FORMATS.map((format) => (
+                    <Button key={format} variant="outline" size="sm" onClick={() => handleExport(format)}>
+                      <FileDown className="h-4 w-4 mr-2" />
+                      {t('align.export.as', { format: format.toUpperCase() })}
+                    </Button>
+                  ))}
+                </div>
               </div>
               <div className="space-y-3">
                 {reportData.map((entry) => (
@@ -275,21 +622,62 @@ export default function AlignPage() {
                       <strong>{t('align.reportOffset')}:</strong> {entry.offsetMs} ms
                     </p>
                     <p>
-                      <strong>{t('align.reportScore')}:</strong> {entry.score.toFixed(6)}
-                    </p>
-                    <p className="break-all">
-                      <strong>{t('align.reportOutput')}:</strong> {entry.output}
+                      <strong>{t('align.reportScore')}:</strong> {entry.score.toFixed(3)} ({t(`align.confidence.${entry.confidence}`)})
                     </p>
-                    <Button
-                      variant="secondary"
-                      size="sm"
-                      className="mt-2"
-                      onClick={() => handleSaveEntry(entry)}
-                      aria-label={t('align.saveOutput')}
-                    >
-                      <Download className="h-4 w-4 mr-2" />
-                      {t('align.saveOutput')}
-                    </Button>
+                    {entry.tempo !== 1 && (
+                      <p>
+                        <strong>{t('align.reportTempo')}:</strong> {entry.tempo.toFixed(5)}
+                      </p>
+                    )}
+                    {entry.segments.length > 1 && (
+                      <table className="w-full max-w-md text-xs border-collapse mt-2">
+                        <caption className="text-left font-medium pb-1">{t('align.segments.title')}</caption>
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left py-1 font-medium">{t('align.segments.range')}</th>
+                            <th className="text-left py-1 font-medium">{t('align.reportOffset')}</th>
+                          </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                          {entry.segments.map((segment) => (
+                            <tr key={segment.startMs} className="border-b last:border-0">
+                              <td className="py-1">
+                                {(segment.startMs / 1000).toFixed(1)}s → {(segment.endMs / 1000).toFixed(1)}s
+                              </td>
+                              <td className="py-1">
+                                {segment.offsetMs === null ? t('align.segments.silence') : Math.round(segment.offsetMs)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {entry.skipped ? (
+                      <p className="text-amber-700 dark:text-amber-300">{t('align.review.skippedHint')}</p>
+                    ) : outputMissing(entry) ? (
+                      <>
+                        <p className="break-all">
+                          <strong>{t('align.reportOutput')}:</strong> {entry.output}
+                        </p>
+                        <p className="text-amber-700 dark:text-amber-300">{t('align.history.outputMissing')}</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="break-all">
+                          <strong>{t('align.reportOutput')}:</strong> {entry.output}
+                        </p>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          className="mt-2"
+                          onClick={() => handleSaveEntry(entry)}
+                          aria-label={t('align.saveOutput')}
+                        >
+                          <Download className="h-4 w-4 mr-2" />
+                          {t('align.saveOutput')}
+                        </Button>
+                      </>
+                    )}
                   </div>
                 ))}
               </div>
@@ -297,6 +685,72 @@ export default function AlignPage() {
           )}
         </CardContent>
       </Card>
+
+      {reviewQueue.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" aria-hidden="true" />
+              {t('align.review.title', { count: reviewQueue.length })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AlignmentReviewQueue
+              entries={reviewQueue}
+              unavailable={unavailableOutputs}
+              outputProfile={outputProfile}
+              onRemuxed={handleRemuxed}
+              onError={setError}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" aria-hidden="true" />
+              {t('align.history.title')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {history.map((run) => {
+                const flagged = run.entries.filter(needsAlignmentReview).length;
+                return (
+                  <li key={run.id} className="flex flex-wrap items-center gap-3 py-2">
+                    <span className="font-medium">{new Date(run.createdAt).toLocaleString(i18n.language)}</span>
+                    <span className="text-muted-foreground">
+                      {t('align.history.pairs', { count: run.entries.length })}
+                      {flagged > 0 && ` · ${t('align.history.toReview', { count: flagged })}`}
+                    </span>
+                    <div className="flex gap-2 ml-auto">
+                      <Button
+                        variant={currentRun?.id === run.id ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setCurrentRun(run)}
+                        disabled={isRunning}
+                      >
+                        {t('align.history.open')}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteRun(run.id)}
+                        disabled={isRunning}
+                        aria-label={t('align.history.delete')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
     </main>
   );
 }
@@ -1,16 +1,46 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { useLocation } from 'react-router';
 import { useTranslation } from 'react-i18next';
 import { useTTS } from '~/contexts/TTSContext';
 import { Button } from '~/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card';
 import { Alert, AlertDescription } from '~/components/ui/alert';
-import { FileText, Upload, Loader2, Music, Waves, X } from 'lucide-react';
-import { parseSrt, type Subtitle } from '~/lib/srt';
-import { ensureClipFitsSubtitleSlot } from '~/lib/tts';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
+import { Film, FileText, Upload, Loader2, Music, Pause, Play, RotateCcw, Square, Trash2, Waves, X } from 'lucide-react';
+import { detectSubtitleFormat, parseSubtitles, splitSpeaker, type Subtitle } from '~/lib/srt';
+import { ensureClipFitsSubtitleSlot, resolveSpeakerService } from '~/lib/tts';
+import { queuedSaveToFile } from '~/lib/ttsQueue';
+import type { TtsQueueTask } from '~/types/electron';
+import { type DuckingSettings, buildDuckingCues, normalizeDucking } from '~/lib/ducking';
+import {
+  type LoudnessReport,
+  type LoudnessTarget,
+  LOUDNESS_TARGETS,
+  isWithinLoudnessTarget,
+  resolveLoudnessOptions,
+} from '~/lib/loudness';
+import {
+  type ConvertJob,
+  type ConvertJobStatus,
+  CONVERT_JOB_VERSION,
+  parseConvertJob,
+  serializeConvertJob,
+} from '~/lib/convertJob';
+import { DuckingSettingsPanel } from '~/components/DuckingSettingsPanel';
+
+// ISO 639-2 tags for the described track, keyed by app language
+const AUDIO_DESCRIPTION_LANGUAGE_TAGS: Record<string, string> = { en: 'eng', es: 'spa', fr: 'fra', it: 'ita' };
+
+type LoudnessRow = { track: 'tts' | 'ducked'; report: LoudnessReport; tolerance: number };
+
+// Rendered clips between job file writes; a crash loses at most this many
+const JOB_PERSIST_EVERY = 10;
 
 export default function ConvertSubtitles() {
-  const { t } = useTranslation();
-  const { defaultService, saveToFile, subtitleSettings } = useTTS();
+  const { t, i18n } = useTranslation();
+  const { config, defaultService, outputProfile, providerLimits, subtitleSettings, updateSubtitleSettings } = useTTS();
   const cacheRef = useRef<Record<string, { file: string; text: string; serviceId: string; voiceId: string }>>({});
   const cacheDirRef = useRef<string | null>(null);
   const useCache = subtitleSettings.useConvertCache !== false;
@@ -23,8 +53,49 @@ export default function ConvertSubtitles() {
   const [success, setSuccess] = useState<string | null>(null);
   const [liveMessage, setLiveMessage] = useState<string>('');
   const [originalAudioPath, setOriginalAudioPath] = useState<string | null>(null);
-  
+  const [sourceVideoPath, setSourceVideoPath] = useState<string | null>(null);
+  const [adLanguage, setAdLanguage] = useState(() => AUDIO_DESCRIPTION_LANGUAGE_TAGS[i18n.language] || 'und');
+  const [adTitle, setAdTitle] = useState(() => t('convertSubtitles.mux.defaultTitle'));
+  // Edited or handed-over settings win over the last ones saved in subtitle settings
+  const [duckingOverride, setDuckingOverride] = useState<DuckingSettings | null>(null);
+  const ducking = duckingOverride ?? normalizeDucking(subtitleSettings.ducking);
+  const speakerOptions = {
+    speakerVoices: config.speakerVoices,
+    parsePrefixes: subtitleSettings.parseSpeakerPrefixes === true,
+  };
+  const [loudnessTargetOverride, setLoudnessTargetOverride] = useState<LoudnessTarget | null>(null);
+  const loudnessTarget = loudnessTargetOverride ?? subtitleSettings.loudnessTarget ?? 'off';
+  const [truePeakOverride, setTruePeakOverride] = useState<string | null>(null);
+  const truePeakInput = truePeakOverride ?? (subtitleSettings.loudnessTruePeak?.toString() || '');
+  const [loudnessReports, setLoudnessReports] = useState<LoudnessRow[]>([]);
+  const [savedJob, setSavedJob] = useState<ConvertJob | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const activeJobRef = useRef<ConvertJob | null>(null);
+  const queueJobIdRef = useRef<string | null>(null);
+  const cancelRequestedRef = useRef(false);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const location = useLocation();
+
+  // Subtitles handed over from another page (e.g. Translate Subtitles)
+  useEffect(() => {
+    const incoming = location.state as { subtitles?: Subtitle[]; fileName?: string; ducking?: DuckingSettings } | null;
+    if (incoming?.subtitles?.length) {
+      setSubtitles(incoming.subtitles);
+      setFileName(incoming.fileName || '');
+      if (incoming.ducking) setDuckingOverride(normalizeDucking(incoming.ducking));
+      setError(null);
+      setSuccess(null);
+    }
+  }, [location.state]);
+
+  // Offer the last unfinished job, if any
+  useEffect(() => {
+    window.electronAPI.subtitle.readConvertJob().then((result) => {
+      if (result.content) setSavedJob(parseConvertJob(result.content));
+    });
+  }, []);
 
   const getCache = useCallback(async () => {
     if (!cacheDirRef.current) {
@@ -82,12 +153,14 @@ export default function ConvertSubtitles() {
     reader.onload = (e) => {
       const content = e.target?.result as string;
       try {
-        const parsed = parseSrt(content);
+        const parsed = parseSubtitles(content, detectSubtitleFormat(content, file.name), {
+          stripOverrideTags: subtitleSettings.stripAssOverrideTags !== false,
+        });
         setSubtitles(parsed);
         setError(null);
         setSuccess(null);
       } catch (err) {
-        setError('Failed to parse SRT file');
+        setError(t('convertSubtitles.errors.parseFailed'));
       }
     };
     reader.readAsText(file);
@@ -100,11 +173,33 @@ export default function ConvertSubtitles() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const file = e.dataTransfer.files?.[0];
-    if (file && (file.name.endsWith('.srt') || file.type === 'application/x-subrip')) {
+    if (file && (/\.(srt|vtt|ass|ssa)$/i.test(file.name) || file.type === 'application/x-subrip' || file.type === 'text/vtt')) {
       processFile(file);
     } else {
-      setError('Please select a valid .srt file');
+      setError(t('convertSubtitles.errors.invalidFile'));
+    }
+  };
+
+  // 1. Ask for the output paths; null when any dialog is cancelled
+  const chooseOutputs = async (): Promise<ConvertJob['outputs'] | null> => {
+    const ttsOnly = await window.electronAPI.dialog.saveFile(outputProfile);
+    if (!ttsOnly) return null;
+    const outputs: ConvertJob['outputs'] = { ttsOnly };
+
+    // Without a separate original track, duck against the source video's own soundtrack
+    if (originalAudioPath || sourceVideoPath) {
+      const ducked = await window.electronAPI.dialog.saveFile(outputProfile);
+      if (!ducked) return null;
+      outputs.ducked = ducked;
     }
+
+    if (sourceVideoPath) {
+      const baseName = (sourceVideoPath.split(/[\\/]/).pop() || 'video').replace(/\.[^.]+$/, '');
+      const videoTarget = await window.electronAPI.dialog.saveVideoExport(`${baseName}.described`);
+      if (videoTarget.canceled || !videoTarget.path) return null;
+      outputs.video = videoTarget.path;
+    }
+    return outputs;
   };
 
   const handleConvert = async () => {
@@ -120,138 +215,381 @@ export default function ConvertSubtitles() {
     setIsProcessing(true);
     setError(null);
     setSuccess(null);
-    setProgress({ current: 0, total: subtitles.length, status: 'init' });
+    const outputs = await chooseOutputs();
+    if (!outputs) {
+      setIsProcessing(false);
+      return;
+    }
+
+    const loudnessTruePeak = truePeakInput.trim() ? Number(truePeakInput) : undefined;
+    if (duckingOverride || loudnessTargetOverride !== null || truePeakOverride !== null) {
+      await updateSubtitleSettings({ ...subtitleSettings, ducking, loudnessTarget, loudnessTruePeak });
+    }
+
+    await runJob({
+      version: CONVERT_JOB_VERSION,
+      id: crypto.randomUUID(),
+      status: 'running',
+      updatedAt: new Date().toISOString(),
+      fileName,
+      subtitles,
+      outputs,
+      originalAudioPath,
+      sourceVideoPath,
+      ducking,
+      loudnessTarget,
+      loudnessTruePeak,
+      outputProfile,
+      adLanguage: adLanguage.trim() || 'und',
+      adTitle: adTitle.trim() || t('convertSubtitles.mux.defaultTitle'),
+      clips: {},
+      progress: { done: 0, total: 0 },
+      failures: [],
+    });
+  };
+
+  /**
+   * Render, mix and mux a job. Clips rendered by an earlier run of the job are reused, failed cues are
+   * collected into job.failures, and the job stays on disk until its outputs have been written.
+   */
+  const runJob = async (resumed: ConvertJob) => {
+    if (!defaultService) {
+      setError(t('readConvert.noDefaultService'));
+      return;
+    }
 
-    let finalTtsOnlyPath: string | null = null;
-    let finalDuckedPath: string | null = null;
+    const job: ConvertJob = { ...resumed, status: 'running', clips: { ...resumed.clips }, failures: [], error: undefined };
+    const jobSubtitles = job.subtitles;
+    const backgroundPath = job.originalAudioPath || job.sourceVideoPath;
+    const persistJob = () => window.electronAPI.subtitle.writeConvertJob(serializeConvertJob(job));
+    activeJobRef.current = job;
+    cancelRequestedRef.current = false;
+
+    setIsProcessing(true);
+    setIsGenerating(true);
+    setIsPaused(false);
+    setSavedJob(null);
+    setError(null);
+    setSuccess(null);
+    setLoudnessReports([]);
+    setProgress({ current: 0, total: jobSubtitles.length, status: 'init' });
+
+    // Keeps the job on disk and offers it for resuming
+    const stopJob = async (status: ConvertJobStatus) => {
+      job.status = status;
+      await persistJob();
+      setSavedJob(job);
+    };
 
     try {
-      // 1. Get Output Path(s)
-      const finalPath = await window.electronAPI.dialog.saveFile();
-      if (!finalPath) {
-        setIsProcessing(false);
-        setProgress(null);
-        return;
+      // 2. Prepare cache dir and cache map
+      const { cacheDir, cache } = await getCache();
+      const queueOptions = { limits: providerLimits };
+      const queuedSave = queuedSaveToFile(queueOptions);
+
+      const cues = jobSubtitles.flatMap((sub, index) => {
+        const { speaker, text } = splitSpeaker(sub, speakerOptions);
+        const textForTts = text.replace(/\n/g, ' ');
+        if (!textForTts.trim()) return [];
+        const service = resolveSpeakerService(speaker, config.services, config.speakerVoices, defaultService) || defaultService;
+        const serviceKey = service.id || service.name || 'service';
+        return [{ sub, index, textForTts, service, baseSpeed: service.speedFactor ?? 1, cacheKey: `${serviceKey}|${textForTts}` }];
+      });
+
+      const baseClips = new Map<string, string>();
+      for (const cue of cues) {
+        const clip = job.clips[cue.cacheKey] || (useCache ? cache[cue.cacheKey]?.file : undefined);
+        if (clip) baseClips.set(cue.cacheKey, clip);
       }
-      finalTtsOnlyPath = finalPath;
-
-      if (originalAudioPath) {
-        const secondPath = await window.electronAPI.dialog.saveFile();
-        if (!secondPath) {
-          setIsProcessing(false);
-          setProgress(null);
-          return;
-        }
-        finalDuckedPath = secondPath;
+      const updateJobProgress = () => {
+        job.progress = { done: cues.filter((cue) => baseClips.has(cue.cacheKey)).length, total: cues.length };
+      };
+      updateJobProgress();
+      await persistJob();
+
+      // 3. Render every line without a clip through the queue; identical lines render once
+      const tasks = new Map<string, TtsQueueTask>();
+      for (const cue of cues) {
+        if (baseClips.has(cue.cacheKey) || tasks.has(cue.cacheKey)) continue;
+        const hash = hashKey(cue.cacheKey);
+        tasks.set(cue.cacheKey, {
+          id: hash,
+          text: cue.textForTts,
+          outputPath: `${cacheDir}/${hash}.mp3`,
+          service: { ...cue.service, speedFactor: cue.baseSpeed },
+        });
       }
 
-      // 2. Prepare cache dir and cache map
-      const { cacheDir, cache } = await getCache();
-      
-      const clips: { path: string; startTime: number }[] = [];
-      
-      // 3. Loop and Generate
-      for (let i = 0; i < subtitles.length; i++) {
-        const sub = subtitles[i];
-        setProgress({ 
-          current: i + 1, 
-          total: subtitles.length, 
-          status: t('convertSubtitles.generatingAudio', { current: i + 1, total: subtitles.length })
+      const taskErrors = new Map<string, string>();
+      if (tasks.size > 0) {
+        const jobId = crypto.randomUUID();
+        const cacheKeysById = new Map([...tasks].map(([cacheKey, task]) => [task.id, cacheKey]));
+        let unsaved = 0;
+        const unsubscribe = window.electronAPI.ttsQueue.onProgress((event) => {
+          if (event.jobId !== jobId) return;
+          const current = event.completed + event.failed;
+          if (event.state === 'done' && event.path) {
+            const cacheKey = cacheKeysById.get(event.taskId);
+            if (cacheKey) {
+              job.clips[cacheKey] = event.path;
+              baseClips.set(cacheKey, event.path);
+            }
+            if (++unsaved >= JOB_PERSIST_EVERY) {
+              unsaved = 0;
+              updateJobProgress();
+              void persistJob();
+            }
+          }
+          if (event.state === 'retrying') {
+            setProgress({
+              current,
+              total: event.total,
+              status: t('convertSubtitles.queue.retrying', { seconds: Math.ceil((event.retryInMs ?? 0) / 1000) }),
+            });
+          } else if (event.state === 'done' || event.state === 'failed') {
+            const status = t('convertSubtitles.generatingAudio', { current, total: event.total });
+            setProgress({ current, total: event.total, status });
+            setLiveMessage(status);
+          }
+        });
+        setProgress({
+          current: 0,
+          total: tasks.size,
+          status: t('convertSubtitles.generatingAudio', { current: 0, total: tasks.size }),
         });
-        setLiveMessage(t('convertSubtitles.generatingAudio', { current: i + 1, total: subtitles.length }));
+        queueJobIdRef.current = jobId;
+        let queueResult;
+        try {
+          queueResult = await window.electronAPI.ttsQueue.run(jobId, [...tasks.values()], queueOptions);
+        } finally {
+          queueJobIdRef.current = null;
+          unsubscribe();
+        }
+        if (queueResult.error) throw new Error(queueResult.error);
+
+        const resultsById = new Map(queueResult.results.map((result) => [result.id, result]));
+        for (const [cacheKey, task] of tasks) {
+          const result = resultsById.get(task.id);
+          if (!result?.path) {
+            if (result?.error && !result.cancelled) taskErrors.set(cacheKey, result.error);
+            continue;
+          }
+          baseClips.set(cacheKey, result.path);
+          job.clips[cacheKey] = result.path;
+          if (useCache) {
+            cache[cacheKey] = {
+              file: result.path,
+              text: task.text,
+              serviceId: task.service.id || '',
+              voiceId: task.service.voiceId,
+            };
+          }
+        }
+        updateJobProgress();
+      }
 
-        const textForTts = sub.text.replace(/\n/g, ' ');
-        if (!textForTts.trim()) continue;
+      if (cancelRequestedRef.current) {
+        await stopJob('cancelled');
+        setSuccess(t('convertSubtitles.job.cancelled'));
+        return;
+      }
 
-        const baseSpeed = defaultService.speedFactor ?? 1;
-        const serviceKey = defaultService.id || defaultService.name || 'service';
+      // Speed up clips that overrun their cue; this re-renders only the few that do
+      const clips: { path: string; startTime: number }[] = [];
+      for (const cue of cues) {
+        if (cancelRequestedRef.current) break;
+        const baseClip = baseClips.get(cue.cacheKey);
+        if (!baseClip) {
+          job.failures.push({ index: cue.index, text: cue.textForTts, error: taskErrors.get(cue.cacheKey) || 'unknown error' });
+          continue;
+        }
 
-        const cacheKey = `${serviceKey}|${textForTts}`;
         const ensureBaseClip = async () => {
-          const entry = useCache ? cache[cacheKey] : null;
-          if (useCache && entry?.file) {
-            return { path: entry.file, fromCache: true };
-          }
-          const hash = hashKey(cacheKey);
-          const targetPath = `${cacheDir}/${hash}.mp3`;
-          const result = await saveToFile(textForTts, targetPath, { ...defaultService, speedFactor: baseSpeed });
+          const hash = hashKey(cue.cacheKey);
+          const result = await queuedSave(cue.textForTts, `${cacheDir}/${hash}.mp3`, {
+            ...cue.service,
+            speedFactor: cue.baseSpeed,
+          });
           if (result.error || !result.path) {
-            throw new Error(`Failed on subtitle ${i + 1}: ${result.error || 'unknown error'}`);
+            throw new Error(result.error || 'unknown error');
           }
           if (useCache) {
-            cache[cacheKey] = {
+            cache[cue.cacheKey] = {
               file: result.path,
-              text: textForTts,
-              serviceId: defaultService.id || '',
-              voiceId: defaultService.voiceId,
+              text: cue.textForTts,
+              serviceId: cue.service.id || '',
+              voiceId: cue.service.voiceId,
             };
           }
-          return { path: result.path, fromCache: false };
+          baseClips.set(cue.cacheKey, result.path);
+          job.clips[cue.cacheKey] = result.path;
+          return result.path;
         };
 
-        const baseClip = await ensureBaseClip();
-        const finalPath = await ensureClipFitsSubtitleSlot({
-          baseClipPath: baseClip.path,
-          subtitle: sub,
-          baseSpeed,
-          cacheDir,
-          cacheKey,
-          textForTts,
-          hashKey,
-          defaultService,
-          saveToFile,
-          onAdjustingSpeed: () => {
-            const statusLabel = t('convertSubtitles.adjustingSpeed', { current: i + 1, total: subtitles.length });
-            setProgress({
-              current: i + 1,
-              total: subtitles.length,
-              status: statusLabel,
-            });
-            setLiveMessage(statusLabel);
-          },
-          onInvalidDuration: async () => {
-            delete cache[cacheKey];
-            const refreshed = await ensureBaseClip();
-            return refreshed.path;
-          },
-        });
+        try {
+          const finalPath = await ensureClipFitsSubtitleSlot({
+            baseClipPath: baseClip,
+            subtitle: cue.sub,
+            baseSpeed: cue.baseSpeed,
+            cacheDir,
+            cacheKey: cue.cacheKey,
+            textForTts: cue.textForTts,
+            hashKey,
+            defaultService: cue.service,
+            saveToFile: queuedSave,
+            onAdjustingSpeed: () => {
+              const statusLabel = t('convertSubtitles.adjustingSpeed', { current: cue.index + 1, total: jobSubtitles.length });
+              setProgress({
+                current: cue.index + 1,
+                total: jobSubtitles.length,
+                status: statusLabel,
+              });
+              setLiveMessage(statusLabel);
+            },
+            onInvalidDuration: async () => {
+              delete cache[cue.cacheKey];
+              delete job.clips[cue.cacheKey];
+              return ensureBaseClip();
+            },
+          });
+          clips.push({ path: finalPath, startTime: cue.sub.startTime });
+        } catch (err) {
+          job.failures.push({ index: cue.index, text: cue.textForTts, error: (err as Error).message });
+        }
+      }
 
-        clips.push({ path: finalPath, startTime: sub.startTime });
+      if (cancelRequestedRef.current) {
+        await stopJob('cancelled');
+        setSuccess(t('convertSubtitles.job.cancelled'));
+        return;
+      }
+      if (job.failures.length > 0) {
+        await stopJob('failed');
+        setError(t('convertSubtitles.job.failedCues', { count: job.failures.length }));
+        return;
       }
 
       // 4. Mix
-      setProgress({ current: subtitles.length, total: subtitles.length, status: t('convertSubtitles.mixingAudio') });
+      setIsGenerating(false);
+      setProgress({ current: jobSubtitles.length, total: jobSubtitles.length, status: t('convertSubtitles.mixingAudio') });
       setLiveMessage(t('convertSubtitles.mixingAudio'));
-      // Always render the TTS-only mix to finalTtsOnlyPath
-      const mixResult = await window.electronAPI.system.mixAudio(clips, finalTtsOnlyPath, undefined);
+      const loudness = resolveLoudnessOptions(job.loudnessTarget, job.loudnessTruePeak);
+      const tolerance = job.loudnessTarget !== 'off' ? LOUDNESS_TARGETS[job.loudnessTarget].tolerance : 1;
+      const reports: LoudnessRow[] = [];
+
+      // Always render the TTS-only mix to the first output
+      const mixResult = await window.electronAPI.system.mixAudio(
+        clips,
+        job.outputs.ttsOnly,
+        undefined,
+        undefined,
+        loudness,
+        job.outputProfile
+      );
       
       if (mixResult.error) {
         throw new Error(mixResult.error);
       }
-
-      if (originalAudioPath && finalDuckedPath) {
-        const duckedResult = await window.electronAPI.system.mixAudio(clips, finalDuckedPath, originalAudioPath || undefined);
+      if (mixResult.loudness) reports.push({ track: 'tts', report: mixResult.loudness, tolerance });
+
+      if (backgroundPath && job.outputs.ducked) {
+        const duckedResult = await window.electronAPI.system.mixAudio(
+          clips,
+          job.outputs.ducked,
+          backgroundPath,
+          { settings: job.ducking, cues: buildDuckingCues(jobSubtitles) },
+          loudness,
+          job.outputProfile
+        );
         if (duckedResult.error) {
           throw new Error(duckedResult.error);
         }
+        if (duckedResult.loudness) reports.push({ track: 'ducked', report: duckedResult.loudness, tolerance });
+      }
+      setLoudnessReports(reports);
+
+      if (job.sourceVideoPath && job.outputs.ducked && job.outputs.video) {
+        setProgress({ current: jobSubtitles.length, total: jobSubtitles.length, status: t('convertSubtitles.mux.muxing') });
+        setLiveMessage(t('convertSubtitles.mux.muxing'));
+        const muxResult = await window.electronAPI.system.muxDescribedAudio({
+          videoPath: job.sourceVideoPath,
+          audioPath: job.outputs.ducked,
+          outputPath: job.outputs.video,
+          language: job.adLanguage,
+          title: job.adTitle,
+        });
+        if (muxResult.error) {
+          throw new Error(muxResult.error);
+        }
       }
 
+      await window.electronAPI.subtitle.clearConvertJob();
       setSuccess(
-        originalAudioPath && finalDuckedPath
-          ? `${t('convertSubtitles.success')} (TTS-only and ducked tracks saved)`
-          : t('convertSubtitles.success')
+        job.outputs.video
+          ? t('convertSubtitles.mux.success', { path: job.outputs.video })
+          : backgroundPath && job.outputs.ducked
+            ? `${t('convertSubtitles.success')} (TTS-only and ducked tracks saved)`
+            : t('convertSubtitles.success')
       );
 
     } catch (err) {
-      setError((err as Error).message);
+      job.error = (err as Error).message;
+      await stopJob('failed');
+      setError(job.error);
     } finally {
       await persistCache();
+      activeJobRef.current = null;
       setIsProcessing(false);
+      setIsGenerating(false);
+      setIsPaused(false);
       setProgress(null);
       setLiveMessage('');
     }
   };
 
+  const handlePauseToggle = async () => {
+    const jobId = queueJobIdRef.current;
+    const job = activeJobRef.current;
+    if (!jobId || !job) return;
+    if (isPaused) {
+      await window.electronAPI.ttsQueue.resume(jobId);
+      job.status = 'running';
+      setIsPaused(false);
+    } else {
+      await window.electronAPI.ttsQueue.pause(jobId);
+      job.status = 'paused';
+      setIsPaused(true);
+      setLiveMessage(t('convertSubtitles.job.pausedStatus'));
+    }
+    await window.electronAPI.subtitle.writeConvertJob(serializeConvertJob(job));
+  };
+
+  const handleCancelJob = async () => {
+    cancelRequestedRef.current = true;
+    setIsPaused(false);
+    if (queueJobIdRef.current) await window.electronAPI.ttsQueue.cancel(queueJobIdRef.current);
+  };
+
+  const handleResumeJob = async () => {
+    if (!savedJob) return;
+    // Show what is being resumed; the job itself carries every setting it runs with
+    setSubtitles(savedJob.subtitles);
+    setFileName(savedJob.fileName);
+    setOriginalAudioPath(savedJob.originalAudioPath);
+    setSourceVideoPath(savedJob.sourceVideoPath);
+    setDuckingOverride(savedJob.ducking);
+    setLoudnessTargetOverride(savedJob.loudnessTarget);
+    setTruePeakOverride(savedJob.loudnessTruePeak?.toString() ?? '');
+    setAdLanguage(savedJob.adLanguage);
+    setAdTitle(savedJob.adTitle);
+    await runJob(savedJob);
+  };
+
+  const handleDiscardJob = async () => {
+    await window.electronAPI.subtitle.clearConvertJob();
+    setSavedJob(null);
+  };
+
   const handleOriginalAudioSelect = async () => {
     setError(null);
     const result = await window.electronAPI.dialog.openMediaFile();
@@ -266,6 +604,21 @@ export default function ConvertSubtitles() {
     }
   };
 
+  const handleSourceVideoSelect = async () => {
+    setError(null);
+    const result = await window.electronAPI.dialog.openMediaFile();
+    if (result?.error) {
+      setError(result.error);
+      return;
+    }
+    if (!result?.path) return;
+    if (result.kind !== 'video') {
+      setError(t('convertSubtitles.mux.notVideo'));
+      return;
+    }
+    setSourceVideoPath(result.path);
+  };
+
   return (
     <main className="container mx-auto p-6 max-w-4xl" role="main">
       <h1 className="text-3xl font-bold mb-6">{t('convertSubtitles.title')}</h1>
@@ -286,6 +639,64 @@ export default function ConvertSubtitles() {
         </Alert>
       )}
 
+      {savedJob && !isProcessing && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>{t('convertSubtitles.job.unfinished')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="text-sm">
+                <p className="font-medium">{savedJob.fileName || t('convertSubtitles.job.untitled')}</p>
+                <p className="text-muted-foreground">
+                  {t(`convertSubtitles.job.status.${savedJob.status}`)} ·{' '}
+                  {t('convertSubtitles.job.progress', { done: savedJob.progress.done, total: savedJob.progress.total })} ·{' '}
+                  {new Date(savedJob.updatedAt).toLocaleString(i18n.language)}
+                </p>
+                {savedJob.error && (
+                  <p className="text-red-700 dark:text-red-300">{t('convertSubtitles.job.lastError', { error: savedJob.error })}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleResumeJob} disabled={!defaultService}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {t('convertSubtitles.job.resume')}
+                </Button>
+                <Button variant="outline" onClick={handleDiscardJob}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {t('convertSubtitles.job.discard')}
+                </Button>
+              </div>
+            </div>
+            {savedJob.failures.length > 0 && (
+              <div className="max-h-[240px] overflow-y-auto border rounded-md">
+                <table className="w-full text-sm border-collapse">
+                  <caption className="text-left px-3 py-2 font-medium">{t('convertSubtitles.job.failureReport')}</caption>
+                  <thead className="bg-muted/40 border-b">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium w-14">#</th>
+                      <th className="text-left px-3 py-2 font-medium">{t('convertSubtitles.job.text')}</th>
+                      <th className="text-left px-3 py-2 font-medium">{t('convertSubtitles.job.reason')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {savedJob.failures.map((failure) => (
+                      <tr key={failure.index} className="border-b last:border-0">
+                        <td className="px-3 py-2 font-mono text-muted-foreground align-top">
+                          #{savedJob.subtitles[failure.index]?.id ?? failure.index + 1}
+                        </td>
+                        <td className="px-3 py-2 align-top">{failure.text}</td>
+                        <td className="px-3 py-2 align-top text-red-700 dark:text-red-300">{failure.error}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="mb-6">
         <CardHeader>
           <CardTitle>{t('convertSubtitles.selectFile')}</CardTitle>
@@ -309,7 +720,7 @@ export default function ConvertSubtitles() {
               type="file" 
               ref={fileInputRef}
               className="hidden" 
-              accept=".srt"
+              accept=".srt,.vtt,.ass,.ssa"
               onChange={handleFileSelect} 
             />
           </div>
@@ -342,6 +753,85 @@ export default function ConvertSubtitles() {
                     </Button>
                   )}
                 </div>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground mt-2">
+                  <Film className="h-4 w-4" />
+                  {sourceVideoPath ? (
+                    <>
+                      <span className="break-all">{t('convertSubtitles.mux.video', { name: sourceVideoPath.split(/[\\/]/).pop() })}</span>
+                      <Button variant="ghost" size="sm" onClick={() => setSourceVideoPath(null)}>
+                        <X className="h-4 w-4 mr-1" />
+                        {t('convertSubtitles.mux.clearVideo')}
+                      </Button>
+                    </>
+                  ) : (
+                    <Button variant="secondary" size="sm" onClick={handleSourceVideoSelect}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      {t('convertSubtitles.mux.addVideo')}
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-3 mt-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="loudnessTarget">{t('convertSubtitles.loudness.target')}</Label>
+                    <Select
+                      value={loudnessTarget}
+                      onValueChange={(value) => setLoudnessTargetOverride(value as LoudnessTarget)}
+                    >
+                      <SelectTrigger id="loudnessTarget" className="w-[240px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">{t('convertSubtitles.loudness.targets.off')}</SelectItem>
+                        <SelectItem value="ebu-r128">{t('convertSubtitles.loudness.targets.ebu-r128')}</SelectItem>
+                        <SelectItem value="atsc-a85">{t('convertSubtitles.loudness.targets.atsc-a85')}</SelectItem>
+                        <SelectItem value="podcast">{t('convertSubtitles.loudness.targets.podcast')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {loudnessTarget !== 'off' && (
+                    <div className="space-y-1">
+                      <Label htmlFor="loudnessTruePeak">{t('convertSubtitles.loudness.truePeak')}</Label>
+                      <Input
+                        id="loudnessTruePeak"
+                        type="number"
+                        step="0.5"
+                        max="0"
+                        className="w-[120px]"
+                        placeholder={String(LOUDNESS_TARGETS[loudnessTarget].truePeak)}
+                        value={truePeakInput}
+                        onChange={(e) => setTruePeakOverride(e.target.value)}
+                      />
+                    </div>
+                  )}
+                </div>
+                {(originalAudioPath || sourceVideoPath) && (
+                  <div className="mt-3">
+                    <DuckingSettingsPanel id="convertDucking" value={ducking} onChange={setDuckingOverride} />
+                  </div>
+                )}
+                {sourceVideoPath && (
+                  <div className="flex flex-wrap gap-3 mt-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="adTrackLanguage">{t('convertSubtitles.mux.language')}</Label>
+                      <Input
+                        id="adTrackLanguage"
+                        className="w-[100px]"
+                        maxLength={3}
+                        value={adLanguage}
+                        onChange={(e) => setAdLanguage(e.target.value.toLowerCase())}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="adTrackTitle">{t('convertSubtitles.mux.title')}</Label>
+                      <Input
+                        id="adTrackTitle"
+                        className="w-[220px]"
+                        value={adTitle}
+                        onChange={(e) => setAdTitle(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
               <Button 
                 onClick={handleConvert} 
@@ -357,6 +847,44 @@ export default function ConvertSubtitles() {
               </Button>
             </div>
 
+            {loudnessReports.length > 0 && (
+              <div className="mb-6 border rounded-md">
+                <table className="w-full text-sm border-collapse">
+                  <caption className="text-left px-3 py-2 font-medium">{t('convertSubtitles.loudness.report')}</caption>
+                  <thead className="bg-muted/40 border-b">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium">{t('convertSubtitles.loudness.track')}</th>
+                      <th className="text-left px-3 py-2 font-medium">{t('convertSubtitles.loudness.integrated')}</th>
+                      <th className="text-left px-3 py-2 font-medium">{t('convertSubtitles.loudness.truePeakColumn')}</th>
+                      <th className="text-left px-3 py-2 font-medium">{t('convertSubtitles.loudness.lra')}</th>
+                      <th className="text-left px-3 py-2 font-medium">{t('convertSubtitles.loudness.status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loudnessReports.map(({ track, report, tolerance }) => (
+                      <tr key={track} className="border-b last:border-0">
+                        <td className="px-3 py-2">{t(`convertSubtitles.loudness.tracks.${track}`)}</td>
+                        <td className="px-3 py-2 font-mono">
+                          {report.input.integrated.toFixed(1)} → {report.output.integrated.toFixed(1)} LUFS
+                        </td>
+                        <td className="px-3 py-2 font-mono">
+                          {report.input.truePeak.toFixed(1)} → {report.output.truePeak.toFixed(1)} dBTP
+                        </td>
+                        <td className="px-3 py-2 font-mono">
+                          {report.input.lra.toFixed(1)} → {report.output.lra.toFixed(1)} LU
+                        </td>
+                        <td className="px-3 py-2">
+                          {isWithinLoudnessTarget(report, tolerance)
+                            ? t('convertSubtitles.loudness.pass')
+                            : t('convertSubtitles.loudness.fail')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {progress && (
               <div className="space-y-2">
                 <div className="h-2 bg-secondary rounded-full overflow-hidden">
@@ -366,8 +894,20 @@ export default function ConvertSubtitles() {
                   />
                 </div>
                 <p className="text-sm text-muted-foreground text-center animate-pulse">
-                  {progress.status}
+                  {isPaused ? t('convertSubtitles.job.pausedStatus') : progress.status}
                 </p>
+                {isGenerating && (
+                  <div className="flex justify-center gap-2">
+                    <Button variant="outline" size="sm" onClick={handlePauseToggle} disabled={!queueJobIdRef.current}>
+                      {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                      {isPaused ? t('convertSubtitles.job.continue') : t('convertSubtitles.job.pause')}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleCancelJob}>
+                      <Square className="h-4 w-4 mr-2" />
+                      {t('convertSubtitles.job.cancel')}
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
 
@@ -377,22 +917,31 @@ export default function ConvertSubtitles() {
                   <tr>
                     <th className="text-left px-3 py-2 font-medium w-14">#</th>
                     <th className="text-left px-3 py-2 font-medium w-40">Time</th>
+                    <th className="text-left px-3 py-2 font-medium w-32">{t('convertSubtitles.speaker')}</th>
                     <th className="text-left px-3 py-2 font-medium">Text</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {subtitles.slice(0, 100).map((sub) => (
-                    <tr key={sub.id} className="border-b last:border-0">
-                      <td className="px-3 py-2 font-mono text-muted-foreground align-top">#{sub.id}</td>
-                      <td className="px-3 py-2 font-mono text-muted-foreground align-top">
-                        {(sub.startTime / 1000).toFixed(1)}s → {(sub.endTime / 1000).toFixed(1)}s
-                      </td>
-                      <td className="px-3 py-2 align-top">{sub.text}</td>
-                    </tr>
-                  ))}
+                  {subtitles.slice(0, 100).map((sub) => {
+                    const { speaker, text } = splitSpeaker(sub, speakerOptions);
+                    const service = resolveSpeakerService(speaker, config.services, config.speakerVoices, defaultService);
+                    return (
+                      <tr key={sub.id} className="border-b last:border-0">
+                        <td className="px-3 py-2 font-mono text-muted-foreground align-top">#{sub.id}</td>
+                        <td className="px-3 py-2 font-mono text-muted-foreground align-top">
+                          {(sub.startTime / 1000).toFixed(1)}s → {(sub.endTime / 1000).toFixed(1)}s
+                        </td>
+                        <td className="px-3 py-2 text-muted-foreground align-top">
+                          {speaker || '-'}
+                          {service && <span className="block text-xs">{service.name}</span>}
+                        </td>
+                        <td className="px-3 py-2 align-top">{text}</td>
+                      </tr>
+                    );
+                  })}
                   {subtitles.length > 100 && (
                     <tr>
-                      <td colSpan={3} className="px-3 py-2 text-xs text-muted-foreground">
+                      <td colSpan={4} className="px-3 py-2 text-xs text-muted-foreground">
                         ... and {subtitles.length - 100} more
                       </td>
                     </tr>
@@ -10,7 +10,7 @@ import { Play, Square, Download, Loader2 } from 'lucide-react';
 
 export default function ReadConvert() {
   const { t } = useTranslation();
-  const { defaultService, speak, saveToFile } = useTTS();
+  const { defaultService, speak, saveToFile, outputProfile } = useTTS();
 
   const [text, setText] = useState('');
   const [isPlaying, setIsPlaying] = useState(false);
@@ -104,13 +104,13 @@ export default function ReadConvert() {
     setIsConverting(true);
 
     try {
-      const outputPath = await window.electronAPI.dialog.saveFile();
+      const outputPath = await window.electronAPI.dialog.saveFile(outputProfile);
       if (!outputPath) {
         setIsConverting(false);
         return;
       }
 
-      const result = await saveToFile(text, outputPath, defaultService);
+      const result = await saveToFile(text, outputPath, defaultService, outputProfile);
       if (result.error) {
         setError(result.error);
       } else {
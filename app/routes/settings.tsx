@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTTS } from '~/contexts/TTSContext';
-import type { TTSService, Voice } from '~/types/electron';
+import type { ProviderLimits, TranscriptionProvider, TTSService, Voice } from '~/types/electron';
 import { Button } from '~/components/ui/button';
 import { Input } from '~/components/ui/input';
 import { Label } from '~/components/ui/label';
@@ -30,6 +30,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card';
 import { Alert, AlertDescription } from '~/components/ui/alert';
 import { Plus, Pencil, Trash2, Star, RefreshCw, Play } from 'lucide-react';
 import { languages } from '~/i18n';
+import { normalizeSpeakerName } from '~/lib/srt';
+import {
+  OUTPUT_FORMATS,
+  normalizeOutputProfile,
+  outputProfileExtension,
+  type OutputFormat,
+  type OutputProfile,
+} from '~/lib/outputProfile';
+import { MAX_PROVIDER_CONCURRENCY, type TTSServiceType } from '~/lib/ttsQueue';
 
 const SERVICE_TYPES = ['webspeech', 'azure', 'elevenlabs', 'google', 'gemini'] as const;
 
@@ -90,6 +99,11 @@ export default function Settings() {
     speak,
     subtitleSettings,
     updateSubtitleSettings,
+    updateSpeakerVoices,
+    outputProfile,
+    updateOutputProfile,
+    providerLimits,
+    updateProviderLimits,
     reloadConfig,
   } = useTTS();
 
@@ -106,11 +120,28 @@ export default function Settings() {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const testTextInputRef = useRef<HTMLInputElement>(null);
   const [subtitlePrefs, setSubtitlePrefs] = useState(subtitleSettings);
+  const [speakerRows, setSpeakerRows] = useState<{ speaker: string; serviceId: string }[]>([]);
+  const [profilePrefs, setProfilePrefs] = useState<OutputProfile>(outputProfile);
+  const [limitPrefs, setLimitPrefs] = useState(providerLimits);
 
   useEffect(() => {
     setSubtitlePrefs(subtitleSettings);
   }, [subtitleSettings]);
 
+  useEffect(() => {
+    setProfilePrefs(outputProfile);
+  }, [outputProfile]);
+
+  useEffect(() => {
+    setLimitPrefs(providerLimits);
+  }, [providerLimits]);
+
+  useEffect(() => {
+    setSpeakerRows(
+      Object.entries(config.speakerVoices || {}).map(([speaker, serviceId]) => ({ speaker, serviceId }))
+    );
+  }, [config.speakerVoices]);
+
   const filePathToUrl = (filePath: string) => {
     const normalizedPath = filePath.replace(/\\/g, '/');
     if (/^[a-zA-Z]:/.test(normalizedPath)) {
@@ -273,6 +304,55 @@ export default function Settings() {
     }
   };
 
+  const handleSaveSpeakerVoices = async () => {
+    try {
+      const mapping: Record<string, string> = {};
+      speakerRows.forEach((row) => {
+        const speaker = normalizeSpeakerName(row.speaker);
+        if (speaker && row.serviceId) {
+          mapping[speaker] = row.serviceId;
+        }
+      });
+      await updateSpeakerVoices(mapping);
+      setSuccess(t('settings.speakerVoices.saved'));
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleSaveOutputProfile = async () => {
+    try {
+      await updateOutputProfile(profilePrefs);
+      setSuccess(t('settings.outputProfile.saved'));
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Snap the rate and bitrate to what the newly chosen format supports
+  const updateProfilePrefs = (changes: Partial<OutputProfile>) =>
+    setProfilePrefs(normalizeOutputProfile({ ...profilePrefs, ...changes }));
+
+  const profileFormat = OUTPUT_FORMATS[profilePrefs.format];
+
+  const setLimit = (type: TTSServiceType, field: keyof ProviderLimits, raw: string) => {
+    const parsed = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(parsed) || parsed < 1) return;
+    setLimitPrefs({ ...limitPrefs, [type]: { ...limitPrefs[type], [field]: parsed } });
+  };
+
+  const handleSaveProviderLimits = async () => {
+    try {
+      await updateProviderLimits(limitPrefs);
+      setSuccess(t('settings.queue.saved'));
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
   const needsApiKey = formData.type !== 'webspeech';
   const needsRegion = formData.type === 'azure';
   const isElevenLabs = formData.type === 'elevenlabs';
@@ -334,6 +414,143 @@ export default function Settings() {
       </CardContent>
     </Card>
 
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>{t('settings.outputProfile.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t('settings.outputProfile.description')}</p>
+          <div className="flex flex-wrap gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="outputProfileFormat">{t('settings.outputProfile.format')}</Label>
+              <Select
+                value={profilePrefs.format}
+                onValueChange={(value) => updateProfilePrefs({ format: value as OutputFormat })}
+              >
+                <SelectTrigger id="outputProfileFormat" className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {t(`settings.outputProfile.formats.${format}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="outputProfileSampleRate">{t('settings.outputProfile.sampleRate')}</Label>
+              <Select
+                value={String(profilePrefs.sampleRate)}
+                onValueChange={(value) => updateProfilePrefs({ sampleRate: Number(value) })}
+              >
+                <SelectTrigger id="outputProfileSampleRate" className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profileFormat.sampleRates.map((rate) => (
+                    <SelectItem key={rate} value={String(rate)}>
+                      {`${rate} Hz`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="outputProfileChannels">{t('settings.outputProfile.channels')}</Label>
+              <Select
+                value={String(profilePrefs.channels)}
+                onValueChange={(value) => updateProfilePrefs({ channels: value === '1' ? 1 : 2 })}
+              >
+                <SelectTrigger id="outputProfileChannels" className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">{t('settings.outputProfile.mono')}</SelectItem>
+                  <SelectItem value="2">{t('settings.outputProfile.stereo')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {!profileFormat.lossless && (
+              <div className="space-y-2">
+                <Label htmlFor="outputProfileBitrate">{t('settings.outputProfile.bitrate')}</Label>
+                <Select
+                  value={String(profilePrefs.bitrateKbps)}
+                  onValueChange={(value) => updateProfilePrefs({ bitrateKbps: Number(value) })}
+                >
+                  <SelectTrigger id="outputProfileBitrate" className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profileFormat.bitrates.map((bitrate) => (
+                      <SelectItem key={bitrate} value={String(bitrate)}>
+                        {`${bitrate} kbps`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('settings.outputProfile.extensionHint', { extension: outputProfileExtension(profilePrefs) })}
+          </p>
+          <div className="flex justify-end">
+            <Button onClick={handleSaveOutputProfile}>{t('settings.outputProfile.save')}</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>{t('settings.queue.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t('settings.queue.description')}</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('settings.table.type')}</TableHead>
+                <TableHead>{t('settings.queue.concurrency')}</TableHead>
+                <TableHead>{t('settings.queue.ratePerMinute')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {SERVICE_TYPES.map((type) => (
+                <TableRow key={type}>
+                  <TableCell>{t(`settings.serviceTypes.${type}`)}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={MAX_PROVIDER_CONCURRENCY}
+                      className="w-[100px]"
+                      value={limitPrefs[type].concurrency}
+                      onChange={(e) => setLimit(type, 'concurrency', e.target.value)}
+                      aria-label={t('settings.queue.concurrencyFor', { service: t(`settings.serviceTypes.${type}`) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-[100px]"
+                      value={limitPrefs[type].ratePerMinute}
+                      onChange={(e) => setLimit(type, 'ratePerMinute', e.target.value)}
+                      aria-label={t('settings.queue.rateFor', { service: t(`settings.serviceTypes.${type}`) })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end">
+            <Button onClick={handleSaveProviderLimits}>{t('settings.queue.save')}</Button>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card className="mb-6">
         <CardHeader>
           <CardTitle>{t('settings.subtitleDefaults.title')}</CardTitle>
@@ -366,6 +583,83 @@ export default function Settings() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="subtitleTranscriptionProvider">
+                {t('settings.subtitleDefaults.transcriptionProvider')}
+              </Label>
+              <Select
+                value={subtitlePrefs.transcriptionProvider || 'gemini'}
+                onValueChange={(value) =>
+                  setSubtitlePrefs({
+                    ...subtitlePrefs,
+                    transcriptionProvider: value as TranscriptionProvider,
+                  })
+                }
+              >
+                <SelectTrigger
+                  id="subtitleTranscriptionProvider"
+                  className="w-[260px]"
+                  aria-describedby="subtitleTranscriptionProviderHint"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gemini">{t('settings.subtitleDefaults.providerGemini')}</SelectItem>
+                  <SelectItem value="whisper">{t('settings.subtitleDefaults.providerWhisper')}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p
+                id="subtitleTranscriptionProviderHint"
+                className="text-xs text-muted-foreground"
+              >
+                {t('settings.subtitleDefaults.transcriptionProviderHint')}
+              </p>
+            </div>
+
+            {subtitlePrefs.transcriptionProvider === 'whisper' && (
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="subtitleWhisperBinary">
+                    {t('settings.subtitleDefaults.whisperBinary')}
+                  </Label>
+                  <Input
+                    id="subtitleWhisperBinary"
+                    value={subtitlePrefs.whisperBinaryPath || ''}
+                    onChange={(e) =>
+                      setSubtitlePrefs({ ...subtitlePrefs, whisperBinaryPath: e.target.value })
+                    }
+                    placeholder="whisper-cli"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="subtitleWhisperModel">
+                    {t('settings.subtitleDefaults.whisperModel')}
+                  </Label>
+                  <Input
+                    id="subtitleWhisperModel"
+                    value={subtitlePrefs.whisperModelPath || ''}
+                    onChange={(e) =>
+                      setSubtitlePrefs({ ...subtitlePrefs, whisperModelPath: e.target.value })
+                    }
+                    placeholder="/path/to/ggml-base.bin"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="subtitleWhisperLanguage">
+                    {t('settings.subtitleDefaults.whisperLanguage')}
+                  </Label>
+                  <Input
+                    id="subtitleWhisperLanguage"
+                    value={subtitlePrefs.whisperLanguage || ''}
+                    onChange={(e) =>
+                      setSubtitlePrefs({ ...subtitlePrefs, whisperLanguage: e.target.value })
+                    }
+                    placeholder="auto"
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="flex items-start gap-3">
               <input
                 id="subtitleUseCache"
@@ -393,6 +687,60 @@ export default function Settings() {
               </div>
             </div>
 
+            <div className="flex items-start gap-3">
+              <input
+                id="subtitleStripAssTags"
+                type="checkbox"
+                className="mt-1 h-4 w-4"
+                checked={subtitlePrefs.stripAssOverrideTags !== false}
+                onChange={(e) =>
+                  setSubtitlePrefs({
+                    ...subtitlePrefs,
+                    stripAssOverrideTags: e.target.checked,
+                  })
+                }
+                aria-describedby="subtitleStripAssTagsHint"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="subtitleStripAssTags" className="cursor-pointer">
+                  {t('settings.subtitleDefaults.stripAssTags')}
+                </Label>
+                <p
+                  id="subtitleStripAssTagsHint"
+                  className="text-xs text-muted-foreground"
+                >
+                  {t('settings.subtitleDefaults.stripAssTagsHint')}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3">
+              <input
+                id="subtitleParseSpeakerPrefixes"
+                type="checkbox"
+                className="mt-1 h-4 w-4"
+                checked={subtitlePrefs.parseSpeakerPrefixes === true}
+                onChange={(e) =>
+                  setSubtitlePrefs({
+                    ...subtitlePrefs,
+                    parseSpeakerPrefixes: e.target.checked,
+                  })
+                }
+                aria-describedby="subtitleParseSpeakerPrefixesHint"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="subtitleParseSpeakerPrefixes" className="cursor-pointer">
+                  {t('settings.subtitleDefaults.parseSpeakerPrefixes')}
+                </Label>
+                <p
+                  id="subtitleParseSpeakerPrefixesHint"
+                  className="text-xs text-muted-foreground"
+                >
+                  {t('settings.subtitleDefaults.parseSpeakerPrefixesHint')}
+                </p>
+              </div>
+            </div>
+
             <div className="flex items-start gap-3">
               <input
                 id="subtitleNormalizeTranscription"
@@ -429,6 +777,79 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      <Card className="mb-6">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{t('settings.speakerVoices.title')}</CardTitle>
+          <Button
+            variant="outline"
+            onClick={() => setSpeakerRows([...speakerRows, { speaker: '', serviceId: config.defaultServiceId || '' }])}
+            disabled={config.services.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t('settings.speakerVoices.add')}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t('settings.speakerVoices.description')}</p>
+          {speakerRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('settings.speakerVoices.empty')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {speakerRows.map((row, index) => (
+                <li key={index} className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`speakerName-${index}`}>{t('settings.speakerVoices.speaker')}</Label>
+                    <Input
+                      id={`speakerName-${index}`}
+                      value={row.speaker}
+                      onChange={(e) =>
+                        setSpeakerRows(speakerRows.map((r, i) => (i === index ? { ...r, speaker: e.target.value } : r)))
+                      }
+                      placeholder="NARRATOR"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`speakerService-${index}`}>{t('settings.speakerVoices.service')}</Label>
+                    <Select
+                      value={row.serviceId}
+                      onValueChange={(value) =>
+                        setSpeakerRows(speakerRows.map((r, i) => (i === index ? { ...r, serviceId: value } : r)))
+                      }
+                    >
+                      <SelectTrigger
+                        id={`speakerService-${index}`}
+                        className="w-[220px]"
+                        aria-label={t('settings.speakerVoices.service')}
+                      >
+                        <SelectValue placeholder={t('settings.selectVoice')} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {config.services.map((service) => (
+                          <SelectItem key={service.id} value={service.id}>
+                            {service.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSpeakerRows(speakerRows.filter((_, i) => i !== index))}
+                    aria-label={t('settings.speakerVoices.remove', { speaker: row.speaker || index + 1 })}
+                  >
+                    <Trash2 className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={handleSaveSpeakerVoices}>{t('settings.speakerVoices.save')}</Button>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>{t('settings.title')}</CardTitle>
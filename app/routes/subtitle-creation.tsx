@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router';
 import { useTranslation } from 'react-i18next';
 import { Alert, AlertDescription } from '~/components/ui/alert';
 import { Button } from '~/components/ui/button';
@@ -7,11 +8,38 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '~/components/u
 import { Input } from '~/components/ui/input';
 import { Label } from '~/components/ui/label';
 import { Textarea } from '~/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '~/components/ui/select';
 import { Pencil, MapPin } from 'lucide-react';
+import { type TimelineMode, WaveformTimeline } from '~/components/WaveformTimeline';
 import { useTTS } from '~/contexts/TTSContext';
 import { languages } from '~/i18n';
-import { type Subtitle, formatTimestamp, parseSrt, serializeSrt } from '~/lib/srt';
-import { ensureClipFitsSubtitleSlot } from '~/lib/tts';
+import {
+  type AssStyleSheet,
+  type Subtitle,
+  type SubtitleFormat,
+  detectSubtitleFormat,
+  formatTimestamp,
+  parseAssStyles,
+  parseSubtitles,
+  serializeSrt,
+  serializeSubtitles,
+  splitSpeaker,
+} from '~/lib/srt';
+import { ensureClipFitsSubtitleSlot, resolveSpeakerService } from '~/lib/tts';
+import { queuedSaveToFile } from '~/lib/ttsQueue';
+import type { DialogueGap, ProjectFileResult, VideoExportMode, WaveformData } from '~/types/electron';
+import { type HistoryStacks, emptyHistory, pushHistory, redoHistory, undoHistory } from '~/lib/history';
+import { type CueDucking, type DuckingSettings, DEFAULT_DUCKING } from '~/lib/ducking';
+import { DuckingSettingsPanel } from '~/components/DuckingSettingsPanel';
+import {
+  type OpenDescProject,
+  type SessionSnapshot,
+  createProject,
+  parseProject,
+  parseSession,
+  serializeProject,
+  serializeSession,
+} from '~/lib/project';
 import {
   AlertCircle,
   Bookmark,
@@ -20,18 +48,34 @@ import {
   Download,
   FileAudio2,
   FileUp,
+  Film,
   Flag,
+  FolderOpen,
+  FolderKanban,
   Keyboard,
   Pause,
   Play,
   Radio,
+  Redo2,
   Save,
   Scissors,
   SkipBack,
   SkipForward,
   Sparkles,
+  Undo2,
+  AudioWaveform,
+  Volume2,
+  MessageSquareOff,
+  Plus,
+  ZoomIn,
+  ZoomOut,
 } from 'lucide-react';
 
+const AUTOSAVE_DELAY_MS = 1500;
+const sessionSignature = (subtitles: Subtitle[], mediaPath: string) => JSON.stringify([mediaPath, subtitles]);
+// Timeline zoom levels in pixels per second of media
+const TIMELINE_ZOOM_LEVELS = [5, 10, 25, 50, 100, 200, 400];
+const DEFAULT_TIMELINE_ZOOM_INDEX = 3;
 const SEEK_STEP_MS = [1000, 5000, 10000, 30000, 60000, 300000, 600000, 900000, 1800000, 3600000];
 const NAVIGATION_SEEKS = [
   { label: '-100ms', delta: -100 },
@@ -57,10 +101,28 @@ const NAVIGATION_SEEKS = [
 ];
 
 type ModalMode = 'insert' | 'transcribe';
+type EditAction =
+  | 'insert'
+  | 'edit'
+  | 'delete'
+  | 'timing'
+  | 'overlapFix'
+  | 'autoSubtitle'
+  | 'markStart'
+  | 'markEnd'
+  | 'selectGap';
+type EditSnapshot = { subtitles: Subtitle[]; startMark: number | null; endMark: number | null };
 
 export default function SubtitleCreation() {
   const { t, i18n } = useTranslation();
-  const { config, subtitleSettings, defaultService, saveToFile } = useTTS();
+  const navigate = useNavigate();
+  const {
+    config,
+    subtitleSettings,
+    defaultService: settingsDefaultService,
+    providerLimits,
+    updateSubtitleSettings,
+  } = useTTS();
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const playButtonRef = useRef<HTMLButtonElement | null>(null);
   const startMarkRef = useRef<number | null>(null);
@@ -76,7 +138,23 @@ export default function SubtitleCreation() {
   const [startMark, setStartMark] = useState<number | null>(null);
   const [endMark, setEndMark] = useState<number | null>(null);
   const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
-  const [tempSrtPath, setTempSrtPath] = useState<string | null>(null);
+  const subtitlesRef = useRef<Subtitle[]>([]);
+  subtitlesRef.current = subtitles;
+  const [history, setHistory] = useState<HistoryStacks<EditSnapshot>>(emptyHistory);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [isLoadingWaveform, setIsLoadingWaveform] = useState(false);
+  const [timelineMode, setTimelineMode] = useState<TimelineMode>('waveform');
+  const [timelineZoomIndex, setTimelineZoomIndex] = useState(DEFAULT_TIMELINE_ZOOM_INDEX);
+  const [gaps, setGaps] = useState<DialogueGap[] | null>(null);
+  const [selectedGapIndex, setSelectedGapIndex] = useState<number | null>(null);
+  const [isDetectingGaps, setIsDetectingGaps] = useState(false);
+  const [videoExportMode, setVideoExportMode] = useState<VideoExportMode>('soft');
+  const [videoExportPercent, setVideoExportPercent] = useState<number | null>(null);
+  const videoExportJobRef = useRef<string | null>(null);
+  const [gapMinSeconds, setGapMinSeconds] = useState(String((subtitleSettings.gapMinDurationMs ?? 2000) / 1000));
+  const [recoverySnapshot, setRecoverySnapshot] = useState<SessionSnapshot | null>(null);
+  // Subtitles + media as last written to a project or subtitle file; autosave skips matching state
+  const savedSignatureRef = useRef<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [liveMessage, setLiveMessage] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
@@ -89,11 +167,29 @@ export default function SubtitleCreation() {
   const [textModalOpen, setTextModalOpen] = useState(false);
   const [textModalValue, setTextModalValue] = useState('');
   const [textModalMode, setTextModalMode] = useState<ModalMode>('insert');
+  const [textModalDucking, setTextModalDucking] = useState<CueDucking | undefined>(undefined);
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isAutoSubtitling, setIsAutoSubtitling] = useState(false);
   const [segmentEnd, setSegmentEnd] = useState<number | null>(null);
   const [isPreparingAudio, setIsPreparingAudio] = useState(false);
   const [prepareMessage, setPrepareMessage] = useState<string>('');
   const [loadedSrtName, setLoadedSrtName] = useState<string | null>(null);
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>('srt');
+  const [assStyles, setAssStyles] = useState<AssStyleSheet | null>(null);
+  const [mediaKind, setMediaKind] = useState<'audio' | 'video' | undefined>(undefined);
+  const [projectPath, setProjectPath] = useState<string | null>(null);
+  const [recentProjects, setRecentProjects] = useState<string[]>([]);
+  const [projectDucking, setProjectDucking] = useState<DuckingSettings>(DEFAULT_DUCKING);
+  const [lastSubtitlePath, setLastSubtitlePath] = useState<string | undefined>(undefined);
+  const [lastVideoPath, setLastVideoPath] = useState<string | undefined>(undefined);
+  // Voices saved with the open project; they apply while it is open and never change Settings
+  const [projectVoices, setProjectVoices] = useState<OpenDescProject['voices'] | null>(null);
+  const speakerVoices = useMemo(
+    () => ({ ...(config.speakerVoices || {}), ...(projectVoices?.speakerVoices || {}) }),
+    [config.speakerVoices, projectVoices]
+  );
+  const defaultService =
+    config.services.find((service) => service.id === projectVoices?.defaultServiceId) || settingsDefaultService;
   const [currentSubtitleId, setCurrentSubtitleId] = useState<number | null>(null);
   const [isGeneratingClip, setIsGeneratingClip] = useState(false);
   const [editingSubtitleId, setEditingSubtitleId] = useState<number | null>(null);
@@ -279,6 +375,55 @@ export default function SubtitleCreation() {
     setStatusMessage(message);
   }, []);
 
+  const captureSnapshot = useCallback(
+    (): EditSnapshot => ({
+      subtitles: subtitlesRef.current,
+      startMark: startMarkRef.current,
+      endMark: endMarkRef.current,
+    }),
+    []
+  );
+
+  // Call before mutating subtitles or marks so the change can be undone
+  const recordEdit = useCallback(
+    (action: EditAction) => setHistory((prev) => pushHistory(prev, captureSnapshot(), action)),
+    [captureSnapshot]
+  );
+
+  const restoreSnapshot = useCallback((snapshot: EditSnapshot) => {
+    setSubtitles(snapshot.subtitles);
+    setStartMark(snapshot.startMark);
+    setEndMark(snapshot.endMark);
+    startMarkRef.current = snapshot.startMark;
+    endMarkRef.current = snapshot.endMark;
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const result = undoHistory(history, captureSnapshot());
+    if (!result) {
+      announce(t('subtitleCreation.history.nothingToUndo'));
+      return;
+    }
+    setHistory(result.stacks);
+    restoreSnapshot(result.entry.state);
+    announce(
+      t('subtitleCreation.history.undone', { action: t(`subtitleCreation.history.actions.${result.entry.action}`) })
+    );
+  }, [announce, captureSnapshot, history, restoreSnapshot, t]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoHistory(history, captureSnapshot());
+    if (!result) {
+      announce(t('subtitleCreation.history.nothingToRedo'));
+      return;
+    }
+    setHistory(result.stacks);
+    restoreSnapshot(result.entry.state);
+    announce(
+      t('subtitleCreation.history.redone', { action: t(`subtitleCreation.history.actions.${result.entry.action}`) })
+    );
+  }, [announce, captureSnapshot, history, restoreSnapshot, t]);
+
   const selectSubtitleAtCurrentTime = useCallback(
     (options?: { silent?: boolean }) => {
       const sub = findSubtitleAtPosition(currentTime);
@@ -328,6 +473,7 @@ export default function SubtitleCreation() {
   }, [subtitles]);
 
   const applyOverlapEdits = useCallback(() => {
+    recordEdit('overlapFix');
     setSubtitles((prev) => {
       const updated = prev.map((sub) => {
         const edits = overlapEdits[sub.id];
@@ -345,7 +491,7 @@ export default function SubtitleCreation() {
       return sorted;
     });
     setOverlapDialogOpen(false);
-  }, [overlapEdits]);
+  }, [overlapEdits, recordEdit]);
 
   const handleToolbarKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
     if (event.key !== 'ArrowRight' && event.key !== 'ArrowLeft') return;
@@ -380,6 +526,134 @@ export default function SubtitleCreation() {
     [announce, t]
   );
 
+  const handleTimelineSeek = useCallback(
+    (ms: number) => {
+      const audio = audioRef.current;
+      if (!audio || !audio.duration || Number.isNaN(audio.duration)) return;
+      const nextTime = Math.min(Math.max(ms / 1000, 0), audio.duration);
+      audio.currentTime = nextTime;
+      setCurrentTime(nextTime * 1000);
+      announce(t('subtitleCreation.live.position', { time: formatTimestamp(nextTime * 1000) }));
+    },
+    [announce, t]
+  );
+
+  const handleCueTimingChange = useCallback(
+    (id: number, startMs: number, endMs: number) => {
+      recordEdit('timing');
+      setSubtitles((prev) =>
+        prev
+          .map((sub) => (sub.id === id ? { ...sub, startTime: startMs, endTime: endMs } : sub))
+          .sort((a, b) => a.startTime - b.startTime)
+          .map((sub, index) => ({ ...sub, id: index + 1 }))
+      );
+      announce(
+        t('subtitleCreation.timeline.cueMoved', { start: formatTimestamp(startMs), end: formatTimestamp(endMs) })
+      );
+    },
+    [announce, recordEdit, t]
+  );
+
+  const handleDetectGaps = async () => {
+    const minSeconds = Number(gapMinSeconds);
+    if (!audioPath || !Number.isFinite(minSeconds) || minSeconds <= 0) {
+      setError(t('subtitleCreation.gaps.invalidMinLength'));
+      return;
+    }
+    const minGapMs = Math.round(minSeconds * 1000);
+    if (minGapMs !== subtitleSettings.gapMinDurationMs) {
+      await updateSubtitleSettings({ ...subtitleSettings, gapMinDurationMs: minGapMs });
+    }
+    setIsDetectingGaps(true);
+    announce(t('subtitleCreation.gaps.scanning'));
+    const result = await window.electronAPI.audio.detectGaps(audioPath, { minGapMs });
+    setIsDetectingGaps(false);
+    if (result.error || !result.gaps) {
+      const msg = t('subtitleCreation.gaps.failed', { message: result.error || '' });
+      setError(msg);
+      announce(msg);
+      return;
+    }
+    setGaps(result.gaps);
+    setSelectedGapIndex(result.gaps.length ? 0 : null);
+    announce(t('subtitleCreation.gaps.found', { count: result.gaps.length }));
+  };
+
+  const handleSelectGap = (index: number) => {
+    const gap = gaps?.[index];
+    if (!gap) return;
+    setSelectedGapIndex(index);
+    recordEdit('selectGap');
+    setStartMark(gap.startMs);
+    setEndMark(gap.endMs);
+    startMarkRef.current = gap.startMs;
+    endMarkRef.current = gap.endMs;
+    handleTimelineSeek(gap.startMs);
+  };
+
+  const handleCreateGapCue = () => {
+    const gap = selectedGapIndex !== null ? gaps?.[selectedGapIndex] : undefined;
+    if (!gap) {
+      announce(t('subtitleCreation.gaps.noneSelected'));
+      return;
+    }
+    const normalized = [...subtitles, { id: 0, startTime: gap.startMs, endTime: gap.endMs, text: '' }]
+      .sort((a, b) => a.startTime - b.startTime)
+      .map((sub, index) => ({ ...sub, id: index + 1 }));
+    const inserted = normalized.find((sub) => sub.startTime === gap.startMs && sub.endTime === gap.endMs && !sub.text);
+    recordEdit('insert');
+    setSubtitles(normalized);
+    setCurrentSubtitleId(inserted?.id ?? null);
+    announce(
+      t('subtitleCreation.gaps.cueCreated', { start: formatTimestamp(gap.startMs), end: formatTimestamp(gap.endMs) })
+    );
+  };
+
+  const gapHasCue = (gap: DialogueGap) =>
+    subtitles.some((sub) => sub.startTime < gap.endMs && gap.startMs < sub.endTime);
+
+  const handleExportVideo = async () => {
+    if (mediaKind !== 'video' || !mediaLabel) return;
+    if (subtitles.length === 0) {
+      setError(t('subtitleCreation.videoExport.noSubtitles'));
+      return;
+    }
+    const baseName = (mediaLabel.split(/[\\/]/).pop() || 'video').replace(/\.[^.]+$/, '');
+    const target = await window.electronAPI.dialog.saveVideoExport(`${baseName}.subtitled`, videoExportMode);
+    if (target.canceled || !target.path) return;
+
+    const jobId = crypto.randomUUID();
+    videoExportJobRef.current = jobId;
+    setVideoExportPercent(0);
+    setError(null);
+    announce(t('subtitleCreation.videoExport.started'));
+    const result = await window.electronAPI.videoExport.run({
+      jobId,
+      videoPath: mediaLabel,
+      subtitleContent: serializeSrt(subtitles),
+      mode: videoExportMode,
+      outputPath: target.path,
+    });
+    videoExportJobRef.current = null;
+    setVideoExportPercent(null);
+
+    if (result.error) {
+      const msg = t('subtitleCreation.videoExport.failed', { message: result.error });
+      setError(msg);
+      announce(msg);
+      return;
+    }
+    setLastVideoPath(result.path);
+    const msg = t('subtitleCreation.videoExport.saved', { path: result.path });
+    setSuccess(msg);
+    setTimeout(() => setSuccess(null), 2500);
+    announce(msg);
+  };
+
+  const handleTimelineZoom = useCallback((direction: 1 | -1) => {
+    setTimelineZoomIndex((prev) => Math.min(TIMELINE_ZOOM_LEVELS.length - 1, Math.max(0, prev + direction)));
+  }, []);
+
   const handlePlayPause = useCallback(async () => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -438,7 +712,7 @@ export default function SubtitleCreation() {
     setEndMark(null);
   };
 
-  const loadAudioFromPath = (path: string, label?: string) => {
+  const loadAudioFromPath = (path: string, label?: string, positionMs?: number) => {
     const audio = audioRef.current;
     const src = filePathToUrl(path);
     setAudioPath(path);
@@ -448,13 +722,19 @@ export default function SubtitleCreation() {
     setDuration(0);
     setCurrentTime(0);
     resetMarkers();
+    setGaps(null);
+    setSelectedGapIndex(null);
     if (audio) {
       audio.src = src;
 
       const onLoadedMetadata = () => {
         setDuration((audio.duration || 0) * 1000);
         setCurrentTime(audio.currentTime * 1000);
-        if (subtitles.length > 0) {
+        if (typeof positionMs === 'number') {
+          const target = Math.min(positionMs / 1000, audio.duration || Infinity);
+          audio.currentTime = target;
+          setCurrentTime(target * 1000);
+        } else if (subtitles.length > 0) {
           const lastSub = subtitles[subtitles.length - 1];
           const target = Math.min(lastSub.endTime / 1000, audio.duration || Infinity);
           audio.currentTime = target;
@@ -497,6 +777,7 @@ export default function SubtitleCreation() {
       setPrepareMessage(t('subtitleCreation.messages.audioReady'));
       announce(t('subtitleCreation.messages.audioReady'));
       loadAudioFromPath(prepared.audioPath, result.path);
+      setMediaKind('audio');
     }
     setIsPreparingAudio(false);
   };
@@ -524,6 +805,7 @@ export default function SubtitleCreation() {
           setPrepareMessage(t('subtitleCreation.messages.audioReady'));
           announce(t('subtitleCreation.live.converted'));
           loadAudioFromPath(prepared.audioPath, pendingVideoPath);
+          setMediaKind('video');
         }
         setIsPreparingAudio(false);
       }
@@ -534,6 +816,148 @@ export default function SubtitleCreation() {
     }
   };
 
+  const refreshRecentProjects = useCallback(async () => {
+    const result = await window.electronAPI.project.getRecent();
+    setRecentProjects(result?.paths || []);
+  }, []);
+
+  useEffect(() => {
+    refreshRecentProjects();
+  }, [refreshRecentProjects]);
+
+  // Projects were created with the user's consent to convert video, so reopen without asking again
+  const loadProjectMedia = async (mediaPath: string, kind?: 'audio' | 'video', positionMs?: number) => {
+    setIsPreparingAudio(true);
+    setPrepareMessage(t('subtitleCreation.messages.preparingAudio'));
+    announce(t('subtitleCreation.messages.preparingAudio'));
+    let sourcePath = mediaPath;
+    if (kind === 'video') {
+      const conversion = await window.electronAPI.subtitle.convertVideoToAudio(mediaPath);
+      if (conversion.error || !conversion.audioPath) {
+        const msg = conversion.error || t('subtitleCreation.errors.convertFailed');
+        setError(msg);
+        announce(msg);
+        setPrepareMessage('');
+        setIsPreparingAudio(false);
+        return;
+      }
+      sourcePath = conversion.audioPath;
+    }
+    const prepared = await window.electronAPI.subtitle.prepareAudioForPlayback(sourcePath);
+    if (prepared.error || !prepared.audioPath) {
+      const msg = prepared.error || t('subtitleCreation.errors.playbackFailed');
+      setError(msg);
+      announce(msg);
+      setPrepareMessage('');
+    } else {
+      setPrepareMessage(t('subtitleCreation.messages.audioReady'));
+      announce(t('subtitleCreation.messages.audioReady'));
+      loadAudioFromPath(prepared.audioPath, mediaPath, positionMs);
+      setMediaKind(kind);
+    }
+    setIsPreparingAudio(false);
+  };
+
+  const applyProject = async (project: OpenDescProject, path: string | null, positionMs?: number) => {
+    setProjectPath(path);
+    setSubtitles(project.subtitles);
+    setHistory(emptyHistory());
+    setSubtitleFormat(project.subtitleFormat);
+    setAssStyles(project.assStyles ?? null);
+    setProjectDucking(project.ducking);
+    setLastSubtitlePath(project.outputPaths.subtitles);
+    setLastVideoPath(project.outputPaths.video);
+    setLoadedSrtName(path ? (path.split(/[\\/]/).pop() || '').replace(/\.[^.]+$/, '') || null : null);
+
+    // Only use voices for services that exist in this installation's settings
+    const knownServiceIds = new Set(config.services.map((service) => service.id));
+    const { defaultServiceId } = project.voices;
+    setProjectVoices({
+      defaultServiceId: defaultServiceId && knownServiceIds.has(defaultServiceId) ? defaultServiceId : null,
+      speakerVoices: Object.fromEntries(
+        Object.entries(project.voices.speakerVoices).filter(([, serviceId]) => knownServiceIds.has(serviceId))
+      ),
+    });
+
+    if (project.mediaPath) {
+      await loadProjectMedia(project.mediaPath, project.mediaKind, positionMs);
+    }
+  };
+
+  const handleProjectFile = async (result: ProjectFileResult) => {
+    if (result?.error) {
+      setError(result.error);
+      announce(result.error);
+      refreshRecentProjects();
+      return;
+    }
+    if (!result?.content || !result.path) return;
+    setError(null);
+    try {
+      const project = parseProject(result.content);
+      await applyProject(project, result.path);
+      savedSignatureRef.current = sessionSignature(project.subtitles, project.mediaPath || '');
+      const msg = t('subtitleCreation.project.loaded', { path: result.path });
+      setSuccess(msg);
+      setTimeout(() => setSuccess(null), 2500);
+      announce(msg);
+    } catch (err) {
+      const msg = t('subtitleCreation.project.errors.invalid', { message: (err as Error).message });
+      setError(msg);
+      announce(msg);
+    }
+    refreshRecentProjects();
+  };
+
+  const handleOpenProject = async () => {
+    handleProjectFile(await window.electronAPI.dialog.openProject());
+  };
+
+  const handleOpenRecentProject = async (path: string) => {
+    handleProjectFile(await window.electronAPI.project.openRecent(path));
+  };
+
+  const buildProject = () =>
+    createProject({
+      mediaPath: mediaLabel || null,
+      mediaKind,
+      subtitles,
+      subtitleFormat,
+      assStyles: assStyles ?? undefined,
+      voices: {
+        defaultServiceId: defaultService?.id ?? null,
+        speakerVoices,
+      },
+      ducking: projectDucking,
+      outputPaths: { subtitles: lastSubtitlePath, video: lastVideoPath },
+    });
+
+  const handleSaveProject = async (saveAs = false) => {
+    const project = buildProject();
+    const suggestedName =
+      (mediaLabel.split(/[\\/]/).pop() || '').replace(/\.[^.]+$/, '') || loadedSrtName || 'project';
+    const result = await window.electronAPI.dialog.saveProject(
+      serializeProject(project),
+      saveAs ? undefined : projectPath || undefined,
+      suggestedName
+    );
+    if (result.error) {
+      setError(result.error);
+      announce(result.error);
+      return;
+    }
+    if (result.path) {
+      setProjectPath(result.path);
+      savedSignatureRef.current = sessionSignature(subtitles, mediaLabel);
+      window.electronAPI.autosave.clear();
+      const msg = t('subtitleCreation.project.saved', { path: result.path });
+      setSuccess(msg);
+      setTimeout(() => setSuccess(null), 2500);
+      announce(msg);
+      refreshRecentProjects();
+    }
+  };
+
   const handleJumpSubmit = (event?: React.FormEvent) => {
     event?.preventDefault();
     const audio = audioRef.current;
@@ -554,19 +978,21 @@ export default function SubtitleCreation() {
     const audio = audioRef.current;
     if (!audio) return;
     const position = audio.currentTime * 1000;
+    recordEdit('markStart');
     setStartMark(position);
     startMarkRef.current = position;
     announce(t('subtitleCreation.live.startMarked', { time: formatTimestamp(position) }));
-  }, [t]);
+  }, [recordEdit, t]);
 
   const handleMarkEnd = useCallback(() => {
     const audio = audioRef.current;
     if (!audio) return;
     const position = audio.currentTime * 1000;
+    recordEdit('markEnd');
     setEndMark(position);
     endMarkRef.current = position;
     announce(t('subtitleCreation.live.endMarked', { time: formatTimestamp(position) }));
-  }, [t]);
+  }, [recordEdit, t]);
 
   const handlePlaySegment = useCallback(() => {
     const audio = audioRef.current;
@@ -611,6 +1037,7 @@ export default function SubtitleCreation() {
     const inserted = normalized.find(
       (sub) => sub.startTime === start && sub.endTime === end && sub.text === text
     );
+    recordEdit('insert');
     setSubtitles(normalized);
     setCurrentSubtitleId(inserted?.id ?? normalized[normalized.length - 1]?.id ?? null);
     announce(t('subtitleCreation.live.subtitleInserted', { time: formatTimestamp(start) }));
@@ -624,8 +1051,14 @@ export default function SubtitleCreation() {
       return;
     }
     if (result?.content) {
-      const parsed = parseSrt(result.content).sort((a, b) => a.startTime - b.startTime);
+      const format = detectSubtitleFormat(result.content, result.path);
+      const parsed = parseSubtitles(result.content, format, {
+        stripOverrideTags: subtitleSettings.stripAssOverrideTags !== false,
+      }).sort((a, b) => a.startTime - b.startTime);
       setSubtitles(parsed);
+      setHistory(emptyHistory());
+      setSubtitleFormat(format);
+      setAssStyles(format === 'ass' ? parseAssStyles(result.content) : null);
       setSuccess(t('subtitleCreation.messages.srtLoaded'));
       setTimeout(() => setSuccess(null), 2500);
       if (result.path) {
@@ -659,14 +1092,12 @@ export default function SubtitleCreation() {
           setCurrentTime(lastEndMs);
         }
       }
-      const newTemp = await window.electronAPI.subtitle.ensureTempSrt(result.path);
-      setTempSrtPath(newTemp);
     }
   };
 
-  const handleSaveSrt = useCallback(async () => {
+  const handleSaveSrt = useCallback(async (format: SubtitleFormat = subtitleFormat) => {
     if (subtitles.length === 0) return;
-    const content = serializeSrt(subtitles);
+    const content = serializeSubtitles(subtitles, format, { assStyles });
     const deriveBaseName = (label?: string | null) => {
       if (!label) return null;
       const base = (label.split(/[\\/]/).pop() || '').replace(/\.[^.]+$/, '');
@@ -675,7 +1106,8 @@ export default function SubtitleCreation() {
     const defaultName = deriveBaseName(loadedSrtName) || deriveBaseName(mediaLabel) || 'subtitles';
     const result = await window.electronAPI.subtitle.saveSrt(
       content,
-      defaultName
+      defaultName,
+      format
     );
     if (result.error) {
       setError(result.error);
@@ -683,10 +1115,13 @@ export default function SubtitleCreation() {
       return;
     }
     if (result.path) {
+      setLastSubtitlePath(result.path);
+      savedSignatureRef.current = sessionSignature(subtitles, mediaLabel);
+      window.electronAPI.autosave.clear();
       setSuccess(t('subtitleCreation.messages.srtSaved', { path: result.path }));
       setTimeout(() => setSuccess(null), 2500);
     }
-  }, [announce, loadedSrtName, mediaLabel, subtitles, t]);
+  }, [announce, assStyles, loadedSrtName, mediaLabel, subtitleFormat, subtitles, t]);
 
   const handleTranscribe = useCallback(async () => {
     if (!audioPath) {
@@ -704,7 +1139,8 @@ export default function SubtitleCreation() {
     }
     const start = range.start;
     const end = range.end;
-    if (!geminiApiKey) {
+    const provider = subtitleSettings.transcriptionProvider || 'gemini';
+    if (provider === 'gemini' && !geminiApiKey) {
       const msg = t('subtitleCreation.errors.noGemini');
       setError(msg);
       announce(msg);
@@ -717,14 +1153,17 @@ export default function SubtitleCreation() {
     const segmentStart = Math.min(start, end);
     const segmentEnd = Math.max(start, end);
 
-    const transcription = await window.electronAPI.gemini.transcribe(
-      audioPath,
-      geminiApiKey,
-      transcriptionPrompt,
-      segmentStart,
-      segmentEnd,
-      subtitleSettings.normalizeForTranscription !== false
-    );
+    const transcription = await window.electronAPI.transcription.transcribe(audioPath, {
+      provider,
+      apiKey: geminiApiKey,
+      prompt: transcriptionPrompt,
+      startMs: segmentStart,
+      endMs: segmentEnd,
+      normalizeAudio: subtitleSettings.normalizeForTranscription !== false,
+      whisperBinaryPath: subtitleSettings.whisperBinaryPath,
+      whisperModelPath: subtitleSettings.whisperModelPath,
+      whisperLanguage: subtitleSettings.whisperLanguage,
+    });
 
     if (transcription.error || !transcription.text) {
       const msg = transcription.error || t('subtitleCreation.errors.transcriptionFailed');
@@ -747,6 +1186,83 @@ export default function SubtitleCreation() {
     geminiApiKey,
     resolveRangeForAction,
     subtitleSettings.normalizeForTranscription,
+    subtitleSettings.transcriptionProvider,
+    subtitleSettings.whisperBinaryPath,
+    subtitleSettings.whisperLanguage,
+    subtitleSettings.whisperModelPath,
+    t,
+    transcriptionPrompt,
+  ]);
+
+  const handleAutoSubtitle = useCallback(async () => {
+    if (!audioPath) {
+      const msg = t('subtitleCreation.errors.noAudio');
+      setError(msg);
+      announce(msg);
+      return;
+    }
+    const provider = subtitleSettings.transcriptionProvider || 'gemini';
+    if (provider === 'gemini' && !geminiApiKey) {
+      const msg = t('subtitleCreation.errors.noGemini');
+      setError(msg);
+      announce(msg);
+      return;
+    }
+    if (subtitles.length > 0 && !confirm(t('subtitleCreation.messages.autoSubtitleReplace'))) {
+      return;
+    }
+
+    setError(null);
+    setIsAutoSubtitling(true);
+    announce(t('subtitleCreation.live.autoSubtitling'));
+
+    const result = await window.electronAPI.transcription.transcribeTimed(audioPath, {
+      provider,
+      apiKey: geminiApiKey,
+      prompt: transcriptionPrompt,
+      normalizeAudio: subtitleSettings.normalizeForTranscription !== false,
+      whisperBinaryPath: subtitleSettings.whisperBinaryPath,
+      whisperModelPath: subtitleSettings.whisperModelPath,
+      whisperLanguage: subtitleSettings.whisperLanguage,
+    });
+
+    if (result.error || !result.segments?.length) {
+      const msg = result.error || t('subtitleCreation.errors.autoSubtitleEmpty');
+      setError(msg);
+      announce(msg);
+      setIsAutoSubtitling(false);
+      return;
+    }
+
+    // Providers may return overlapping segments; trim each cue so it ends before the next begins
+    const generated: Subtitle[] = result.segments.map((segment, index, all) => {
+      const next = all[index + 1];
+      const endTime = next ? Math.min(segment.endMs, next.startMs) : segment.endMs;
+      return {
+        id: index + 1,
+        startTime: segment.startMs,
+        endTime: Math.max(endTime, segment.startMs + 1),
+        text: segment.text,
+      };
+    });
+    recordEdit('autoSubtitle');
+    setSubtitles(generated);
+    const msg = t('subtitleCreation.messages.autoSubtitleReady', { count: generated.length });
+    setSuccess(msg);
+    setTimeout(() => setSuccess(null), 2500);
+    announce(msg);
+    setIsAutoSubtitling(false);
+  }, [
+    announce,
+    audioPath,
+    geminiApiKey,
+    subtitleSettings.normalizeForTranscription,
+    subtitleSettings.transcriptionProvider,
+    subtitleSettings.whisperBinaryPath,
+    subtitleSettings.whisperLanguage,
+    subtitleSettings.whisperModelPath,
+    recordEdit,
+    subtitles.length,
     t,
     transcriptionPrompt,
   ]);
@@ -768,7 +1284,12 @@ export default function SubtitleCreation() {
       announce(msg);
       return;
     }
-    const textForTts = targetSubtitle.text.replace(/\n/g, ' ').trim();
+    const { speaker, text } = splitSpeaker(targetSubtitle, {
+      speakerVoices,
+      parsePrefixes: subtitleSettings.parseSpeakerPrefixes === true,
+    });
+    const service = resolveSpeakerService(speaker, config.services, speakerVoices, defaultService) || defaultService;
+    const textForTts = text.replace(/\n/g, ' ').trim();
     if (!textForTts) {
       const msg = t('subtitleCreation.errors.emptySubtitle');
       setError(msg);
@@ -777,10 +1298,11 @@ export default function SubtitleCreation() {
     }
 
     setIsGeneratingClip(true);
+    const saveToFile = queuedSaveToFile({ limits: providerLimits });
     try {
       const { cacheDir, cache } = await getCache();
-      const baseSpeed = defaultService.speedFactor ?? 1;
-      const serviceKey = defaultService.id || defaultService.name || 'service';
+      const baseSpeed = service.speedFactor ?? 1;
+      const serviceKey = service.id || service.name || 'service';
       const cacheKey = `${serviceKey}|${textForTts}`;
 
       const ensureBaseClip = async () => {
@@ -791,7 +1313,7 @@ export default function SubtitleCreation() {
 
         const hash = hashKey(cacheKey);
         const targetPath = `${cacheDir}/${hash}.mp3`;
-        const result = await saveToFile(textForTts, targetPath, { ...defaultService, speedFactor: baseSpeed });
+        const result = await saveToFile(textForTts, targetPath, { ...service, speedFactor: baseSpeed });
         if (result.error || !result.path) {
           const msg = result.error || t('subtitleCreation.errors.generateFailed');
           throw new Error(msg);
@@ -801,8 +1323,8 @@ export default function SubtitleCreation() {
           cache[cacheKey] = {
             file: result.path,
             text: textForTts,
-            serviceId: defaultService.id || '',
-            voiceId: defaultService.voiceId,
+            serviceId: service.id || '',
+            voiceId: service.voiceId,
           };
           await persistCache();
         }
@@ -819,7 +1341,7 @@ export default function SubtitleCreation() {
         cacheKey,
         textForTts,
         hashKey,
-        defaultService,
+        defaultService: service,
         saveToFile,
         onInvalidDuration: async () => {
           if (useConvertCache) {
@@ -848,6 +1370,7 @@ export default function SubtitleCreation() {
     }
   }, [
     announce,
+    config.services,
     currentSubtitle,
     defaultService,
     getCache,
@@ -855,17 +1378,20 @@ export default function SubtitleCreation() {
     isGeneratingClip,
     persistCache,
     playGeneratedClip,
-    saveToFile,
+    providerLimits,
     selectSubtitleAtCurrentTime,
+    speakerVoices,
+    subtitleSettings.parseSpeakerPrefixes,
     t,
     useConvertCache,
   ]);
 
   const handleTextModalSave = () => {
     if (editingSubtitleId !== null) {
+      recordEdit('edit');
       setSubtitles((prev) =>
         prev.map((sub) =>
-          sub.id === editingSubtitleId ? { ...sub, text: textModalValue } : sub
+          sub.id === editingSubtitleId ? { ...sub, text: textModalValue, ducking: textModalDucking } : sub
         )
       );
       announce(t('subtitleCreation.list.editSubtitle'));
@@ -907,12 +1433,35 @@ export default function SubtitleCreation() {
     (subtitle: Subtitle) => {
       setEditingSubtitleId(subtitle.id);
       setTextModalValue(subtitle.text);
+      setTextModalDucking(subtitle.ducking);
       setTextModalMode('insert');
       setTextModalOpen(true);
     },
     []
   );
 
+  const handleDeleteSubtitle = useCallback(
+    (subtitle: Subtitle, index: number) => {
+      recordEdit('delete');
+      const remaining = subtitles
+        .filter((sub) => sub.id !== subtitle.id)
+        .map((sub, i) => ({ ...sub, id: i + 1 }));
+      setSubtitles(remaining);
+      announce(t('subtitleCreation.list.deleted', { time: formatTimestamp(subtitle.startTime) }));
+      const next = remaining[Math.min(index, remaining.length - 1)];
+      setCurrentSubtitleId(next?.id ?? null);
+      setTimeout(() => {
+        if (next) {
+          const item = subtitleListRef.current?.querySelector(`[data-subtitle-id="${next.id}"]`) as HTMLElement;
+          item?.focus();
+        } else {
+          playButtonRef.current?.focus();
+        }
+      }, 0);
+    },
+    [announce, recordEdit, subtitles, t]
+  );
+
   const handleSubtitleListKeyDown = useCallback(
     (event: React.KeyboardEvent<HTMLLIElement>, subtitle: Subtitle, index: number) => {
       const actionButtons = ['jump', 'edit'] as const;
@@ -959,6 +1508,9 @@ export default function SubtitleCreation() {
       } else if (key === 'e') {
         event.preventDefault();
         handleOpenEditDialog(subtitle);
+      } else if (event.key === 'Delete') {
+        event.preventDefault();
+        handleDeleteSubtitle(subtitle, index);
       } else if (event.key === 'Home') {
         event.preventDefault();
         if (subtitles.length > 0) {
@@ -979,25 +1531,117 @@ export default function SubtitleCreation() {
         }
       }
     },
-    [subtitles, focusedButtonIndex, handleJumpToSubtitle, handleOpenEditDialog, playSubtitlePreview]
+    [subtitles, focusedButtonIndex, handleDeleteSubtitle, handleJumpToSubtitle, handleOpenEditDialog, playSubtitlePreview]
   );
 
   useEffect(() => {
-    if (!subtitles.length) return;
-
-    const saveTemp = async () => {
+    let cancelled = false;
+    const checkRecovery = async () => {
+      const latest = await window.electronAPI.autosave.getLatest();
+      if (cancelled || !latest?.content) return;
       try {
-        const target = tempSrtPath || (await window.electronAPI.subtitle.ensureTempSrt(mediaLabel));
-        setTempSrtPath(target);
-        const content = serializeSrt(subtitles);
-        await window.electronAPI.subtitle.writeSrt(target, content);
+        const snapshot = parseSession(latest.content);
+        if (snapshot.project.subtitles.length > 0) {
+          setRecoverySnapshot(snapshot);
+        }
       } catch (err) {
-        setError((err as Error).message);
+        console.warn('Ignoring unreadable autosave snapshot:', err);
       }
     };
+    checkRecovery();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-    saveTemp();
-  }, [mediaLabel, subtitles, tempSrtPath]);
+  // Debounced crash-safe snapshot of the session; paused while a recovery offer is pending
+  useEffect(() => {
+    if (!subtitles.length || recoverySnapshot) return;
+    if (savedSignatureRef.current === sessionSignature(subtitles, mediaLabel)) return;
+
+    const timer = setTimeout(async () => {
+      const snapshot: SessionSnapshot = {
+        savedAt: new Date().toISOString(),
+        positionMs: Math.round((audioRef.current?.currentTime || 0) * 1000),
+        projectPath,
+        project: buildProject(),
+      };
+      const result = await window.electronAPI.autosave.write(serializeSession(snapshot));
+      if (result.error) {
+        console.warn('Autosave failed:', result.error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+    // buildProject reads the values listed here
+  }, [
+    subtitles,
+    subtitleFormat,
+    assStyles,
+    mediaLabel,
+    mediaKind,
+    projectPath,
+    projectDucking,
+    lastSubtitlePath,
+    lastVideoPath,
+    recoverySnapshot,
+    defaultService,
+    speakerVoices,
+  ]);
+
+  const handleRestoreSession = async () => {
+    const snapshot = recoverySnapshot;
+    setRecoverySnapshot(null);
+    if (!snapshot) return;
+    await applyProject(snapshot.project, snapshot.projectPath, snapshot.positionMs);
+    if (!snapshot.project.mediaPath) {
+      setCurrentTime(snapshot.positionMs);
+    }
+    const msg = t('subtitleCreation.recovery.restored', { count: snapshot.project.subtitles.length });
+    setSuccess(msg);
+    setTimeout(() => setSuccess(null), 2500);
+    announce(msg);
+  };
+
+  const handleDiscardSession = async () => {
+    setRecoverySnapshot(null);
+    await window.electronAPI.autosave.clear();
+    setTimeout(() => playButtonRef.current?.focus(), 0);
+  };
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI.videoExport.onProgress((payload) => {
+      if (videoExportJobRef.current && payload.jobId === videoExportJobRef.current && payload.percent !== undefined) {
+        setVideoExportPercent(payload.percent);
+      }
+    });
+    return () => {
+      if (unsubscribe) unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    setWaveform(null);
+    if (!audioPath) return;
+    let cancelled = false;
+    setIsLoadingWaveform(true);
+    window.electronAPI.audio
+      .getWaveform(audioPath)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.error) {
+          console.warn('Waveform unavailable:', result.error);
+          return;
+        }
+        setWaveform(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingWaveform(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioPath]);
 
   useEffect(() => {
     if (!subtitles.length) return;
@@ -1090,6 +1734,16 @@ export default function SubtitleCreation() {
       } else if ((event.key === 's' || event.key === 'S') && event.ctrlKey && !isTextField) {
         event.preventDefault();
         handleSaveSrt();
+      } else if ((event.key === 'z' || event.key === 'Z') && event.ctrlKey && !event.shiftKey && !isTextField) {
+        event.preventDefault();
+        handleUndo();
+      } else if (
+        (((event.key === 'y' || event.key === 'Y') && event.ctrlKey) ||
+          ((event.key === 'z' || event.key === 'Z') && event.ctrlKey && event.shiftKey)) &&
+        !isTextField
+      ) {
+        event.preventDefault();
+        handleRedo();
       } else if (event.key === 'F9' && !isTextField) {
         event.preventDefault();
         handleMarkStart();
@@ -1112,6 +1766,9 @@ export default function SubtitleCreation() {
         setTextModalMode('insert');
         setTextModalValue('');
         setTextModalOpen(true);
+      } else if (event.key === 'T' && event.shiftKey) {
+        event.preventDefault();
+        handleAutoSubtitle();
       } else if (event.key.toLowerCase() === 't') {
         event.preventDefault();
         handleTranscribe();
@@ -1126,7 +1783,17 @@ export default function SubtitleCreation() {
 
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [handleGenerateClip, handleMarkEnd, handleMarkStart, handlePlaySegment, handleSaveSrt, handleTranscribe]);
+  }, [
+    handleAutoSubtitle,
+    handleGenerateClip,
+    handleMarkEnd,
+    handleMarkStart,
+    handlePlaySegment,
+    handleRedo,
+    handleSaveSrt,
+    handleTranscribe,
+    handleUndo,
+  ]);
 
   const currentSeekStep = SEEK_STEP_MS[seekStepIndex];
 
@@ -1149,6 +1816,46 @@ export default function SubtitleCreation() {
         </Alert>
       )}
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderKanban className="h-5 w-5" aria-hidden="true" />
+            {t('subtitleCreation.project.title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-3">
+          <Button onClick={handleOpenProject} variant="outline">
+            <FolderOpen className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t('subtitleCreation.project.open')}
+          </Button>
+          <Button onClick={() => handleSaveProject()} variant="secondary">
+            <Save className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t('subtitleCreation.project.save')}
+          </Button>
+          <Button onClick={() => handleSaveProject(true)} variant="secondary">
+            <Save className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t('subtitleCreation.project.saveAs')}
+          </Button>
+          <Select value="" onValueChange={handleOpenRecentProject} disabled={recentProjects.length === 0}>
+            <SelectTrigger className="w-[280px]" aria-label={t('subtitleCreation.project.recent')}>
+              <SelectValue placeholder={t('subtitleCreation.project.recent')} />
+            </SelectTrigger>
+            <SelectContent>
+              {recentProjects.map((path) => (
+                <SelectItem key={path} value={path}>
+                  {path.split(/[\\/]/).pop()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {projectPath && (
+            <span className="text-sm text-muted-foreground break-all">
+              {t('subtitleCreation.project.current', { path: projectPath })}
+            </span>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -1176,7 +1883,7 @@ export default function SubtitleCreation() {
             {t('subtitleCreation.media.openSrt')}
           </Button>
           <Button
-            onClick={handleSaveSrt}
+            onClick={() => handleSaveSrt('srt')}
             variant="secondary"
             aria-description={t('subtitleCreation.hotkeys.saveSrt')}
             data-toolbar-item="true"
@@ -1185,6 +1892,24 @@ export default function SubtitleCreation() {
             <Save className="h-4 w-4 mr-2" aria-hidden="true" />
             {t('subtitleCreation.media.saveSrt')}
           </Button>
+          <Button
+            onClick={() => handleSaveSrt('vtt')}
+            variant="secondary"
+            data-toolbar-item="true"
+            disabled={subtitles.length === 0}
+          >
+            <Save className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t('subtitleCreation.media.saveVtt')}
+          </Button>
+          <Button
+            onClick={() => handleSaveSrt('ass')}
+            variant="secondary"
+            data-toolbar-item="true"
+            disabled={subtitles.length === 0}
+          >
+            <Save className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t('subtitleCreation.media.saveAss')}
+          </Button>
           {mediaLabel && (
             <span className="text-sm text-muted-foreground truncate">
               {t('subtitleCreation.media.loaded', { name: mediaLabel })}
@@ -1360,6 +2085,24 @@ export default function SubtitleCreation() {
               <Download className="h-4 w-4 mr-2" />
               {isTranscribing ? t('subtitleCreation.actions.transcribing') : t('subtitleCreation.actions.transcribe')}
             </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={handleAutoSubtitle}
+              aria-description={t('subtitleCreation.hotkeys.autoSubtitle')}
+              tabIndex={-1}
+              data-toolbar-item="true"
+              disabled={isAutoSubtitling || isTranscribing || !audioSrc || isPreparingAudio}
+            >
+              {isAutoSubtitling ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4 mr-2" />
+              )}
+              {isAutoSubtitling
+                ? t('subtitleCreation.actions.autoSubtitling')
+                : t('subtitleCreation.actions.autoSubtitle')}
+            </Button>
           </div>
 
           <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
@@ -1376,12 +2119,234 @@ export default function SubtitleCreation() {
         </CardContent>
       </Card>
 
+      {audioPath && (
+        <Card>
+          <CardHeader className="flex flex-wrap items-center gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <AudioWaveform className="h-5 w-5" aria-hidden="true" />
+              {t('subtitleCreation.timeline.title')}
+            </CardTitle>
+            <div className="ml-auto flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleTimelineZoom(-1)}
+                disabled={timelineZoomIndex === 0}
+                aria-label={t('subtitleCreation.timeline.zoomOut')}
+              >
+                <ZoomOut className="h-4 w-4" aria-hidden="true" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleTimelineZoom(1)}
+                disabled={timelineZoomIndex === TIMELINE_ZOOM_LEVELS.length - 1}
+                aria-label={t('subtitleCreation.timeline.zoomIn')}
+              >
+                <ZoomIn className="h-4 w-4" aria-hidden="true" />
+              </Button>
+              <Select value={timelineMode} onValueChange={(value) => setTimelineMode(value as TimelineMode)}>
+                <SelectTrigger className="w-[160px]" aria-label={t('subtitleCreation.timeline.view')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="waveform">{t('subtitleCreation.timeline.waveform')}</SelectItem>
+                  <SelectItem value="spectrogram" disabled={!waveform?.spectrum}>
+                    {t('subtitleCreation.timeline.spectrogram')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoadingWaveform && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+                {t('subtitleCreation.timeline.loading')}
+              </div>
+            )}
+            {waveform && (
+              <>
+                <WaveformTimeline
+                  data={waveform}
+                  subtitles={subtitles}
+                  gaps={gaps ?? undefined}
+                  currentTimeMs={currentTime}
+                  pixelsPerSecond={TIMELINE_ZOOM_LEVELS[timelineZoomIndex]}
+                  mode={timelineMode}
+                  label={t('subtitleCreation.timeline.label')}
+                  onSeek={handleTimelineSeek}
+                  onCueTimingChange={handleCueTimingChange}
+                  onZoom={handleTimelineZoom}
+                />
+                <p className="text-xs text-muted-foreground">{t('subtitleCreation.timeline.help')}</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Volume2 className="h-5 w-5" aria-hidden="true" />
+            {t('subtitleCreation.ducking.title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t('subtitleCreation.ducking.description')}</p>
+          <DuckingSettingsPanel id="projectDucking" value={projectDucking} onChange={setProjectDucking} />
+          <Button
+            variant="secondary"
+            onClick={() =>
+              navigate('/convert-subtitles', {
+                state: {
+                  subtitles,
+                  fileName: (mediaLabel.split(/[\\/]/).pop() || '').replace(/\.[^.]+$/, ''),
+                  ducking: projectDucking,
+                },
+              })
+            }
+            disabled={subtitles.length === 0}
+          >
+            <Volume2 className="h-4 w-4 mr-2" aria-hidden="true" />
+            {t('subtitleCreation.ducking.sendToConvert')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {mediaKind === 'video' && mediaLabel && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Film className="h-5 w-5" aria-hidden="true" />
+              {t('subtitleCreation.videoExport.title')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center gap-3">
+            <Select value={videoExportMode} onValueChange={(value) => setVideoExportMode(value as VideoExportMode)}>
+              <SelectTrigger className="w-[260px]" aria-label={t('subtitleCreation.videoExport.mode')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="soft">{t('subtitleCreation.videoExport.soft')}</SelectItem>
+                <SelectItem value="burn">{t('subtitleCreation.videoExport.burn')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleExportVideo} disabled={videoExportPercent !== null || subtitles.length === 0}>
+              {videoExportPercent !== null ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
+              ) : (
+                <Film className="h-4 w-4 mr-2" aria-hidden="true" />
+              )}
+              {t('subtitleCreation.videoExport.export')}
+            </Button>
+            {videoExportPercent !== null && (
+              <span className="text-sm text-muted-foreground">
+                {t('subtitleCreation.videoExport.progress', { percent: videoExportPercent })}
+              </span>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {audioPath && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareOff className="h-5 w-5" aria-hidden="true" />
+              {t('subtitleCreation.gaps.title')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="gapMinSeconds">{t('subtitleCreation.gaps.minLength')}</Label>
+                <Input
+                  id="gapMinSeconds"
+                  type="number"
+                  min="0.5"
+                  step="0.5"
+                  className="w-[140px]"
+                  value={gapMinSeconds}
+                  onChange={(e) => setGapMinSeconds(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleDetectGaps} disabled={isDetectingGaps || isPreparingAudio}>
+                {isDetectingGaps ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
+                ) : (
+                  <MessageSquareOff className="h-4 w-4 mr-2" aria-hidden="true" />
+                )}
+                {isDetectingGaps ? t('subtitleCreation.gaps.scanning') : t('subtitleCreation.gaps.scan')}
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleCreateGapCue}
+                disabled={selectedGapIndex === null || !gaps?.length}
+              >
+                <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+                {t('subtitleCreation.gaps.createCue')}
+              </Button>
+            </div>
+            {gaps && gaps.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t('subtitleCreation.gaps.empty')}</p>
+            )}
+            {gaps && gaps.length > 0 && (
+              <ul className="max-h-[240px] overflow-y-auto space-y-1" aria-label={t('subtitleCreation.gaps.listLabel')}>
+                {gaps.map((gap, index) => (
+                  <li key={`${gap.startMs}-${gap.endMs}`}>
+                    <Button
+                      variant={selectedGapIndex === index ? 'default' : 'ghost'}
+                      className="w-full justify-start font-mono text-xs"
+                      onClick={() => handleSelectGap(index)}
+                      aria-pressed={selectedGapIndex === index}
+                    >
+                      {t('subtitleCreation.gaps.item', {
+                        start: formatTimestamp(gap.startMs),
+                        end: formatTimestamp(gap.endMs),
+                        seconds: ((gap.endMs - gap.startMs) / 1000).toFixed(1),
+                      })}
+                      {gapHasCue(gap) && (
+                        <span className="ml-2 font-sans text-muted-foreground">{t('subtitleCreation.gaps.hasCue')}</span>
+                      )}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader className="flex items-center gap-2">
           <CardTitle className="flex items-center gap-2">
             <Radio className="h-5 w-5" aria-hidden="true" />
             {t('subtitleCreation.list.title')}
           </CardTitle>
+          <div className="ml-auto flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUndo}
+              disabled={history.undo.length === 0}
+              aria-description={t('subtitleCreation.hotkeys.undo')}
+            >
+              <Undo2 className="h-4 w-4 mr-2" aria-hidden="true" />
+              {t('subtitleCreation.history.undo')}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRedo}
+              disabled={history.redo.length === 0}
+              aria-description={t('subtitleCreation.hotkeys.redo')}
+            >
+              <Redo2 className="h-4 w-4 mr-2" aria-hidden="true" />
+              {t('subtitleCreation.history.redo')}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {subtitles.length === 0 ? (
@@ -1392,7 +2357,8 @@ export default function SubtitleCreation() {
           ) : (
             <>
               <p id="subtitle-list-shortcuts" className="sr-only">
-                {t('subtitleCreation.list.jumpShortcut')}. {t('subtitleCreation.list.editShortcut')}.
+                {t('subtitleCreation.list.jumpShortcut')}. {t('subtitleCreation.list.editShortcut')}.{' '}
+                {t('subtitleCreation.list.deleteShortcut')}.
               </p>
               <ul
                 ref={subtitleListRef}
@@ -1522,6 +2488,40 @@ export default function SubtitleCreation() {
         </CardContent>
       </Card>
 
+      <Dialog
+        open={recoverySnapshot !== null}
+        onOpenChange={(open) => {
+          if (!open) setRecoverySnapshot(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('subtitleCreation.recovery.title')}</DialogTitle>
+          </DialogHeader>
+          {recoverySnapshot && (
+            <div className="space-y-2 text-sm text-muted-foreground mb-4">
+              <p>
+                {t('subtitleCreation.recovery.body', {
+                  time: new Date(recoverySnapshot.savedAt).toLocaleString(i18n.language),
+                  count: recoverySnapshot.project.subtitles.length,
+                })}
+              </p>
+              {recoverySnapshot.project.mediaPath && (
+                <p className="break-all">
+                  {t('subtitleCreation.recovery.media', { path: recoverySnapshot.project.mediaPath })}
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleDiscardSession}>
+              {t('subtitleCreation.recovery.discard')}
+            </Button>
+            <Button onClick={handleRestoreSession}>{t('subtitleCreation.recovery.restore')}</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={videoDialogOpen} onOpenChange={setVideoDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -1597,6 +2597,59 @@ export default function SubtitleCreation() {
                 }
               }}
             />
+            {editingSubtitleId !== null && (
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="cueDuckingMode">{t('subtitleCreation.ducking.cueOverride')}</Label>
+                  <Select
+                    value={
+                      textModalDucking?.enabled === false
+                        ? 'off'
+                        : textModalDucking?.depthDb !== undefined
+                          ? 'custom'
+                          : 'default'
+                    }
+                    onValueChange={(value) =>
+                      setTextModalDucking(
+                        value === 'off'
+                          ? { enabled: false }
+                          : value === 'custom'
+                            ? { depthDb: projectDucking.depthDb }
+                            : undefined
+                      )
+                    }
+                  >
+                    <SelectTrigger id="cueDuckingMode" className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">{t('subtitleCreation.ducking.cueDefault')}</SelectItem>
+                      <SelectItem value="off">{t('subtitleCreation.ducking.cueOff')}</SelectItem>
+                      <SelectItem value="custom">{t('subtitleCreation.ducking.cueCustom')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {textModalDucking?.depthDb !== undefined && (
+                  <div className="space-y-1">
+                    <Label htmlFor="cueDuckingDepth">{t('ducking.fields.depthDb')}</Label>
+                    <Input
+                      id="cueDuckingDepth"
+                      type="number"
+                      step="1"
+                      max="0"
+                      className="w-[120px]"
+                      value={textModalDucking.depthDb}
+                      onChange={(e) => {
+                        const depthDb = Number(e.target.value);
+                        if (e.target.value.trim() !== '' && Number.isFinite(depthDb)) {
+                          setTextModalDucking({ depthDb: Math.min(0, depthDb) });
+                        }
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
             <div className="flex justify-end gap-2">
               <Button
                 variant="outline"
@@ -0,0 +1,271 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { useTranslation } from 'react-i18next';
+import { Alert, AlertDescription } from '~/components/ui/alert';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { Textarea } from '~/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '~/components/ui/table';
+import { FileText, FileUp, Languages, Loader2, Save, Volume2 } from 'lucide-react';
+import { useTTS } from '~/contexts/TTSContext';
+import {
+  type AssStyleSheet,
+  type Subtitle,
+  type SubtitleFormat,
+  detectSubtitleFormat,
+  formatTimestamp,
+  parseAssStyles,
+  parseSubtitles,
+  serializeSubtitles,
+} from '~/lib/srt';
+import { translateSubtitles } from '~/lib/translate';
+
+export default function TranslateSubtitles() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { config, subtitleSettings } = useTTS();
+
+  const [source, setSource] = useState<Subtitle[]>([]);
+  const [translated, setTranslated] = useState<Subtitle[]>([]);
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const [assStyles, setAssStyles] = useState<AssStyleSheet | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [targetLanguage, setTargetLanguage] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [liveMessage, setLiveMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const geminiApiKey = useMemo(
+    () => config.services.find((service) => service.type === 'gemini' && service.apiKey)?.apiKey,
+    [config.services]
+  );
+
+  const handleOpen = async () => {
+    const result = await window.electronAPI.dialog.openSrtFile();
+    if (result?.error) {
+      setError(result.error);
+      return;
+    }
+    if (!result?.content) return;
+    try {
+      const detected = detectSubtitleFormat(result.content, result.path);
+      const parsed = parseSubtitles(result.content, detected, {
+        stripOverrideTags: subtitleSettings.stripAssOverrideTags !== false,
+      });
+      setSource(parsed);
+      setTranslated([]);
+      setFormat(detected);
+      setAssStyles(detected === 'ass' ? parseAssStyles(result.content) : null);
+      setFileName((result.path?.split(/[\\/]/).pop() || '').replace(/\.[^.]+$/, ''));
+      setError(null);
+      setSuccess(null);
+    } catch {
+      setError(t('translateSubtitles.errors.parseFailed'));
+    }
+  };
+
+  const handleTranslate = async () => {
+    if (!geminiApiKey) {
+      setError(t('translateSubtitles.errors.noGemini'));
+      return;
+    }
+    if (!targetLanguage.trim()) {
+      setError(t('translateSubtitles.errors.noLanguage'));
+      return;
+    }
+
+    setError(null);
+    setSuccess(null);
+    setIsTranslating(true);
+    setProgress({ done: 0, total: 0 });
+    setLiveMessage(t('translateSubtitles.live.started'));
+
+    try {
+      const result = await translateSubtitles(source, {
+        targetLanguage: targetLanguage.trim(),
+        instructions,
+        translate: (text, prompt) => window.electronAPI.subtitle.translateWithGemini(text, geminiApiKey, prompt),
+        onBatch: (done, total) => {
+          setProgress({ done, total });
+          setLiveMessage(t('translateSubtitles.progress', { done, total }));
+        },
+      });
+      setTranslated(result);
+      setSuccess(t('translateSubtitles.success.translated', { count: result.length }));
+      setLiveMessage(t('translateSubtitles.success.translated', { count: result.length }));
+    } catch (err) {
+      setError(t('translateSubtitles.errors.failed', { message: (err as Error).message }));
+      setLiveMessage(t('translateSubtitles.errors.failed', { message: (err as Error).message }));
+    } finally {
+      setIsTranslating(false);
+      setProgress(null);
+    }
+  };
+
+  const handleEditCue = (index: number, text: string) => {
+    setTranslated((prev) => prev.map((sub, i) => (i === index ? { ...sub, text } : sub)));
+  };
+
+  const outputName = () => {
+    const suffix = targetLanguage.trim().toLowerCase().replace(/\s+/g, '-') || 'translated';
+    return `${fileName || 'subtitles'}.${suffix}`;
+  };
+
+  const handleSave = async () => {
+    const result = await window.electronAPI.subtitle.saveSrt(serializeSubtitles(translated, format, { assStyles }), outputName(), format);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    if (result.path) {
+      setSuccess(t('translateSubtitles.success.saved', { path: result.path }));
+      setTimeout(() => setSuccess(null), 2500);
+    }
+  };
+
+  const handleSendToConvert = () => {
+    navigate('/convert-subtitles', { state: { subtitles: translated, fileName: outputName() } });
+  };
+
+  return (
+    <main className="container mx-auto p-6 max-w-6xl space-y-6" role="main">
+      <header className="flex flex-wrap items-center gap-3">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Languages className="h-6 w-6" aria-hidden="true" />
+          {t('translateSubtitles.title')}
+        </h1>
+        <p className="text-muted-foreground">{t('translateSubtitles.description')}</p>
+      </header>
+
+      <div className="sr-only" aria-live="polite">
+        {liveMessage}
+      </div>
+
+      {error && (
+        <Alert className="border-red-500 bg-red-50 dark:bg-red-950">
+          <AlertDescription className="text-red-700 dark:text-red-300">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="border-green-500 bg-green-50 dark:bg-green-950">
+          <AlertDescription className="text-green-700 dark:text-green-300">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" aria-hidden="true" />
+            {t('translateSubtitles.source.title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Button variant="outline" onClick={handleOpen} disabled={isTranslating}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {t('translateSubtitles.source.open')}
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            {source.length > 0
+              ? t('translateSubtitles.source.loaded', { name: fileName, count: source.length })
+              : t('translateSubtitles.source.empty')}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" aria-hidden="true" />
+            {t('translateSubtitles.options.title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-md">
+            <Label htmlFor="translateTargetLanguage">{t('translateSubtitles.options.targetLanguage')}</Label>
+            <Input
+              id="translateTargetLanguage"
+              value={targetLanguage}
+              onChange={(e) => setTargetLanguage(e.target.value)}
+              placeholder={t('translateSubtitles.options.targetPlaceholder')}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="translateInstructions">{t('translateSubtitles.options.instructions')}</Label>
+            <Textarea
+              id="translateInstructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder={t('translateSubtitles.options.instructionsPlaceholder')}
+            />
+          </div>
+          <Button onClick={handleTranslate} disabled={isTranslating || source.length === 0}>
+            {isTranslating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Languages className="h-4 w-4 mr-2" />}
+            {isTranslating ? t('translateSubtitles.translating') : t('translateSubtitles.translate')}
+          </Button>
+          {progress && progress.total > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {t('translateSubtitles.progress', { done: progress.done, total: progress.total })}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {translated.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('translateSubtitles.review.title')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleSave}>
+                <Save className="h-4 w-4 mr-2" />
+                {t('translateSubtitles.review.save')}
+              </Button>
+              <Button variant="secondary" onClick={handleSendToConvert}>
+                <Volume2 className="h-4 w-4 mr-2" />
+                {t('translateSubtitles.review.sendToConvert')}
+              </Button>
+            </div>
+            <div className="max-h-[600px] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">#</TableHead>
+                    <TableHead className="w-[200px]">{t('translateSubtitles.review.time')}</TableHead>
+                    <TableHead>{t('translateSubtitles.review.original')}</TableHead>
+                    <TableHead>{t('translateSubtitles.review.translation')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {translated.map((sub, index) => (
+                    <TableRow key={`${sub.id}-${index}`}>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {formatTimestamp(sub.startTime)} → {formatTimestamp(sub.endTime)}
+                      </TableCell>
+                      <TableCell className="whitespace-pre-wrap text-sm">{source[index]?.text}</TableCell>
+                      <TableCell>
+                        <Textarea
+                          value={sub.text}
+                          onChange={(e) => handleEditCue(index, e.target.value)}
+                          aria-label={t('translateSubtitles.review.editCue', { index: index + 1 })}
+                          className="min-h-[60px]"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  );
+}
@@ -1,8 +1,17 @@
+import type { DuckingCue, DuckingSettings } from '~/lib/ducking';
+import type { LoudnessOptions, LoudnessReport, LoudnessTarget } from '~/lib/loudness';
+import type { OutputProfile } from '~/lib/outputProfile';
+import type { SubtitleFormat } from '~/lib/srt';
+
 export interface TTSConfig {
   services: TTSService[];
   defaultServiceId: string | null;
   subtitleSettings: SubtitleSettings;
   language?: string;
+  speakerVoices?: Record<string, string>; // normalized speaker name -> service id
+  outputProfile?: OutputProfile;
+  providerLimits?: Partial<Record<TTSService['type'], ProviderLimits>>;
+  alignmentReview?: AlignmentReviewSettings;
 }
 
 export interface TTSService {
@@ -19,18 +28,85 @@ export interface TTSService {
   speedFactor?: number; // Audio speed multiplier (1 = no change)
 }
 
+export type TranscriptionProvider = 'gemini' | 'whisper';
+
 export interface SubtitleSettings {
   transcriptionPrompt: string;
   normalizeForTranscription?: boolean;
   useConvertCache?: boolean;
+  stripAssOverrideTags?: boolean;
+  parseSpeakerPrefixes?: boolean; // take any "NAME:" prefix as a speaker, not only mapped names
+  transcriptionProvider?: TranscriptionProvider;
+  whisperBinaryPath?: string; // whisper.cpp CLI; falls back to whisper-cli on PATH
+  whisperModelPath?: string; // ggml model file
+  whisperLanguage?: string;
+  gapMinDurationMs?: number; // shortest dialogue gap listed in Create Subtitles
+  ducking?: DuckingSettings; // last settings used by Convert Subtitles
+  loudnessTarget?: LoudnessTarget;
+  loudnessTruePeak?: number; // dBTP ceiling, overrides the target's default
+}
+
+export interface TranscriptionRequest {
+  provider: TranscriptionProvider;
+  apiKey?: string;
+  prompt?: string;
+  startMs?: number;
+  endMs?: number;
+  normalizeAudio?: boolean;
+  whisperBinaryPath?: string;
+  whisperModelPath?: string;
+  whisperLanguage?: string;
+}
+
+export interface TranscriptionSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export type AlignmentConfidence = 'high' | 'medium' | 'low';
+
+export interface AlignmentReviewSettings {
+  highScore: number; // at or above: high confidence
+  lowScore: number; // below: low confidence, flagged or skipped
+  lowConfidence: 'flag' | 'skip';
+}
+
+export interface AlignPair {
+  video: string;
+  audio: string;
 }
 
 export interface AlignmentRunOptions {
   videoPaths: string[];
   audioPaths: string[];
+  pairs?: AlignPair[]; // reviewed pairing; lexicographic order when absent
   prepend?: string;
   outputPath?: string | null;
   runId?: string;
+  outputProfile?: OutputProfile;
+  review?: AlignmentReviewSettings;
+}
+
+export type AlignmentReportFormat = 'csv' | 'json' | 'html';
+
+// A finished batch as kept in the alignment history
+export interface AlignmentRun {
+  id: string;
+  createdAt: string; // ISO timestamp
+  entries: AlignmentReportEntry[];
+}
+
+export interface AlignmentFileStatus {
+  output: boolean; // the muxed file exists
+  sources: boolean; // video, audio and the output folder exist, so it can be previewed and re-muxed
+}
+
+// Re-render one pair from the review queue with the offsets shifted by nudgeMs
+export interface AlignmentMuxRequest {
+  entry: AlignmentReportEntry;
+  nudgeMs: number; // positive delays the audio
+  outputProfile?: OutputProfile;
 }
 
 export interface AlignmentRunResult {
@@ -46,17 +122,61 @@ export interface AlignmentLogEvent {
   message: string;
 }
 
+export interface MixDuckingOptions {
+  settings?: Partial<DuckingSettings>;
+  cues?: DuckingCue[];
+}
+
+export type VideoExportMode = 'soft' | 'burn';
+
+export interface VideoExportOptions {
+  videoPath: string;
+  subtitleContent: string; // SRT
+  mode: VideoExportMode;
+  outputPath: string;
+  jobId?: string;
+}
+
+export interface VideoExportProgressEvent {
+  jobId: string;
+  percent?: number;
+  message?: string;
+}
+
+export interface DescribedAudioMuxOptions {
+  videoPath: string;
+  audioPath: string;
+  outputPath: string;
+  language: string; // ISO 639-2, e.g. "eng"
+  title: string;
+}
+
 export interface AlignmentEnvCheck {
   ffmpegAvailable: boolean;
 }
 
+// Video time t plays audio at (t + offsetMs) * tempo
+export interface AlignmentSegment {
+  startMs: number; // video time
+  endMs: number;
+  offsetMs: number | null; // null: the audio has nothing for this stretch
+  score: number;
+}
+
 export interface AlignmentReportEntry {
   title: string;
   video: string;
   audio: string;
-  offsetMs: number;
-  score: number;
+  offsetMs: number; // global best offset
+  score: number; // segment scores weighted by duration
+  confidence: AlignmentConfidence;
+  tempo: number; // audio ms per video ms
+  segments: AlignmentSegment[];
+  durationMs: number; // video
+  audioDurationMs: number;
   output: string;
+  skipped?: boolean; // low confidence and not muxed; output is where a re-mux writes
+  reviewed?: boolean; // re-muxed from the review queue
 }
 
 export interface Voice {
@@ -76,10 +196,76 @@ export interface SpeakResult {
   error?: string;
 }
 
+export interface ProjectFileResult {
+  path?: string;
+  content?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
+export interface WaveformData {
+  peaks?: Float32Array; // max |sample| per bucket
+  peaksPerSecond?: number;
+  durationMs?: number;
+  spectrum?: Uint8Array; // frames x spectrumBands, 0-255, low bands first
+  spectrumBands?: number;
+  spectrumFramesPerSecond?: number;
+  error?: string;
+}
+
+export interface DialogueGap {
+  startMs: number;
+  endMs: number;
+}
+
+export interface GapDetectionOptions {
+  minGapMs?: number;
+  sensitivity?: number; // 0-1, fraction of the noise-floor-to-speech range counted as quiet
+}
+
+export interface ProviderLimits {
+  concurrency: number;
+  ratePerMinute: number;
+}
+
+export interface TtsQueueTask {
+  id: string;
+  text: string;
+  outputPath: string;
+  service: TTSService; // speedFactor is the speed to render at
+}
+
+export interface TtsQueueOptions {
+  limits?: Partial<Record<TTSService['type'], ProviderLimits>>;
+  maxRetries?: number;
+}
+
+export interface TtsQueueTaskResult {
+  id: string;
+  path?: string;
+  error?: string;
+  cancelled?: boolean; // the job was cancelled before this task finished
+  attempts: number;
+}
+
+export interface TtsQueueProgressEvent {
+  jobId: string;
+  taskId: string;
+  state: 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+  attempt: number;
+  completed: number;
+  failed: number;
+  total: number;
+  path?: string; // set on 'done'
+  error?: string;
+  retryInMs?: number;
+}
+
 export interface SaveResult {
   success?: boolean;
   path?: string;
   error?: string;
+  loudness?: LoudnessReport; // set when the render was loudness-normalized
 }
 
 export interface TranscribeResult {
@@ -96,59 +282,117 @@ export interface ElectronAPI {
     checkEnv: () => Promise<AlignmentEnvCheck>;
     run: (options: AlignmentRunOptions) => Promise<AlignmentRunResult>;
     saveOutput: (sourcePath: string, suggestedName?: string) => Promise<{ success?: boolean; error?: string; path?: string; canceled?: boolean }>;
+    preview: (request: AlignmentMuxRequest) => Promise<{ path?: string; error?: string }>;
+    remux: (request: AlignmentMuxRequest) => Promise<{ success?: boolean; error?: string; entry?: AlignmentReportEntry }>;
+    probeDurations: (paths: string[]) => Promise<{ durations?: Record<string, number>; error?: string }>;
+    checkFiles: (entries: AlignmentReportEntry[]) => Promise<{ files: AlignmentFileStatus[] }>;
+    getHistory: () => Promise<{ runs: AlignmentRun[] }>;
+    saveHistoryRun: (run: AlignmentRun) => Promise<{ success?: boolean }>;
+    deleteHistoryRun: (id: string) => Promise<{ success?: boolean; error?: string }>;
+    exportReport: (
+      content: string,
+      format: AlignmentReportFormat,
+      suggestedName?: string
+    ) => Promise<{ path?: string; canceled?: boolean; error?: string }>;
     onLog: (callback: (payload: AlignmentLogEvent) => void) => () => void;
   };
   azure: {
     getVoices: (apiKey: string, region: string) => Promise<VoicesResult>;
     speak: (text: string, voiceId: string, apiKey: string, region: string, speed?: number) => Promise<SpeakResult>;
-    saveToFile: (text: string, voiceId: string, apiKey: string, region: string, outputPath: string, speed?: number) => Promise<SaveResult>;
+    saveToFile: (text: string, voiceId: string, apiKey: string, region: string, outputPath: string, speed?: number, profile?: OutputProfile) => Promise<SaveResult>;
   };
   elevenlabs: {
     getVoices: (apiKey: string) => Promise<VoicesResult>;
     speak: (text: string, voiceId: string, apiKey: string, modelId?: string, speed?: number) => Promise<SpeakResult>;
-    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, modelId?: string, speed?: number) => Promise<SaveResult>;
+    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, modelId?: string, speed?: number, profile?: OutputProfile) => Promise<SaveResult>;
   };
   google: {
     getVoices: (apiKey: string) => Promise<VoicesResult>;
     speak: (text: string, voiceId: string, apiKey: string, speed?: number) => Promise<SpeakResult>;
-    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, speed?: number) => Promise<SaveResult>;
+    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, speed?: number, profile?: OutputProfile) => Promise<SaveResult>;
   };
   gemini: {
     getVoices: () => Promise<VoicesResult>;
     speak: (text: string, voiceId: string, apiKey: string, stylePrompt?: string, speed?: number) => Promise<SpeakResult>;
-    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, stylePrompt?: string, speed?: number) => Promise<SaveResult>;
+    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, stylePrompt?: string, speed?: number, profile?: OutputProfile) => Promise<SaveResult>;
     transcribe: (audioPath: string, apiKey: string, prompt?: string, startMs?: number, endMs?: number, normalizeAudio?: boolean) => Promise<TranscribeResult>;
   };
+  transcription: {
+    transcribe: (audioPath: string, request: TranscriptionRequest) => Promise<TranscribeResult>;
+    transcribeTimed: (audioPath: string, request: TranscriptionRequest) => Promise<{ segments?: TranscriptionSegment[]; error?: string }>;
+  };
   system: {
-    saveToFile: (text: string, voiceName: string, outputPath: string, speed?: number) => Promise<SaveResult>;
+    saveToFile: (text: string, voiceName: string, outputPath: string, speed?: number, profile?: OutputProfile) => Promise<SaveResult>;
+    getVoices: () => Promise<VoicesResult>;
     checkFfmpeg: () => Promise<boolean>;
     createTempDir: () => Promise<string>;
     removeDir: (dirPath: string) => Promise<boolean>;
     getPlatform: () => Promise<string>;
-    mixAudio: (clips: { path: string; startTime: number }[], outputPath: string, backgroundPath?: string) => Promise<SaveResult>;
+    mixAudio: (
+      clips: { path: string; startTime: number }[],
+      outputPath: string,
+      backgroundPath?: string,
+      ducking?: MixDuckingOptions,
+      loudness?: LoudnessOptions,
+      profile?: OutputProfile
+    ) => Promise<SaveResult>;
     getAudioDuration: (path: string) => Promise<{ duration?: number; error?: string }>;
+    muxDescribedAudio: (options: DescribedAudioMuxOptions) => Promise<{ success?: boolean; path?: string; error?: string }>;
   };
   dialog: {
-    saveFile: () => Promise<string | undefined>;
+    saveFile: (profile?: OutputProfile) => Promise<string | undefined>;
     saveAlignOutput: () => Promise<{ path?: string; canceled?: boolean }>;
     pickAlignPaths: (kind: 'video' | 'audio') => Promise<{ paths?: string[]; canceled?: boolean; error?: string }>;
     chooseFolder: () => Promise<{ path?: string; canceled?: boolean }>;
     openMediaFile: () => Promise<{ path?: string; error?: string; kind?: 'audio' | 'video' }>;
     openSrtFile: () => Promise<{ path?: string; content?: string; error?: string }>;
+    openProject: () => Promise<ProjectFileResult>;
+    saveProject: (content: string, currentPath?: string, suggestedName?: string) => Promise<ProjectFileResult>;
+    saveVideoExport: (suggestedName?: string, mode?: VideoExportMode) => Promise<{ path?: string; canceled?: boolean }>;
+  };
+  ttsQueue: {
+    run: (
+      jobId: string,
+      tasks: TtsQueueTask[],
+      options?: TtsQueueOptions
+    ) => Promise<{ results: TtsQueueTaskResult[]; error?: string }>;
+    pause: (jobId: string) => Promise<boolean>;
+    resume: (jobId: string) => Promise<boolean>;
+    cancel: (jobId: string) => Promise<boolean>;
+    onProgress: (callback: (payload: TtsQueueProgressEvent) => void) => () => void;
+  };
+  videoExport: {
+    run: (options: VideoExportOptions) => Promise<{ success?: boolean; path?: string; error?: string }>;
+    onProgress: (callback: (payload: VideoExportProgressEvent) => void) => () => void;
+  };
+  autosave: {
+    write: (content: string) => Promise<{ success?: boolean; path?: string; error?: string }>;
+    getLatest: () => Promise<{ path?: string; content?: string }>;
+    clear: () => Promise<{ success?: boolean; error?: string }>;
+  };
+  project: {
+    getRecent: () => Promise<{ paths: string[] }>;
+    openRecent: (projectPath: string) => Promise<ProjectFileResult>;
   };
   audio: {
     play: (filePath: string) => Promise<{ success: boolean }>;
     onPlayFile: (callback: (filePath: string) => void) => void;
+    getWaveform: (inputPath: string, includeSpectrum?: boolean) => Promise<WaveformData>;
+    detectGaps: (inputPath: string, options?: GapDetectionOptions) => Promise<{ gaps?: DialogueGap[]; error?: string }>;
   };
   subtitle: {
     convertVideoToAudio: (inputPath: string) => Promise<{ audioPath?: string; error?: string }>;
     prepareAudioForPlayback: (inputPath: string) => Promise<{ audioPath?: string; error?: string }>;
     ensureTempSrt: (suggestedName?: string) => Promise<string>;
     writeSrt: (path: string, content: string) => Promise<{ path: string; success: boolean; error?: string }>;
-    saveSrt: (content: string, suggestedName?: string) => Promise<{ path?: string; error?: string }>;
+    saveSrt: (content: string, suggestedName?: string, format?: SubtitleFormat) => Promise<{ path?: string; error?: string }>;
+    translateWithGemini: (text: string, apiKey: string, prompt: string) => Promise<TranscribeResult>;
     getConvertCacheDir: () => Promise<{ path?: string; error?: string }>;
     readConvertCache: () => Promise<{ entries: Record<string, unknown>; error?: string }>;
     writeConvertCache: (entries: Record<string, unknown>) => Promise<{ success?: boolean; error?: string }>;
+    readConvertJob: () => Promise<{ content?: string; error?: string }>;
+    writeConvertJob: (content: string) => Promise<{ success?: boolean; error?: string }>;
+    clearConvertJob: () => Promise<{ success?: boolean; error?: string }>;
   };
 }
 
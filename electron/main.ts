@@ -2,7 +2,7 @@ import { app, BrowserWindow, ipcMain, protocol, net } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import { spawn, exec } from 'child_process';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { type GenerationConfig, GoogleGenerativeAI, type Part } from '@google/generative-ai';
 import { pathToFileURL } from 'url';
 
 const isDev = process.env.NODE_ENV === 'development';
@@ -51,22 +51,65 @@ let mainWindow: BrowserWindow | null = null;
 
 const CONFIG_PATH = path.join(app.getPath('userData'), 'tts-config.json');
 const CONVERT_CACHE_DIR = path.join(app.getPath('userData'), 'subtitle-convert-cache');
+const CONVERT_JOB_PATH = path.join(app.getPath('userData'), 'convert-job.json');
+const ALIGN_HISTORY_PATH = path.join(app.getPath('userData'), 'alignment-history.json');
+const MAX_ALIGN_HISTORY = 30;
+const RECENT_PROJECTS_PATH = path.join(app.getPath('userData'), 'recent-projects.json');
+const MAX_RECENT_PROJECTS = 10;
+const AUTOSAVE_DIR = path.join(app.getPath('userData'), 'autosave');
+const MAX_AUTOSAVE_SNAPSHOTS = 5;
+const PIPER_VOICES_DIR = process.env.PIPER_VOICES_DIR || path.join(app.getPath('userData'), 'piper-voices');
+const ESPEAK_DEFAULT_WPM = 175;
 const DEFAULT_LANGUAGE = 'en';
 const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
   transcriptionPrompt:
     'Transcribe the audio. You can also translate by specifying the desired output language and format in this prompt.',
   normalizeForTranscription: true,
   useConvertCache: true,
+  stripAssOverrideTags: true,
+  parseSpeakerPrefixes: false,
+  transcriptionProvider: 'gemini',
+  whisperBinaryPath: '',
+  whisperModelPath: '',
+  whisperLanguage: 'auto',
+  gapMinDurationMs: 2000,
 };
 const ALIGN_VIDEO_EXTENSIONS = ['mp4', 'mkv', 'avi', 'mov', 'webm', 'm4v', 'flv', 'vob'];
 const ALIGN_AUDIO_EXTENSIONS = ['mp3', 'm4a', 'opus', 'wav', 'aac', 'flac', 'ac3', 'mka'];
 const ALIGN_MAX_OFFSET_MS = 15 * 60 * 1000; // search window of +/- 15 minutes
+const ALIGN_HOP_MS = 20; // onset envelope resolution; peaks are refined between hops
+const ALIGN_ONSET_FFT_SIZE = 512; // 32 ms at the 16 kHz analysis rate
+const ALIGN_ONSET_COMPRESSION = 100; // log(1 + C * |X|) keeps quiet onsets from vanishing under loud ones
+const ALIGN_WINDOW_MS = 60 * 1000; // drift analysis window
+const ALIGN_WINDOW_STEP_MS = 15 * 1000;
+const ALIGN_MAX_WINDOWS = 600; // the step grows on very long files
+const ALIGN_TRACK_RADIUS_MS = 30 * 1000; // search around the previous window's offset first
+const ALIGN_JUMP_RADIUS_MS = 5 * 60 * 1000; // then around the global offset, for edits and ad breaks
+const ALIGN_WINDOW_MIN_SCORE = 0.3; // Pearson of onset envelopes; mismatched windows stay well below
+const ALIGN_SILENT_STD = 0.25; // windows flatter than this (in global std units) carry no timing
+const ALIGN_SEGMENT_TOLERANCE_MS = 250; // offsets closer than this belong to one segment
+const ALIGN_TEMPO_MIN_SPAN_MS = 2 * 60 * 1000;
+const ALIGN_TEMPO_PROBES = 12;
+const ALIGN_PREVIEW_MS = 60 * 1000;
+const DEFAULT_ALIGNMENT_REVIEW: AlignmentReviewSettings = { highScore: 0.6, lowScore: 0.3, lowConfidence: 'flag' };
+// Frame-rate conversions that speed up or slow down a whole soundtrack (PAL speedup, NTSC pulldown)
+const ALIGN_KNOWN_TEMPOS = [25 / 23.976, 25 / 24, 24 / 23.976].flatMap((ratio) => [ratio, 1 / ratio]);
+const PROJECT_FILE_FILTER = { name: 'OpenDesc Project', extensions: ['opendesc'] };
+const SUBTITLE_FILE_FILTERS: Record<SubtitleFormat, { name: string; extensions: string[] }> = {
+  srt: { name: 'SubRip Subtitle', extensions: ['srt'] },
+  vtt: { name: 'WebVTT Subtitle', extensions: ['vtt'] },
+  ass: { name: 'Advanced SubStation Alpha', extensions: ['ass'] },
+};
 
 interface TTSConfig {
   services: TTSService[];
   defaultServiceId: string | null;
   subtitleSettings: SubtitleSettings;
   language?: string;
+  speakerVoices?: Record<string, string>; // normalized speaker name -> service id
+  outputProfile?: OutputProfile;
+  providerLimits?: Partial<Record<TTSServiceType, ProviderLimits>>;
+  alignmentReview?: AlignmentReviewSettings;
 }
 
 interface TTSService {
@@ -93,14 +136,178 @@ interface SubtitleSettings {
   transcriptionPrompt: string;
   normalizeForTranscription?: boolean;
   useConvertCache?: boolean;
+  stripAssOverrideTags?: boolean;
+  parseSpeakerPrefixes?: boolean;
+  transcriptionProvider?: TranscriptionProvider;
+  whisperBinaryPath?: string;
+  whisperModelPath?: string;
+  whisperLanguage?: string;
+  gapMinDurationMs?: number;
+  ducking?: DuckingSettings;
+  loudnessTarget?: 'off' | 'ebu-r128' | 'atsc-a85' | 'podcast';
+  loudnessTruePeak?: number;
+}
+
+type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+type TranscriptionProvider = 'gemini' | 'whisper';
+
+type DuckingMode = 'sidechain' | 'envelope';
+
+interface DuckingSettings {
+  enabled: boolean;
+  mode: DuckingMode;
+  threshold: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+  depthDb: number;
+  fadeMs: number;
+}
+
+interface DuckingCue {
+  startMs: number;
+  endMs: number;
+  enabled?: boolean;
+  depthDb?: number;
+}
+
+interface MixDuckingOptions {
+  settings?: Partial<DuckingSettings>;
+  cues?: DuckingCue[];
+}
+
+interface LoudnessOptions {
+  integrated: number; // LUFS / LKFS
+  truePeak: number; // dBTP
+  lra: number; // LU
+}
+
+interface LoudnessMeasurement {
+  integrated: number;
+  truePeak: number;
+  lra: number;
+}
+
+interface LoudnessReport {
+  target: LoudnessOptions;
+  input: LoudnessMeasurement;
+  output: LoudnessMeasurement;
+  normalizationType: 'linear' | 'dynamic';
+}
+
+type TTSServiceType = TTSService['type'];
+
+interface ProviderLimits {
+  concurrency: number;
+  ratePerMinute: number;
+}
+
+interface TtsQueueTask {
+  id: string;
+  text: string;
+  outputPath: string;
+  service: TTSService; // speedFactor is the speed to render at
+}
+
+interface TtsQueueOptions {
+  limits?: Partial<Record<TTSServiceType, ProviderLimits>>;
+  maxRetries?: number;
+}
+
+interface TtsQueueTaskResult {
+  id: string;
+  path?: string;
+  error?: string;
+  cancelled?: boolean; // the job was cancelled before this task finished
+  attempts: number;
+}
+
+interface TtsQueueProgressEvent {
+  jobId: string;
+  taskId: string;
+  state: 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+  attempt: number;
+  completed: number;
+  failed: number;
+  total: number;
+  path?: string; // set on 'done'
+  error?: string;
+  retryInMs?: number;
+}
+
+// saveToFile result; status carries the provider's HTTP status so the queue can decide to retry
+interface ProviderSaveResult {
+  success?: boolean;
+  path?: string;
+  error?: string;
+  status?: number;
+}
+
+type OutputFormat = 'mp3' | 'wav' | 'flac' | 'aac' | 'opus';
+
+interface OutputProfile {
+  format: OutputFormat;
+  sampleRate: number;
+  channels: 1 | 2;
+  bitrateKbps: number; // ignored by the lossless formats
+}
+
+type VideoExportMode = 'soft' | 'burn';
+
+interface VideoExportOptions {
+  videoPath: string;
+  subtitleContent: string; // SRT
+  mode: VideoExportMode;
+  outputPath: string;
+  jobId?: string;
+}
+
+interface DescribedAudioMuxOptions {
+  videoPath: string;
+  audioPath: string; // described mix rendered by system:mixAudio
+  outputPath: string;
+  language: string; // ISO 639-2, e.g. "eng"
+  title: string;
+}
+
+type AlignmentConfidence = 'high' | 'medium' | 'low';
+
+interface AlignmentReviewSettings {
+  highScore: number; // at or above: high confidence
+  lowScore: number; // below: low confidence, flagged or skipped
+  lowConfidence: 'flag' | 'skip';
+}
+
+interface AlignPair {
+  video: string;
+  audio: string;
 }
 
 interface AlignmentRunOptions {
   videoPaths: string[];
   audioPaths: string[];
+  pairs?: AlignPair[]; // reviewed pairing from the renderer; lexicographic order when absent
   prepend?: string;
   outputPath?: string | null;
   runId?: string;
+  outputProfile?: OutputProfile;
+  review?: AlignmentReviewSettings;
+}
+
+type AlignmentReportFormat = 'csv' | 'json' | 'html';
+
+// A finished batch as kept in the alignment history
+interface AlignmentRun {
+  id: string;
+  createdAt: string; // ISO timestamp
+  entries: AlignmentReportEntry[];
+}
+
+// Re-render one pair from the review queue with the offsets shifted by nudgeMs
+interface AlignmentMuxRequest {
+  entry: AlignmentReportEntry;
+  nudgeMs: number; // positive delays the audio
+  outputProfile?: OutputProfile;
 }
 
 interface AlignmentRunResult {
@@ -112,13 +319,27 @@ interface AlignmentRunResult {
   outputs?: AlignmentReportEntry[];
 }
 
+interface AlignmentSegment {
+  startMs: number; // video time
+  endMs: number;
+  offsetMs: number | null; // null: the audio has nothing for this stretch
+  score: number;
+}
+
 interface AlignmentReportEntry {
   title: string;
   video: string;
   audio: string;
-  offsetMs: number;
-  score: number;
+  offsetMs: number; // global best offset
+  score: number; // segment scores weighted by duration
+  confidence: AlignmentConfidence;
+  tempo: number; // audio ms per video ms
+  segments: AlignmentSegment[];
+  durationMs: number; // video
+  audioDurationMs: number;
   output: string;
+  skipped?: boolean; // low confidence and not muxed; output is where a re-mux writes
+  reviewed?: boolean; // re-muxed from the review queue
 }
 
 function loadConfig(): TTSConfig {
@@ -141,12 +362,22 @@ function loadConfig(): TTSConfig {
         defaultServiceId: parsed.defaultServiceId ?? null,
         subtitleSettings,
         language: parsed.language || DEFAULT_LANGUAGE,
+        speakerVoices: parsed.speakerVoices || {},
+        outputProfile: parsed.outputProfile,
+        providerLimits: parsed.providerLimits,
+        alignmentReview: parsed.alignmentReview,
       };
     }
   } catch (error) {
     safeError('Error loading config:', error);
   }
-  return { services: [], defaultServiceId: null, subtitleSettings: DEFAULT_SUBTITLE_SETTINGS, language: DEFAULT_LANGUAGE };
+  return {
+    services: [],
+    defaultServiceId: null,
+    subtitleSettings: DEFAULT_SUBTITLE_SETTINGS,
+    language: DEFAULT_LANGUAGE,
+    speakerVoices: {},
+  };
 }
 
 function saveConfig(config: TTSConfig): void {
@@ -165,6 +396,10 @@ function saveConfig(config: TTSConfig): void {
       defaultServiceId: config.defaultServiceId ?? null,
       subtitleSettings,
       language: config.language || DEFAULT_LANGUAGE,
+      speakerVoices: config.speakerVoices || {},
+      outputProfile: config.outputProfile,
+      providerLimits: config.providerLimits,
+      alignmentReview: config.alignmentReview,
     };
     fs.writeFileSync(CONFIG_PATH, JSON.stringify(normalized, null, 2));
   } catch (error) {
@@ -237,6 +472,110 @@ async function adjustAudioSpeed(inputPath: string, outputPath: string, speed: nu
   });
 }
 
+// --- Output profiles ---
+// What mixing and alignment have always produced
+const DEFAULT_OUTPUT_PROFILE: OutputProfile = { format: 'mp3', sampleRate: 48000, channels: 2, bitrateKbps: 320 };
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+const OUTPUT_FORMAT_FILTERS: Record<OutputFormat, { name: string; extensions: string[] }> = {
+  mp3: { name: 'MP3 Audio', extensions: ['mp3'] },
+  wav: { name: 'WAV Audio', extensions: ['wav'] },
+  flac: { name: 'FLAC Audio', extensions: ['flac'] },
+  aac: { name: 'AAC Audio', extensions: ['m4a', 'aac'] },
+  opus: { name: 'Opus Audio', extensions: ['opus', 'ogg'] },
+};
+
+function outputCodecArgs(profile: OutputProfile = DEFAULT_OUTPUT_PROFILE): string[] {
+  const bitrate = ['-b:a', `${profile.bitrateKbps}k`];
+  switch (profile.format) {
+    case 'wav':
+      return ['-c:a', 'pcm_s16le'];
+    case 'flac':
+      return ['-c:a', 'flac'];
+    case 'aac':
+      return ['-c:a', 'aac', ...bitrate];
+    case 'opus':
+      return ['-c:a', 'libopus', ...bitrate];
+    default:
+      return ['-c:a', 'libmp3lame', ...bitrate];
+  }
+}
+
+// ffmpeg encoder arguments (codec, bitrate, rate, channels) for an output profile
+function outputProfileArgs(profile: OutputProfile = DEFAULT_OUTPUT_PROFILE): string[] {
+  const sampleRate =
+    profile.format === 'opus' && !OPUS_SAMPLE_RATES.includes(profile.sampleRate) ? 48000 : profile.sampleRate;
+  return [...outputCodecArgs(profile), '-ar', String(sampleRate), '-ac', String(profile.channels)];
+}
+
+// Encode any audio input to the profile, optionally changing its speed on the way
+async function encodeAudio(
+  inputPath: string,
+  outputPath: string,
+  profile?: OutputProfile,
+  speed?: number
+): Promise<{ success?: boolean; path?: string; error?: string }> {
+  if (!(await checkFfmpeg())) {
+    return { error: 'FFmpeg is required to encode audio.' };
+  }
+  const speedFilter = speed && speed !== 1 ? ['-filter:a', buildAtempoFilter(speed)] : [];
+  return new Promise((resolve) => {
+    const ffmpeg = spawn(
+      'ffmpeg',
+      ['-y', '-i', inputPath, ...speedFilter, '-vn', ...outputProfileArgs(profile), outputPath],
+      { windowsHide: true }
+    );
+    let errorOutput = '';
+    ffmpeg.stderr.on('data', (d) => (errorOutput += d.toString()));
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve({ success: true, path: outputPath });
+      } else {
+        resolve({ error: `FFmpeg encoding failed: ${errorOutput.slice(-4000)}` });
+      }
+    });
+    ffmpeg.on('error', (err) => resolve({ error: err.message }));
+  });
+}
+
+/**
+ * Write audio returned by a cloud provider. Without a profile the provider's own encoding is
+ * kept as before; with one the audio is re-encoded to it.
+ */
+async function writeProviderAudio(
+  audio: Buffer,
+  tempPrefix: string,
+  sourceExt: string,
+  outputPath: string,
+  speed?: number,
+  profile?: OutputProfile
+): Promise<{ success?: boolean; path?: string; error?: string }> {
+  if (profile && !(await checkFfmpeg())) {
+    if (profile.format !== sourceExt) {
+      return { error: 'FFmpeg is required to encode to the selected output profile.' };
+    }
+    // Already in the profile's format, only its rate and bitrate cannot be applied
+    safeWarn(`[Output] FFmpeg not found, keeping the provider's ${sourceExt} encoding for ${outputPath}`);
+    profile = undefined;
+  }
+  const changeSpeed = !!speed && speed !== 1;
+  if (!changeSpeed && !profile) {
+    fs.writeFileSync(outputPath, audio);
+    return { success: true, path: outputPath };
+  }
+  const tempPath = path.join(app.getPath('temp'), `${tempPrefix}-${Date.now()}.${sourceExt}`);
+  fs.writeFileSync(tempPath, audio);
+  try {
+    const result = profile
+      ? await encodeAudio(tempPath, outputPath, profile, speed)
+      : await adjustAudioSpeed(tempPath, outputPath, speed!);
+    if (!result.success) return { error: result.error };
+    return { success: true, path: outputPath };
+  } finally {
+    try { fs.unlinkSync(tempPath); } catch (e) {} // Clean up temp
+  }
+}
+
 // Register custom app:// protocol for serving static files (much faster than HTTP server)
 function registerAppProtocol() {
   const clientPath = path.join(__dirname, '../build/client');
@@ -391,8 +730,9 @@ ipcMain.handle('azure:speak', async (_, text: string, voiceId: string, apiKey: s
   }
 });
 
-ipcMain.handle('azure:saveToFile', async (_, text: string, voiceId: string, apiKey: string, region: string, outputPath: string, speed?: number) => {
+async function azureSaveToFile(text: string, voiceId: string, apiKey: string, region: string, outputPath: string, speed?: number, profile?: OutputProfile): Promise<ProviderSaveResult> {
   try {
+    const reencode = !!profile && (await checkFfmpeg());
     const ssml = `
       <speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="en-US">
         <voice name="${voiceId}">${text}</voice>
@@ -406,35 +746,28 @@ ipcMain.handle('azure:saveToFile', async (_, text: string, voiceId: string, apiK
         headers: {
           'Ocp-Apim-Subscription-Key': apiKey,
           'Content-Type': 'application/ssml+xml',
-          // Higher quality output
-          'X-Microsoft-OutputFormat': 'audio-48khz-192kbitrate-mono-mp3',
+          // Higher quality output; uncompressed when it is re-encoded to an output profile
+          'X-Microsoft-OutputFormat': reencode ? 'riff-48khz-16bit-mono-pcm' : 'audio-48khz-192kbitrate-mono-mp3',
         },
         body: ssml,
       }
     );
 
     if (!response.ok) {
-      return { error: `Azure API error: ${response.status}` };
+      return { error: `Azure API error: ${response.status}`, status: response.status };
     }
 
     const audioBuffer = Buffer.from(await response.arrayBuffer());
     
-    if (speed && speed !== 1) {
-        const tempPath = path.join(app.getPath('temp'), `azure-temp-save-${Date.now()}.mp3`);
-        fs.writeFileSync(tempPath, audioBuffer);
-        const result = await adjustAudioSpeed(tempPath, outputPath, speed);
-        try { fs.unlinkSync(tempPath); } catch (e) {} // Clean up temp
-        
-        if (!result.success) return { error: result.error };
-        return { success: true, path: outputPath };
-    } else {
-        fs.writeFileSync(outputPath, audioBuffer);
-        return { success: true, path: outputPath };
-    }
+    return await writeProviderAudio(audioBuffer, 'azure-temp-save', reencode ? 'wav' : 'mp3', outputPath, speed, profile);
   } catch (error) {
     return { error: (error as Error).message };
   }
-});
+}
+
+ipcMain.handle('azure:saveToFile', (_, text: string, voiceId: string, apiKey: string, region: string, outputPath: string, speed?: number, profile?: OutputProfile) =>
+  azureSaveToFile(text, voiceId, apiKey, region, outputPath, speed, profile)
+);
 
 // ElevenLabs TTS
 ipcMain.handle('elevenlabs:getVoices', async (_, apiKey: string) => {
@@ -531,7 +864,7 @@ ipcMain.handle('elevenlabs:speak', async (_, text: string, voiceId: string, apiK
   }
 });
 
-ipcMain.handle('elevenlabs:saveToFile', async (_, text: string, voiceId: string, apiKey: string, outputPath: string, modelId?: string, speed?: number) => {
+async function elevenLabsSaveToFile(text: string, voiceId: string, apiKey: string, outputPath: string, modelId?: string, speed?: number, profile?: OutputProfile): Promise<ProviderSaveResult> {
   try {
     safeLog(`[ElevenLabs] Saving to file with voice: ${voiceId}, model: ${modelId || 'eleven_multilingual_v2'}`);
     const response = await fetch(
@@ -567,27 +900,20 @@ ipcMain.handle('elevenlabs:saveToFile', async (_, text: string, voiceId: string,
       } catch {
         // Use default error message
       }
-      return { error: errorMessage };
+      return { error: errorMessage, status: response.status };
     }
 
     const audioBuffer = Buffer.from(await response.arrayBuffer());
 
-    if (speed && speed !== 1) {
-        const tempPath = path.join(app.getPath('temp'), `elevenlabs-temp-save-${Date.now()}.mp3`);
-        fs.writeFileSync(tempPath, audioBuffer);
-        const result = await adjustAudioSpeed(tempPath, outputPath, speed);
-        try { fs.unlinkSync(tempPath); } catch (e) {} // Clean up temp
-        
-        if (!result.success) return { error: result.error };
-        return { success: true, path: outputPath };
-    } else {
-        fs.writeFileSync(outputPath, audioBuffer);
-        return { success: true, path: outputPath };
-    }
+    return await writeProviderAudio(audioBuffer, 'elevenlabs-temp-save', 'mp3', outputPath, speed, profile);
   } catch (error) {
     return { error: (error as Error).message };
   }
-});
+}
+
+ipcMain.handle('elevenlabs:saveToFile', (_, text: string, voiceId: string, apiKey: string, outputPath: string, modelId?: string, speed?: number, profile?: OutputProfile) =>
+  elevenLabsSaveToFile(text, voiceId, apiKey, outputPath, modelId, speed, profile)
+);
 
 // Google Cloud TTS
 ipcMain.handle('google:getVoices', async (_, apiKey: string) => {
@@ -654,7 +980,7 @@ ipcMain.handle('google:speak', async (_, text: string, voiceId: string, apiKey:
   }
 });
 
-ipcMain.handle('google:saveToFile', async (_, text: string, voiceId: string, apiKey: string, outputPath: string, speed?: number) => {
+async function googleSaveToFile(text: string, voiceId: string, apiKey: string, outputPath: string, speed?: number, profile?: OutputProfile): Promise<ProviderSaveResult> {
   try {
     const languageCode = voiceId.split('-').slice(0, 2).join('-');
 
@@ -674,28 +1000,21 @@ ipcMain.handle('google:saveToFile', async (_, text: string, voiceId: string, api
     );
 
     if (!response.ok) {
-      return { error: `Google API error: ${response.status}` };
+      return { error: `Google API error: ${response.status}`, status: response.status };
     }
 
     const data = await response.json();
     const audioBuffer = Buffer.from(data.audioContent, 'base64');
 
-    if (speed && speed !== 1) {
-        const tempPath = path.join(app.getPath('temp'), `google-temp-save-${Date.now()}.mp3`);
-        fs.writeFileSync(tempPath, audioBuffer);
-        const result = await adjustAudioSpeed(tempPath, outputPath, speed);
-        try { fs.unlinkSync(tempPath); } catch (e) {} // Clean up temp
-        
-        if (!result.success) return { error: result.error };
-        return { success: true, path: outputPath };
-    } else {
-        fs.writeFileSync(outputPath, audioBuffer);
-        return { success: true, path: outputPath };
-    }
+    return await writeProviderAudio(audioBuffer, 'google-temp-save', 'mp3', outputPath, speed, profile);
   } catch (error) {
     return { error: (error as Error).message };
   }
-});
+}
+
+ipcMain.handle('google:saveToFile', (_, text: string, voiceId: string, apiKey: string, outputPath: string, speed?: number, profile?: OutputProfile) =>
+  googleSaveToFile(text, voiceId, apiKey, outputPath, speed, profile)
+);
 
 // Gemini TTS & Transcription
 ipcMain.handle('gemini:getVoices', async () => {
@@ -769,7 +1088,7 @@ ipcMain.handle('gemini:speak', async (_, text: string, voiceId: string, apiKey:
   }
 });
 
-ipcMain.handle('gemini:saveToFile', async (_, text: string, voiceId: string, apiKey: string, outputPath: string, stylePrompt?: string, speed?: number) => {
+async function geminiSaveToFile(text: string, voiceId: string, apiKey: string, outputPath: string, stylePrompt?: string, speed?: number, profile?: OutputProfile): Promise<ProviderSaveResult> {
 
   try {
 
@@ -825,7 +1144,7 @@ ipcMain.handle('gemini:saveToFile', async (_, text: string, voiceId: string, api
 
       safeError(`[Gemini] API Error (${response.status}):`, errorText);
 
-      return { error: `Gemini API error: ${response.status} - ${errorText}` };
+      return { error: `Gemini API error: ${response.status} - ${errorText}`, status: response.status };
 
     }
 
@@ -847,18 +1166,7 @@ ipcMain.handle('gemini:saveToFile', async (_, text: string, voiceId: string, api
 
     const audioData = Buffer.from(part.inlineData.data, 'base64');
 
-    if (speed && speed !== 1) {
-        const tempPath = path.join(app.getPath('temp'), `gemini-temp-save-${Date.now()}.mp3`);
-        fs.writeFileSync(tempPath, audioData);
-        const result = await adjustAudioSpeed(tempPath, outputPath, speed);
-        try { fs.unlinkSync(tempPath); } catch (e) {} // Clean up temp
-        
-        if (!result.success) return { error: result.error };
-        return { success: true, path: outputPath };
-    } else {
-        fs.writeFileSync(outputPath, audioData);
-        return { success: true, path: outputPath };
-    }
+    return await writeProviderAudio(audioData, 'gemini-temp-save', 'mp3', outputPath, speed, profile);
 
   } catch (error) {
 
@@ -868,7 +1176,11 @@ ipcMain.handle('gemini:saveToFile', async (_, text: string, voiceId: string, api
 
   }
 
-});
+}
+
+ipcMain.handle('gemini:saveToFile', (_, text: string, voiceId: string, apiKey: string, outputPath: string, stylePrompt?: string, speed?: number, profile?: OutputProfile) =>
+  geminiSaveToFile(text, voiceId, apiKey, outputPath, stylePrompt, speed, profile)
+);
 
 async function extractAudioSegment(
   inputPath: string,
@@ -925,95 +1237,417 @@ async function extractAudioSegment(
   return { error: result.error || 'Failed to extract audio segment.', tempDir };
 }
 
-ipcMain.handle(
-  'gemini:transcribe',
-  async (
-    _,
-    audioPath: string,
-    apiKey: string,
-    prompt?: string,
-    startMs?: number,
-    endMs?: number,
-    normalizeAudio: boolean = true
-  ) => {
-  let tempDir: string | undefined;
-  let sourcePath = audioPath;
-  try {
-    if (typeof startMs === 'number' && typeof endMs === 'number') {
-      const segment = await extractAudioSegment(audioPath, startMs, endMs);
-      if (segment.error || !segment.segmentPath) {
-        return { error: segment.error || 'Could not extract audio segment.' };
-      }
-      sourcePath = segment.segmentPath;
-      tempDir = segment.tempDir;
-    } else if (startMs !== undefined || endMs !== undefined) {
-      return { error: 'Both start and end times are required for segmented transcription.' };
-    } else if (normalizeAudio !== false) {
-      const prepared = await prepareAudioForGemini(audioPath);
-      if (prepared.error || !prepared.path) {
-        return { error: prepared.error || 'Could not prepare audio for transcription.' };
+interface TranscriptionRequest {
+  provider: TranscriptionProvider;
+  apiKey?: string;
+  prompt?: string;
+  startMs?: number;
+  endMs?: number;
+  normalizeAudio?: boolean;
+  whisperBinaryPath?: string;
+  whisperModelPath?: string;
+  whisperLanguage?: string;
+}
+
+interface TranscriptionResult {
+  text?: string;
+  error?: string;
+}
+
+interface TranscriptionSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+interface TimedTranscriptionResult {
+  segments?: TranscriptionSegment[];
+  error?: string;
+}
+
+// A backend receives audio that has already been cut/normalized by prepareTranscriptionSource
+interface TranscriptionBackend {
+  label: string;
+  transcribe(sourcePath: string, request: TranscriptionRequest): Promise<TranscriptionResult>;
+  // Segment times are relative to the start of sourcePath
+  transcribeSegments(sourcePath: string, request: TranscriptionRequest): Promise<TimedTranscriptionResult>;
+}
+
+const GEMINI_SEGMENTS_PROMPT =
+  'Transcribe this audio into subtitle cues. Respond with only a JSON array where each item is ' +
+  '{"start": <seconds>, "end": <seconds>, "text": "<spoken text>"}. Times are measured from the start of the audio. ' +
+  'Keep each cue under 7 seconds and split at natural pauses. Omit silent or music-only stretches.';
+
+// Inline audio is capped at about 20 MB per request, roughly 15 minutes of MP3 once base64-encoded
+const GEMINI_WINDOW_MS = 8 * 60 * 1000;
+// Context on both sides of a window so cues crossing a boundary come back whole
+const GEMINI_WINDOW_OVERLAP_MS = 10 * 1000;
+
+// The API accepts thinkingConfig; this SDK version does not type it yet
+type GeminiGenerationConfig = GenerationConfig & { thinkingConfig?: { thinkingBudget: number } };
+
+async function generateGeminiContent(
+  apiKey: string,
+  sourcePath: string,
+  prompt: string,
+  responseMimeType?: string
+): Promise<string> {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  // Use the latest available Gemini 2.5 Flash model for transcription
+  const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+
+  const audioData = fs.readFileSync(sourcePath);
+  const base64Audio = audioData.toString('base64');
+
+  const parts: Part[] = [
+    {
+      inlineData: {
+        mimeType: 'audio/mp3', // Assuming MP3 or broad compatibility. Gemini is good at detecting.
+        data: base64Audio
       }
-      sourcePath = prepared.path;
-      tempDir = prepared.tempDir;
+    },
+    { text: prompt },
+  ];
+
+  const generationConfig: GeminiGenerationConfig = {
+    ...(responseMimeType ? { responseMimeType } : {}),
+    thinkingConfig: {
+      thinkingBudget: 0
     }
+  };
+  const result = await model.generateContent({
+    contents: [{ role: 'user', parts }],
+    generationConfig,
+  });
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    // Use the latest available Gemini 2.5 Flash model for transcription
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+  const response = await result.response;
+  return response.text();
+}
 
-    const audioData = fs.readFileSync(sourcePath);
-    const base64Audio = audioData.toString('base64');
+/**
+ * Run one Gemini request per window of sourcePath so long media stays under the inline size limit.
+ * Short sources go through in a single request without re-encoding.
+ */
+async function forEachGeminiWindow<T>(
+  sourcePath: string,
+  overlapMs: number,
+  run: (windowPath: string, window: { startMs: number; endMs: number; cutFromMs: number }) => Promise<T>
+): Promise<T[]> {
+  const durationMs = Math.round((await getAudioDuration(sourcePath)) * 1000);
+  if (durationMs <= GEMINI_WINDOW_MS + overlapMs) {
+    return [await run(sourcePath, { startMs: 0, endMs: Infinity, cutFromMs: 0 })];
+  }
 
-    const parts: any[] = [
-      {
-        inlineData: {
-          mimeType: 'audio/mp3', // Assuming MP3 or broad compatibility. Gemini is good at detecting.
-          data: base64Audio
-        }
+  const results: T[] = [];
+  for (let startMs = 0; startMs < durationMs; startMs += GEMINI_WINDOW_MS) {
+    const cutFromMs = Math.max(0, startMs - overlapMs);
+    const segment = await extractAudioSegment(
+      sourcePath,
+      cutFromMs,
+      Math.min(durationMs, startMs + GEMINI_WINDOW_MS + overlapMs)
+    );
+    try {
+      if (segment.error || !segment.segmentPath) {
+        throw new Error(segment.error || 'Could not cut the audio for transcription.');
       }
-    ];
-
-    if (prompt) {
-      parts.push({ text: prompt });
-    } else {
-      parts.push({
-        text: 'Transcribe this audio. You can also translate by specifying the desired output language and format.',
-      });
+      results.push(
+        await run(segment.segmentPath, { startMs, endMs: startMs + GEMINI_WINDOW_MS, cutFromMs })
+      );
+    } finally {
+      if (segment.tempDir) fs.rmSync(segment.tempDir, { recursive: true, force: true });
     }
+  }
+  return results;
+}
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts }],
-      generationConfig: {
-        thinkingConfig: {
-          thinkingBudget: 0
-        }
-      } as any
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Accepts seconds as a number or a "[HH:]MM:SS[.,]mmm" string
+function parseSegmentTime(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.round(value * 1000);
+  }
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(?:(\d+):)?(\d+):(\d+(?:[.,]\d+)?)$/);
+  if (!match) {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) ? Math.round(seconds * 1000) : null;
+  }
+  const [, h, m, s] = match;
+  return Math.round(((Number(h || 0) * 60 + Number(m)) * 60 + Number(s.replace(',', '.'))) * 1000);
+}
+
+function parseGeminiSegments(raw: string): TranscriptionSegment[] {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  const parsed: unknown = JSON.parse(cleaned);
+  const items: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.segments : undefined;
+  if (!Array.isArray(items)) {
+    throw new Error('Gemini did not return a list of timed segments.');
+  }
+  const segments: TranscriptionSegment[] = [];
+  for (const item of items as unknown[]) {
+    if (!isRecord(item)) continue;
+    const startMs = parseSegmentTime(item.start);
+    const endMs = parseSegmentTime(item.end);
+    const text = typeof item.text === 'string' ? item.text.trim() : '';
+    if (startMs === null || endMs === null || !text) continue;
+    segments.push({ startMs, endMs, text });
+  }
+  return segments;
+}
+
+const geminiTranscriptionBackend: TranscriptionBackend = {
+  label: 'Gemini',
+  async transcribe(sourcePath, request) {
+    if (!request.apiKey) {
+      return { error: 'A Gemini API key is required for transcription.' };
+    }
+    const apiKey = request.apiKey;
+    const prompt =
+      request.prompt ||
+      'Transcribe this audio. You can also translate by specifying the desired output language and format.';
+    // Plain text cannot be de-duplicated across windows, so these do not overlap
+    const texts = await forEachGeminiWindow(sourcePath, 0, (windowPath) =>
+      generateGeminiContent(apiKey, windowPath, prompt)
+    );
+    return { text: texts.map((text) => text.trim()).join('\n') };
+  },
+  async transcribeSegments(sourcePath, request) {
+    if (!request.apiKey) {
+      return { error: 'A Gemini API key is required for transcription.' };
+    }
+    // The user's prompt is passed along so output language/formatting preferences still apply
+    const prompt = request.prompt
+      ? `${GEMINI_SEGMENTS_PROMPT}\nAdditional instructions for the cue text: ${request.prompt}`
+      : GEMINI_SEGMENTS_PROMPT;
+    const apiKey = request.apiKey;
+    const windows = await forEachGeminiWindow(sourcePath, GEMINI_WINDOW_OVERLAP_MS, async (windowPath, window) => {
+      const raw = await generateGeminiContent(apiKey, windowPath, prompt, 'application/json');
+      // Shift onto the source timeline; each window keeps only the cues that start inside it
+      return parseGeminiSegments(raw)
+        .map((segment) => ({
+          ...segment,
+          startMs: segment.startMs + window.cutFromMs,
+          endMs: segment.endMs + window.cutFromMs,
+        }))
+        .filter((segment) => segment.startMs >= window.startMs && segment.startMs < window.endMs);
     });
+    return { segments: windows.flat() };
+  },
+};
 
-    const response = await result.response;
-    const text = response.text();
+async function findWhisperBinary(configured?: string): Promise<string | null> {
+  const candidates = [configured, process.env.WHISPER_CPP_BIN, 'whisper-cli', 'whisper-cpp'].filter(
+    (candidate): candidate is string => !!candidate
+  );
+  for (const candidate of candidates) {
+    const result = await runCommand(candidate, ['--help']);
+    // whisper.cpp prints usage and may exit non-zero for --help; only a spawn failure means "missing"
+    if (result.code !== -1) return candidate;
+  }
+  return null;
+}
+
+// Runs whisper.cpp once and returns the contents of the requested output file (txt or json)
+async function runWhisper(
+  sourcePath: string,
+  request: TranscriptionRequest,
+  output: 'txt' | 'json'
+): Promise<{ content?: string; error?: string }> {
+  const modelPath = request.whisperModelPath || process.env.WHISPER_CPP_MODEL;
+  if (!modelPath || !fs.existsSync(modelPath)) {
+    return { error: 'A whisper.cpp model file (ggml-*.bin) is required for offline transcription.' };
+  }
+  const binary = await findWhisperBinary(request.whisperBinaryPath);
+  if (!binary) {
+    return { error: 'whisper.cpp was not found. Install whisper-cli or set its path in Settings.' };
+  }
 
+  // whisper.cpp only reads 16 kHz mono PCM WAV
+  const wav = await extractAudioToWav(sourcePath);
+  if (wav.error || !wav.wavPath) {
+    return { error: wav.error || 'Could not convert audio for Whisper.' };
+  }
+  const workDir = path.dirname(wav.wavPath);
+  try {
+    const outputBase = path.join(workDir, 'transcript');
+    const result = await runCommand(binary, [
+      '-m',
+      modelPath,
+      '-f',
+      wav.wavPath,
+      '-l',
+      request.whisperLanguage || 'auto',
+      // Timed output needs the per-segment offsets, so only plain text drops timestamps
+      ...(output === 'json' ? ['-oj'] : ['-nt', '-otxt']),
+      '-of',
+      outputBase,
+    ]);
+    const outputPath = `${outputBase}.${output}`;
+    if (result.code !== 0 || !fs.existsSync(outputPath)) {
+      return { error: result.stderr || `whisper.cpp exited with code ${result.code}` };
+    }
+    return { content: fs.readFileSync(outputPath, 'utf-8') };
+  } finally {
+    try {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    } catch (err) {
+      safeWarn('[Whisper] Failed to clean temp dir:', err);
+    }
+  }
+}
+
+const whisperTranscriptionBackend: TranscriptionBackend = {
+  label: 'Whisper',
+  async transcribe(sourcePath, request) {
+    const result = await runWhisper(sourcePath, request, 'txt');
+    if (result.error || result.content === undefined) {
+      return { error: result.error };
+    }
+    const text = result.content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join('\n');
     return { text };
+  },
+  async transcribeSegments(sourcePath, request) {
+    const result = await runWhisper(sourcePath, request, 'json');
+    if (result.error || result.content === undefined) {
+      return { error: result.error };
+    }
+    const parsed: unknown = JSON.parse(result.content);
+    const entries: unknown[] = isRecord(parsed) && Array.isArray(parsed.transcription) ? parsed.transcription : [];
+    const segments: TranscriptionSegment[] = entries
+      .filter(isRecord)
+      .map((entry) => {
+        const offsets = isRecord(entry.offsets) ? entry.offsets : {};
+        return {
+          startMs: typeof offsets.from === 'number' ? offsets.from : NaN,
+          endMs: typeof offsets.to === 'number' ? offsets.to : NaN,
+          text: typeof entry.text === 'string' ? entry.text.trim() : '',
+        };
+      })
+      .filter((segment) => Number.isFinite(segment.startMs) && Number.isFinite(segment.endMs) && segment.text);
+    return { segments };
+  },
+};
+
+const TRANSCRIPTION_BACKENDS: Record<TranscriptionProvider, TranscriptionBackend> = {
+  gemini: geminiTranscriptionBackend,
+  whisper: whisperTranscriptionBackend,
+};
+
+async function prepareTranscriptionSource(
+  audioPath: string,
+  startMs?: number,
+  endMs?: number,
+  normalizeAudio: boolean = true
+): Promise<{ sourcePath?: string; tempDir?: string; error?: string }> {
+  if (typeof startMs === 'number' && typeof endMs === 'number') {
+    const segment = await extractAudioSegment(audioPath, startMs, endMs);
+    if (segment.error || !segment.segmentPath) {
+      return { error: segment.error || 'Could not extract audio segment.', tempDir: segment.tempDir };
+    }
+    return { sourcePath: segment.segmentPath, tempDir: segment.tempDir };
+  }
+  if (startMs !== undefined || endMs !== undefined) {
+    return { error: 'Both start and end times are required for segmented transcription.' };
+  }
+  if (normalizeAudio !== false) {
+    const prepared = await prepareAudioForGemini(audioPath);
+    if (prepared.error || !prepared.path) {
+      return { error: prepared.error || 'Could not prepare audio for transcription.' };
+    }
+    return { sourcePath: prepared.path, tempDir: prepared.tempDir };
+  }
+  return { sourcePath: audioPath };
+}
+
+async function runTranscription<T extends { error?: string }>(
+  audioPath: string,
+  request: TranscriptionRequest,
+  run: (backend: TranscriptionBackend, sourcePath: string) => Promise<T>
+): Promise<T | { error: string }> {
+  const backend = TRANSCRIPTION_BACKENDS[request.provider];
+  if (!backend) {
+    return { error: `Unknown transcription provider: ${request.provider}` };
+  }
+  let tempDir: string | undefined;
+  try {
+    const prepared = await prepareTranscriptionSource(
+      audioPath,
+      request.startMs,
+      request.endMs,
+      request.normalizeAudio
+    );
+    tempDir = prepared.tempDir;
+    if (prepared.error || !prepared.sourcePath) {
+      return { error: prepared.error || 'Could not prepare audio for transcription.' };
+    }
+    return await run(backend, prepared.sourcePath);
   } catch (error) {
-    safeError('[Gemini] Transcribe Error:', error);
+    safeError(`[${backend.label}] Transcribe Error:`, error);
     return { error: (error as Error).message };
   } finally {
     // Clean up temporary segment directory if created
-    // Delayed cleanup happens here after reading the segment
     if (tempDir) {
       try {
         fs.rmSync(tempDir, { recursive: true, force: true });
       } catch (err) {
-        safeWarn('[Gemini] Failed to clean temp segment dir:', err);
+        safeWarn(`[${backend.label}] Failed to clean temp segment dir:`, err);
       }
     }
   }
+}
+
+async function runTimedTranscription(audioPath: string, request: TranscriptionRequest): Promise<TimedTranscriptionResult> {
+  const result = await runTranscription(audioPath, request, (backend, sourcePath) =>
+    backend.transcribeSegments(sourcePath, request)
+  );
+  if (result.error || !('segments' in result) || !result.segments) {
+    return { error: result.error || 'No timed segments were returned.' };
+  }
+  // Shift back onto the media timeline when only a range was transcribed
+  const offsetMs = typeof request.startMs === 'number' ? request.startMs : 0;
+  const segments = result.segments
+    .map((segment) => ({
+      startMs: Math.max(0, segment.startMs + offsetMs),
+      endMs: Math.max(0, segment.endMs + offsetMs),
+      text: segment.text,
+    }))
+    .filter((segment) => segment.endMs > segment.startMs)
+    .sort((a, b) => a.startMs - b.startMs);
+  return { segments };
+}
+
+ipcMain.handle(
+  'gemini:transcribe',
+  async (
+    _,
+    audioPath: string,
+    apiKey: string,
+    prompt?: string,
+    startMs?: number,
+    endMs?: number,
+    normalizeAudio: boolean = true
+  ) => {
+    const request: TranscriptionRequest = { provider: 'gemini', apiKey, prompt, startMs, endMs, normalizeAudio };
+    return runTranscription(audioPath, request, (backend, sourcePath) => backend.transcribe(sourcePath, request));
   }
 );
 
-// --- Alignment helpers (JS implementation, no Python) ---
-function parseWavPcm16(filePath: string): { samples: Float32Array; sampleRate: number } {
-  const buf = fs.readFileSync(filePath);
+ipcMain.handle('transcription:transcribe', async (_, audioPath: string, request: TranscriptionRequest) =>
+  runTranscription(audioPath, request, (backend, sourcePath) => backend.transcribe(sourcePath, request))
+);
+
+ipcMain.handle('transcription:transcribeTimed', async (_, audioPath: string, request: TranscriptionRequest) =>
+  runTimedTranscription(audioPath, request)
+);
+
+// --- Alignment helpers (JS implementation, no Python) ---
+function parseWavPcm16(filePath: string): { samples: Float32Array; sampleRate: number } {
+  const buf = fs.readFileSync(filePath);
   if (buf.toString('ascii', 0, 4) !== 'RIFF' || buf.toString('ascii', 8, 12) !== 'WAVE') {
     throw new Error('Unsupported WAV format');
   }
@@ -1109,58 +1743,841 @@ function computeEnergyProfile(wavPath: string) {
     energies.push(Math.log10(1 + acc / hannNorm));
     idx += hop;
   }
-  return { energies, hopMs };
+  return { energies, hopMs, durationMs: (samples.length / sampleRate) * 1000 };
 }
 
-function normalizeSeries(values: number[]): { data: Float32Array; mean: number; std: number } {
+function normalizeSeries(values: ArrayLike<number>): { data: Float32Array; mean: number; std: number } {
   const n = values.length || 1;
-  const mean = values.reduce((a, b) => a + b, 0) / n;
-  const varSum = values.reduce((a, b) => a + (b - mean) ** 2, 0) / n;
-  const std = Math.max(Math.sqrt(varSum), 1e-6);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  const mean = sum / n;
+  let varSum = 0;
+  for (let i = 0; i < values.length; i++) varSum += (values[i] - mean) ** 2;
+  const std = Math.max(Math.sqrt(varSum / n), 1e-6);
   const data = new Float32Array(values.length);
   for (let i = 0; i < values.length; i++) data[i] = (values[i] - mean) / std;
   return { data, mean, std };
 }
 
-function findBestOffset(a: number[], b: number[], hopMs: number) {
+/**
+ * Onset envelope for alignment: log-compressed spectral flux every ALIGN_HOP_MS, minus its one-second
+ * moving average. Unlike plain energy it peaks on note and effect onsets, so music-heavy and noisy
+ * tracks still correlate sharply.
+ */
+function computeOnsetEnvelope(wavPath: string) {
+  const { samples, sampleRate } = parseWavPcm16(wavPath);
+  const size = ALIGN_ONSET_FFT_SIZE;
+  const half = size / 2;
+  const hop = Math.max(1, Math.round((sampleRate * ALIGN_HOP_MS) / 1000));
+  const frameCount = Math.max(0, Math.floor((samples.length - size) / hop) + 1);
+  const hann = new Float64Array(size);
+  for (let i = 0; i < size; i++) hann[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+
+  const flux = new Float32Array(frameCount);
+  let previous = new Float64Array(half);
+  let current = new Float64Array(half);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const addFrame = (frame: number) => {
+    let sum = 0;
+    for (let k = 1; k < half; k++) {
+      const diff = current[k] - previous[k];
+      if (diff > 0) sum += diff;
+    }
+    flux[frame] = frame > 0 ? sum : 0;
+    [previous, current] = [current, previous];
+  };
+  // Two real frames per complex FFT: frame f in the real part, f + 1 in the imaginary part
+  for (let f = 0; f < frameCount; f += 2) {
+    const second = f + 1 < frameCount;
+    for (let i = 0; i < size; i++) {
+      re[i] = samples[f * hop + i] * hann[i];
+      im[i] = second ? samples[(f + 1) * hop + i] * hann[i] : 0;
+    }
+    fftInPlace(re, im);
+    for (let k = 1; k < half; k++) {
+      const sumRe = (re[k] + re[size - k]) / 2;
+      const diffIm = (im[k] - im[size - k]) / 2;
+      current[k] = Math.log1p(ALIGN_ONSET_COMPRESSION * Math.sqrt(sumRe * sumRe + diffIm * diffIm));
+    }
+    addFrame(f);
+    if (!second) break;
+    for (let k = 1; k < half; k++) {
+      const sumIm = (im[k] + im[size - k]) / 2;
+      const diffRe = (re[k] - re[size - k]) / 2;
+      current[k] = Math.log1p(ALIGN_ONSET_COMPRESSION * Math.sqrt(sumIm * sumIm + diffRe * diffRe));
+    }
+    addFrame(f + 1);
+  }
+
+  const radius = Math.round(500 / ALIGN_HOP_MS);
+  const prefix = new Float64Array(frameCount + 1);
+  for (let i = 0; i < frameCount; i++) prefix[i + 1] = prefix[i] + flux[i];
+  const envelope = new Float32Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    const lo = Math.max(0, i - radius);
+    const hi = Math.min(frameCount, i + radius + 1);
+    envelope[i] = Math.max(0, flux[i] - (prefix[hi] - prefix[lo]) / (hi - lo));
+  }
+  return { envelope, hopMs: (hop / sampleRate) * 1000, durationMs: (samples.length / sampleRate) * 1000 };
+}
+
+// r[k] = sum over i of x[i] * y[i + k] for k in [0, y.length - x.length], via one FFT size for both
+function crossCorrelate(x: ArrayLike<number>, y: ArrayLike<number>) {
+  let size = 1;
+  while (size < y.length) size <<= 1;
+  const xRe = new Float64Array(size);
+  const xIm = new Float64Array(size);
+  const yRe = new Float64Array(size);
+  const yIm = new Float64Array(size);
+  for (let i = 0; i < x.length; i++) xRe[i] = x[i];
+  for (let i = 0; i < y.length; i++) yRe[i] = y[i];
+  fftInPlace(xRe, xIm);
+  fftInPlace(yRe, yIm);
+  // conj(X) * Y, conjugated again so the forward FFT computes the inverse
+  for (let k = 0; k < size; k++) {
+    const re = xRe[k] * yRe[k] + xIm[k] * yIm[k];
+    const im = xRe[k] * yIm[k] - xIm[k] * yRe[k];
+    yRe[k] = re;
+    yIm[k] = -im;
+  }
+  fftInPlace(yRe, yIm);
+  const out = new Float64Array(Math.max(0, y.length - x.length + 1));
+  for (let k = 0; k < out.length; k++) out[k] = yRe[k] / size;
+  return out;
+}
+
+// Fractional position of the peak at index i from a parabola through its neighbours
+function refinePeak(scores: ArrayLike<number>, i: number) {
+  if (i <= 0 || i >= scores.length - 1) return i;
+  const left = scores[i - 1];
+  const right = scores[i + 1];
+  const curvature = left - 2 * scores[i] + right;
+  if (!Number.isFinite(curvature) || curvature >= 0) return i;
+  return i + Math.max(-0.5, Math.min(0.5, (left - right) / (2 * curvature)));
+}
+
+function findBestOffset(a: ArrayLike<number>, b: ArrayLike<number>, hopMs: number) {
   const { data: aNorm } = normalizeSeries(a);
   const { data: bNorm } = normalizeSeries(b);
   const maxSteps = Math.floor(ALIGN_MAX_OFFSET_MS / hopMs);
-  let best = { offsetMs: 0, score: -Infinity };
-  for (let step = -maxSteps; step <= maxSteps; step++) {
-    let sum = 0;
-    let count = 0;
-    const aStart = Math.max(0, -step);
-    const bStart = Math.max(0, step);
-    const len = Math.min(aNorm.length - aStart, bNorm.length - bStart);
-    for (let i = 0; i < len; i++) {
-      sum += aNorm[aStart + i] * bNorm[bStart + i];
+  // b padded by maxSteps on both sides so every lag in the search window is one correlation index
+  const padded = new Float32Array(aNorm.length + 2 * maxSteps);
+  for (let i = 0; i < padded.length; i++) {
+    const j = i - maxSteps;
+    if (j >= 0 && j < bNorm.length) padded[i] = bNorm[j];
+  }
+  const sums = crossCorrelate(aNorm, padded);
+  const minOverlap = Math.min(aNorm.length, bNorm.length) / 2;
+  const scores = new Float64Array(sums.length).fill(-Infinity);
+  let bestIndex = -1;
+  for (let k = 0; k < sums.length; k++) {
+    const step = k - maxSteps;
+    const overlap = Math.min(aNorm.length, bNorm.length - step) - Math.max(0, -step);
+    if (overlap < minOverlap) continue;
+    scores[k] = sums[k] / overlap;
+    if (bestIndex < 0 || scores[k] > scores[bestIndex]) bestIndex = k;
+  }
+  if (bestIndex < 0) return { offsetMs: 0, score: -Infinity };
+  return { offsetMs: (refinePeak(scores, bestIndex) - maxSteps) * hopMs, score: scores[bestIndex] };
+}
+
+// --- Drift-correcting alignment ---
+// Video time t plays audio at (t + offsetMs) * tempo; a null offset renders silence
+interface AlignmentWindow {
+  startMs: number;
+  endMs: number;
+  offsetMs: number;
+  score: number; // Pearson correlation of the window at offsetMs
+}
+
+// Prefix sums of a series and its square, for O(1) window means and variances
+function seriesPrefixSums(values: Float32Array) {
+  const sum = new Float64Array(values.length + 1);
+  const sq = new Float64Array(values.length + 1);
+  for (let i = 0; i < values.length; i++) {
+    sum[i + 1] = sum[i] + values[i];
+    sq[i + 1] = sq[i] + values[i] * values[i];
+  }
+  return { sum, sq };
+}
+
+type SeriesPrefixSums = ReturnType<typeof seriesPrefixSums>;
+
+/**
+ * Pearson correlation of a[start, start + len) against b shifted by each lag in [minLag, maxLag]
+ * where the window lies fully inside b. offset is the lag refined between hops.
+ */
+function windowCorrelation(
+  a: Float32Array,
+  b: Float32Array,
+  bSums: SeriesPrefixSums,
+  start: number,
+  len: number,
+  minLag: number,
+  maxLag: number
+) {
+  const none = { lag: 0, offset: 0, score: -Infinity };
+  const lo = Math.max(minLag, -start);
+  const hi = Math.min(maxLag, b.length - start - len);
+  if (hi < lo) return none;
+  const x = a.subarray(start, start + len);
+  let sx = 0;
+  let sxx = 0;
+  for (let i = 0; i < len; i++) {
+    sx += x[i];
+    sxx += x[i] * x[i];
+  }
+  const mx = sx / len;
+  const vx = sxx / len - mx * mx;
+  if (vx <= 1e-9) return none;
+
+  const sums = crossCorrelate(x, b.subarray(start + lo, start + hi + len));
+  const scores = new Float64Array(sums.length).fill(-Infinity);
+  let bestIndex = -1;
+  for (let k = 0; k < sums.length; k++) {
+    const j = start + lo + k;
+    const my = (bSums.sum[j + len] - bSums.sum[j]) / len;
+    const vy = (bSums.sq[j + len] - bSums.sq[j]) / len - my * my;
+    if (vy <= 1e-9) continue;
+    scores[k] = (sums[k] / len - mx * my) / Math.sqrt(vx * vy);
+    if (bestIndex < 0 || scores[k] > scores[bestIndex]) bestIndex = k;
+  }
+  if (bestIndex < 0) return none;
+  return { lag: lo + bestIndex, offset: lo + refinePeak(scores, bestIndex), score: scores[bestIndex] };
+}
+
+function seriesStd(values: Float32Array, start: number, len: number) {
+  let sum = 0;
+  let sq = 0;
+  for (let i = start; i < start + len; i++) {
+    sum += values[i];
+    sq += values[i] * values[i];
+  }
+  const mean = sum / len;
+  return Math.sqrt(Math.max(0, sq / len - mean * mean));
+}
+
+// b played back `ratio` times slower, sampled on the original hop
+function resampleSeries(values: Float32Array, ratio: number) {
+  const out = new Float32Array(Math.max(1, Math.floor((values.length - 1) / ratio) + 1));
+  for (let j = 0; j < out.length; j++) {
+    const pos = j * ratio;
+    const i = Math.floor(pos);
+    const frac = pos - i;
+    out[j] = i + 1 < values.length ? values[i] * (1 - frac) + values[i + 1] * frac : values[values.length - 1];
+  }
+  return out;
+}
+
+/**
+ * Offsets of overlapping windows across the video. Each window first searches near the previous
+ * window's offset, so drift is tracked cheaply; only windows that lose the match search the wider
+ * range an edit or ad break can move the offset by.
+ */
+function estimateWindowOffsets(a: Float32Array, b: Float32Array, hopMs: number, seedOffsetMs: number) {
+  const len = Math.round(ALIGN_WINDOW_MS / hopMs);
+  const step = Math.max(Math.round(ALIGN_WINDOW_STEP_MS / hopMs), Math.ceil((a.length - len) / ALIGN_MAX_WINDOWS));
+  const trackRadius = Math.round(ALIGN_TRACK_RADIUS_MS / hopMs);
+  const jumpRadius = Math.round(ALIGN_JUMP_RADIUS_MS / hopMs);
+  const seed = Math.round(seedOffsetMs / hopMs);
+  const bSums = seriesPrefixSums(b);
+  let prev: number | null = null;
+  const windows: AlignmentWindow[] = [];
+  for (let start = 0; start + len <= a.length; start += step) {
+    if (seriesStd(a, start, len) < ALIGN_SILENT_STD) continue;
+    let best: ReturnType<typeof windowCorrelation> | null =
+      prev !== null ? windowCorrelation(a, b, bSums, start, len, prev - trackRadius, prev + trackRadius) : null;
+    if (!best || best.score < ALIGN_WINDOW_MIN_SCORE) {
+      const wide = windowCorrelation(a, b, bSums, start, len, seed - jumpRadius, seed + jumpRadius);
+      if (!best || wide.score > best.score) best = wide;
+    }
+    if (best.score < ALIGN_WINDOW_MIN_SCORE) continue;
+    prev = best.lag;
+    windows.push({ startMs: start * hopMs, endMs: (start + len) * hopMs, offsetMs: best.offset * hopMs, score: best.score });
+  }
+  return windows;
+}
+
+/**
+ * Frame-rate conversions stretch a 60 s window by seconds, so windows stop matching at all. Probe a
+ * handful of windows at each known ratio and keep the one that matches best.
+ */
+function pickTempoCandidate(a: Float32Array, b: Float32Array, hopMs: number, seedOffsetMs: number) {
+  const len = Math.round(ALIGN_WINDOW_MS / hopMs);
+  const jumpRadius = Math.round(ALIGN_JUMP_RADIUS_MS / hopMs);
+  const starts: number[] = [];
+  for (let i = 0; i < ALIGN_TEMPO_PROBES; i++) {
+    const start = Math.floor(((a.length - len) * (i + 0.5)) / ALIGN_TEMPO_PROBES);
+    if (start >= 0 && seriesStd(a, start, len) >= ALIGN_SILENT_STD) starts.push(start);
+  }
+  if (!starts.length) return 1;
+
+  const scoreAt = (tempo: number) => {
+    const resampled = tempo === 1 ? b : resampleSeries(b, tempo);
+    const sums = seriesPrefixSums(resampled);
+    const seed = Math.round(seedOffsetMs / tempo / hopMs);
+    const total = starts.reduce((sum, start) => {
+      const best = windowCorrelation(a, resampled, sums, start, len, seed - jumpRadius, seed + jumpRadius);
+      return sum + Math.max(0, best.score);
+    }, 0);
+    return total / starts.length;
+  };
+  let best = { tempo: 1, score: scoreAt(1) };
+  for (const tempo of ALIGN_KNOWN_TEMPOS) {
+    const score = scoreAt(tempo);
+    // Only leave 1:1 when the ratio is clearly better, not within noise of it
+    if (score > best.score + 0.1) best = { tempo, score };
+  }
+  return best.tempo;
+}
+
+/**
+ * Remaining speed ratio between the audio and the video (audio ms per video ms). Uses the most common
+ * slope between window pairs, so offset jumps at cut points do not skew it.
+ */
+function detectTempoDrift(windows: AlignmentWindow[], durationMs: number) {
+  const binWidth = 0.0002;
+  const bins = new Map<number, number[]>();
+  for (let i = 0; i < windows.length; i++) {
+    for (let j = i + 1; j < windows.length; j++) {
+      const dt = windows[j].startMs - windows[i].startMs;
+      if (dt < ALIGN_TEMPO_MIN_SPAN_MS) continue;
+      const slope = (windows[j].offsetMs - windows[i].offsetMs) / dt;
+      if (Math.abs(slope) > 0.05) continue;
+      const bin = Math.round(slope / binWidth);
+      const slopes = bins.get(bin);
+      if (slopes) slopes.push(slope);
+      else bins.set(bin, [slope]);
+    }
+  }
+  let bestBin: number | null = null;
+  let bestCount = 0;
+  for (const [bin, slopes] of bins) {
+    const count = slopes.length + (bins.get(bin - 1)?.length ?? 0) + (bins.get(bin + 1)?.length ?? 0);
+    if (count > bestCount) {
+      bestBin = bin;
+      bestCount = count;
+    }
+  }
+  if (bestBin === null) return 1;
+  const nearby = [bestBin - 1, bestBin, bestBin + 1].flatMap((bin) => bins.get(bin) ?? []);
+  const slope = nearby.reduce((sum, value) => sum + value, 0) / nearby.length;
+  // Drift the segments can absorb on their own is not worth resampling for
+  if (Math.abs(slope) * durationMs < ALIGN_SEGMENT_TOLERANCE_MS) return 1;
+  return 1 + slope;
+}
+
+// Frame in [lo, hi) where switching from lagA to lagB keeps the most correlation
+function findCutFrame(a: Float32Array, b: Float32Array, lo: number, hi: number, lagA: number, lagB: number) {
+  const at = (i: number) => (i >= 0 && i < b.length ? b[i] : 0);
+  let running = 0;
+  for (let i = lo; i < hi; i++) running += a[i] * at(i + lagB);
+  let best = { frame: lo, score: running };
+  for (let c = lo; c < hi; c++) {
+    running += a[c] * (at(c + lagA) - at(c + lagB));
+    if (running > best.score) best = { frame: c + 1, score: running };
+  }
+  return best.frame;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((x, y) => x - y);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Piecewise alignment map: a constant tempo for the whole file plus one offset per stretch between
+ * edits. Falls back to the single global offset when no window matches confidently.
+ */
+function computeAlignmentMap(
+  videoFeatures: ArrayLike<number>,
+  audioFeatures: ArrayLike<number>,
+  hopMs: number,
+  durationMs: number,
+  global: { offsetMs: number; score: number }
+): { tempo: number; segments: AlignmentSegment[] } {
+  const single = { tempo: 1, segments: [{ startMs: 0, endMs: durationMs, offsetMs: global.offsetMs, score: global.score }] };
+  const { data: a } = normalizeSeries(videoFeatures);
+  const { data: rawB } = normalizeSeries(audioFeatures);
+
+  let tempo = pickTempoCandidate(a, rawB, hopMs, global.offsetMs);
+  let b = tempo === 1 ? rawB : resampleSeries(rawB, tempo);
+  let windows = estimateWindowOffsets(a, b, hopMs, global.offsetMs / tempo);
+  const drift = detectTempoDrift(windows, durationMs);
+  if (drift !== 1) {
+    const corrected = tempo * drift;
+    tempo = ALIGN_KNOWN_TEMPOS.find((known) => Math.abs(known - corrected) < 0.0005) ?? corrected;
+    b = resampleSeries(rawB, tempo);
+    windows = estimateWindowOffsets(a, b, hopMs, global.offsetMs / tempo);
+  }
+  if (!windows.length) return single;
+
+  // Group windows that agree on the offset; a lone window disagreeing with both neighbours is a mismatch
+  const runs: { windows: AlignmentWindow[]; offsetMs: number }[] = [];
+  for (const window of windows) {
+    const run = runs[runs.length - 1];
+    if (run && Math.abs(window.offsetMs - run.offsetMs) <= ALIGN_SEGMENT_TOLERANCE_MS) {
+      run.windows.push(window);
+      run.offsetMs = median(run.windows.map((w) => w.offsetMs));
+    } else {
+      runs.push({ windows: [window], offsetMs: window.offsetMs });
+    }
+  }
+  const kept = runs.some((run) => run.windows.length > 1) ? runs.filter((run) => run.windows.length > 1) : runs;
+  const merged: typeof runs = [];
+  for (const run of kept) {
+    const last = merged[merged.length - 1];
+    if (last && Math.abs(last.offsetMs - run.offsetMs) <= ALIGN_SEGMENT_TOLERANCE_MS) {
+      last.windows.push(...run.windows);
+      last.offsetMs = median(last.windows.map((w) => w.offsetMs));
+    } else {
+      merged.push({ windows: [...run.windows], offsetMs: run.offsetMs });
+    }
+  }
+
+  const segments: AlignmentSegment[] = [];
+  let startMs = 0;
+  merged.forEach((run, index) => {
+    const score = run.windows.reduce((sum, w) => sum + w.score, 0) / run.windows.length;
+    const next = merged[index + 1];
+    let endMs = durationMs;
+    if (next) {
+      // A window still matches with part of it past the cut, so search across both windows' full spans
+      const lo = Math.round(run.windows[run.windows.length - 1].startMs / hopMs);
+      const hi = Math.max(lo, Math.round(next.windows[0].endMs / hopMs));
+      endMs = findCutFrame(a, b, lo, hi, Math.round(run.offsetMs / hopMs), Math.round(next.offsetMs / hopMs)) * hopMs;
     }
-    count = len;
-    const score = count > 0 ? sum / count : -Infinity;
-    if (score > best.score) {
-      best = { offsetMs: step * hopMs, score };
+    if (endMs > startMs) segments.push({ startMs, endMs, offsetMs: run.offsetMs, score });
+    startMs = Math.max(startMs, endMs);
+    // Material the video has and the audio lacks: leave it silent instead of replaying audio
+    if (next && next.offsetMs < run.offsetMs) {
+      const gapEnd = Math.min(durationMs, startMs + (run.offsetMs - next.offsetMs));
+      if (gapEnd > startMs) segments.push({ startMs, endMs: gapEnd, offsetMs: null, score: 0 });
+      startMs = gapEnd;
     }
+  });
+  if (!segments.length) return single;
+  return { tempo, segments };
+}
+
+// Gaps carry no audio, so they neither help nor hurt the score
+function alignmentMatchScore(segments: AlignmentSegment[]) {
+  let weighted = 0;
+  let total = 0;
+  for (const segment of segments) {
+    if (segment.offsetMs === null) continue;
+    weighted += segment.score * (segment.endMs - segment.startMs);
+    total += segment.endMs - segment.startMs;
   }
-  return best;
+  return total > 0 ? weighted / total : 0;
+}
+
+function classifyAlignment(score: number, review: AlignmentReviewSettings): AlignmentConfidence {
+  if (score >= review.highScore) return 'high';
+  return score >= review.lowScore ? 'medium' : 'low';
 }
 
-async function muxAligned(videoPath: string, audioPath: string, offsetMs: number, outputPath: string) {
+// atempo only takes factors between 0.5 and 2 in older FFmpeg builds
+function atempoFilters(tempo: number) {
   const filters: string[] = [];
-  if (offsetMs >= 0) {
-    filters.push(`[1:a]adelay=${Math.round(offsetMs)}|${Math.round(offsetMs)},apad[outa]`);
-  } else {
-    const start = Math.max(0, (-offsetMs) / 1000);
-    filters.push(`[1:a]atrim=start=${start},asetpts=PTS-STARTPTS[outa]`);
+  let remaining = tempo;
+  while (remaining > 2) {
+    filters.push('atempo=2');
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push('atempo=0.5');
+    remaining /= 0.5;
   }
+  if (Math.abs(remaining - 1) > 1e-6) filters.push(`atempo=${remaining.toFixed(6)}`);
+  return filters;
+}
+
+// --- Timeline helpers (waveform peaks and spectrogram for Create Subtitles) ---
+const WAVEFORM_MAX_PEAKS = 200000;
+const WAVEFORM_PEAKS_PER_SECOND = 100;
+const SPECTRUM_FFT_SIZE = 512;
+const SPECTRUM_BANDS = 48;
+const SPECTRUM_MAX_FRAMES = 8000;
+const SPECTRUM_FRAMES_PER_SECOND = 20;
+
+// In-place iterative radix-2 FFT; re/im length must be a power of two
+function fftInPlace(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[start + k];
+        const aIm = im[start + k];
+        const bRe = re[start + k + len / 2] * curRe - im[start + k + len / 2] * curIm;
+        const bIm = re[start + k + len / 2] * curIm + im[start + k + len / 2] * curRe;
+        re[start + k] = aRe + bRe;
+        im[start + k] = aIm + bIm;
+        re[start + k + len / 2] = aRe - bRe;
+        im[start + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+function computeWaveformPeaks(samples: Float32Array, sampleRate: number) {
+  const durationSec = samples.length / sampleRate;
+  const peaksPerSecond = Math.max(1, Math.min(WAVEFORM_PEAKS_PER_SECOND, WAVEFORM_MAX_PEAKS / Math.max(durationSec, 1)));
+  const bucket = Math.max(1, Math.round(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / bucket));
+  for (let p = 0; p < peaks.length; p++) {
+    let max = 0;
+    const end = Math.min(samples.length, (p + 1) * bucket);
+    for (let i = p * bucket; i < end; i++) {
+      const v = Math.abs(samples[i]);
+      if (v > max) max = v;
+    }
+    peaks[p] = max;
+  }
+  return { peaks, peaksPerSecond: sampleRate / bucket };
+}
+
+// Log-spaced band magnitudes scaled to 0-255 (dB range -90..0), one row of SPECTRUM_BANDS per frame
+function computeSpectrogram(samples: Float32Array, sampleRate: number) {
+  const durationSec = samples.length / sampleRate;
+  const framesPerSecond = Math.min(SPECTRUM_FRAMES_PER_SECOND, SPECTRUM_MAX_FRAMES / Math.max(durationSec, 1));
+  const hop = Math.max(1, Math.round(sampleRate / framesPerSecond));
+  const frameCount = Math.max(0, Math.floor((samples.length - SPECTRUM_FFT_SIZE) / hop) + 1);
+  const data = new Uint8Array(frameCount * SPECTRUM_BANDS);
+  const half = SPECTRUM_FFT_SIZE / 2;
+  const minBin = 1;
+  const bandEdges: number[] = [];
+  for (let b = 0; b <= SPECTRUM_BANDS; b++) {
+    bandEdges.push(Math.round(minBin * Math.pow(half / minBin, b / SPECTRUM_BANDS)));
+  }
+  const hann = new Float64Array(SPECTRUM_FFT_SIZE);
+  for (let i = 0; i < SPECTRUM_FFT_SIZE; i++) {
+    hann[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (SPECTRUM_FFT_SIZE - 1)));
+  }
+  const re = new Float64Array(SPECTRUM_FFT_SIZE);
+  const im = new Float64Array(SPECTRUM_FFT_SIZE);
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * hop;
+    for (let i = 0; i < SPECTRUM_FFT_SIZE; i++) {
+      re[i] = samples[offset + i] * hann[i];
+      im[i] = 0;
+    }
+    fftInPlace(re, im);
+    for (let b = 0; b < SPECTRUM_BANDS; b++) {
+      const lo = bandEdges[b];
+      const hi = Math.max(lo + 1, bandEdges[b + 1]);
+      let acc = 0;
+      for (let k = lo; k < hi; k++) acc += re[k] * re[k] + im[k] * im[k];
+      const magnitude = Math.sqrt(acc / (hi - lo)) / half;
+      const db = 20 * Math.log10(magnitude + 1e-9);
+      data[f * SPECTRUM_BANDS + b] = Math.max(0, Math.min(255, Math.round(((db + 90) / 90) * 255)));
+    }
+  }
+  return { spectrum: data, spectrumBands: SPECTRUM_BANDS, spectrumFramesPerSecond: sampleRate / hop };
+}
+
+ipcMain.handle('audio:getWaveform', async (_, inputPath: string, includeSpectrum: boolean = true) => {
+  const wav = await extractAudioToWav(inputPath);
+  if (wav.error || !wav.wavPath) {
+    return { error: wav.error || 'Could not decode audio for the timeline.' };
+  }
+  try {
+    const { samples, sampleRate } = parseWavPcm16(wav.wavPath);
+    const { peaks, peaksPerSecond } = computeWaveformPeaks(samples, sampleRate);
+    const durationMs = (samples.length / sampleRate) * 1000;
+    if (!includeSpectrum) {
+      return { peaks, peaksPerSecond, durationMs };
+    }
+    return { peaks, peaksPerSecond, durationMs, ...computeSpectrogram(samples, sampleRate) };
+  } catch (error) {
+    safeError('Waveform error:', error);
+    return { error: (error as Error).message };
+  } finally {
+    fs.rmSync(path.dirname(wav.wavPath), { recursive: true, force: true });
+  }
+});
+
+// --- Dialogue gap detection (candidate audio description slots) ---
+const GAP_DEFAULT_MIN_MS = 2000;
+const GAP_DEFAULT_SENSITIVITY = 0.3;
+const GAP_MIN_SPEECH_MS = 300; // louder bursts shorter than this (clicks, bumps) do not split a gap
+
+interface DialogueGap {
+  startMs: number;
+  endMs: number;
+}
+
+interface GapDetectionOptions {
+  minGapMs?: number;
+  sensitivity?: number;
+}
+
+/**
+ * Find stretches of the energy profile that stay below an adaptive threshold set between
+ * the noise floor (10th percentile) and typical speech level (95th percentile).
+ */
+function detectDialogueGaps(energies: number[], hopMs: number, options: GapDetectionOptions = {}): DialogueGap[] {
+  if (!energies.length) return [];
+  const minGapMs = Math.max(hopMs, options.minGapMs ?? GAP_DEFAULT_MIN_MS);
+  const sensitivity = Math.min(0.95, Math.max(0.05, options.sensitivity ?? GAP_DEFAULT_SENSITIVITY));
+
+  const sorted = [...energies].sort((a, b) => a - b);
+  const floor = sorted[Math.floor(sorted.length * 0.1)];
+  const speech = sorted[Math.floor(sorted.length * 0.95)];
+  const threshold = floor + (speech - floor) * sensitivity;
+  const quiet = energies.map((energy) => energy <= threshold);
+
+  const minSpeechFrames = Math.ceil(GAP_MIN_SPEECH_MS / hopMs);
+  for (let i = 0; i < quiet.length; ) {
+    if (quiet[i]) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < quiet.length && !quiet[j]) j++;
+    if (i > 0 && j < quiet.length && j - i < minSpeechFrames) {
+      quiet.fill(true, i, j);
+    }
+    i = j;
+  }
+
+  const gaps: DialogueGap[] = [];
+  let runStart = -1;
+  for (let frame = 0; frame <= quiet.length; frame++) {
+    if (frame < quiet.length && quiet[frame]) {
+      if (runStart < 0) runStart = frame;
+      continue;
+    }
+    if (runStart >= 0) {
+      const startMs = runStart * hopMs;
+      const endMs = frame * hopMs;
+      if (endMs - startMs >= minGapMs) gaps.push({ startMs, endMs });
+      runStart = -1;
+    }
+  }
+  return gaps;
+}
+
+ipcMain.handle('audio:detectGaps', async (_, inputPath: string, options: GapDetectionOptions = {}) => {
+  const wav = await extractAudioToWav(inputPath);
+  if (wav.error || !wav.wavPath) {
+    return { error: wav.error || 'Could not decode audio for gap detection.' };
+  }
+  try {
+    const { energies, hopMs } = computeEnergyProfile(wav.wavPath);
+    const gaps = detectDialogueGaps(energies, hopMs, options);
+    safeLog(`Gap detection found ${gaps.length} gaps in ${inputPath}`);
+    return { gaps };
+  } catch (error) {
+    safeError('Gap detection error:', error);
+    return { error: (error as Error).message };
+  } finally {
+    fs.rmSync(path.dirname(wav.wavPath), { recursive: true, force: true });
+  }
+});
+
+// --- Video export with embedded or burned-in subtitles ---
+function parseFfmpegClock(value: string): number {
+  const [h, m, s] = value.split(':');
+  return (Number(h) * 3600 + Number(m) * 60 + Number(s)) * 1000;
+}
+
+// MP4-family containers, which carry far fewer audio and subtitle codecs than Matroska
+function isMp4Container(filePath: string) {
+  return ['.mp4', '.m4v', '.mov'].includes(path.extname(filePath).toLowerCase());
+}
+
+function buildVideoExportArgs(options: VideoExportOptions, subtitleFile: string): string[] {
+  const isMp4 = isMp4Container(options.outputPath);
+  // MP4 cannot carry PCM, DTS and several other tracks MKV sources often have
+  const audioArgs = isMp4 ? ['-c:a', 'aac', '-b:a', '192k'] : ['-c:a', 'copy'];
+  if (options.mode === 'burn') {
+    // Run with cwd set to the subtitle's folder so the filter gets a bare file name;
+    // absolute Windows paths need several layers of escaping inside filter arguments.
+    return [
+      '-y',
+      '-i',
+      options.videoPath,
+      '-map',
+      '0:v:0',
+      '-map',
+      '0:a?',
+      '-vf',
+      `subtitles=${path.basename(subtitleFile)}`,
+      '-c:v',
+      'libx264',
+      '-crf',
+      '18',
+      '-preset',
+      'medium',
+      ...audioArgs,
+      options.outputPath,
+    ];
+  }
+  return [
+    '-y',
+    '-i',
+    options.videoPath,
+    '-i',
+    subtitleFile,
+    '-map',
+    '0:v',
+    '-map',
+    '0:a?',
+    '-map',
+    '1:0',
+    '-c:v',
+    'copy',
+    ...audioArgs,
+    '-c:s',
+    isMp4 ? 'mov_text' : 'srt',
+    '-disposition:s:0',
+    'default',
+    options.outputPath,
+  ];
+}
+
+ipcMain.handle('video:exportWithSubtitles', async (_, options: VideoExportOptions) => {
+  const sendProgress = (payload: { percent?: number; message?: string }) => {
+    if (mainWindow && options.jobId) {
+      mainWindow.webContents.send('video:exportProgress', { jobId: options.jobId, ...payload });
+    }
+  };
+
+  if (!(await checkFfmpeg())) {
+    return { error: 'FFmpeg is required for video export.' };
+  }
+  if (!options.videoPath || !fs.existsSync(options.videoPath)) {
+    return { error: 'Source video not found.' };
+  }
+  if (!options.outputPath) {
+    return { error: 'No output file selected.' };
+  }
+  // ffmpeg runs with -y and would truncate the source it is still reading
+  // Windows and macOS file systems are case-insensitive by default
+  const samePathKey = (p: string) => (process.platform === 'linux' ? path.resolve(p) : path.resolve(p).toLowerCase());
+  if (samePathKey(options.outputPath) === samePathKey(options.videoPath)) {
+    return { error: 'Choose an output file other than the source video.' };
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(app.getPath('temp'), 'video-export-'));
+  const subtitleFile = path.join(tempDir, 'subtitles.srt');
+  fs.writeFileSync(subtitleFile, options.subtitleContent, 'utf-8');
+  const args = buildVideoExportArgs(options, subtitleFile);
+  sendProgress({ percent: 0, message: `ffmpeg ${args.join(' ')}` });
+
+  try {
+    return await new Promise<{ success?: boolean; path?: string; error?: string }>((resolve) => {
+      const ff = spawn('ffmpeg', args, { windowsHide: true, cwd: tempDir });
+      let durationMs = 0;
+      let errorOutput = '';
+      let lastPercent = -1;
+      ff.stderr.on('data', (d) => {
+        const text = d.toString();
+        errorOutput = (errorOutput + text).slice(-8000);
+        const duration = text.match(/Duration: (\d+:\d{2}:\d{2}(?:\.\d+)?)/);
+        if (duration && !durationMs) {
+          durationMs = parseFfmpegClock(duration[1]);
+        }
+        const time = text.match(/time=(\d+:\d{2}:\d{2}(?:\.\d+)?)/);
+        if (time && durationMs > 0) {
+          const percent = Math.min(100, Math.floor((parseFfmpegClock(time[1]) / durationMs) * 100));
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            sendProgress({ percent });
+          }
+        }
+      });
+      ff.on('error', (err) => resolve({ error: err.message }));
+      ff.on('close', (code) => {
+        if (code === 0) {
+          sendProgress({ percent: 100, message: `Saved ${options.outputPath}` });
+          resolve({ success: true, path: options.outputPath });
+        } else {
+          safeError('Video export failed:', errorOutput);
+          resolve({ error: errorOutput || `FFmpeg exited with code ${code}` });
+        }
+      });
+    });
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+// MP4 cannot carry PCM, so WAV profiles fall back to AAC there at the profile's rate and channels
+function videoAudioProfile(profile: OutputProfile, outputPath: string): OutputProfile {
+  const isMp4 = ['.mp4', '.m4v'].includes(path.extname(outputPath).toLowerCase());
+  return isMp4 && profile.format === 'wav' ? { ...profile, format: 'aac', bitrateKbps: 320 } : profile;
+}
+
+/**
+ * Mux the audio against the video following an alignment map. Each segment is read from its own
+ * seeked input, so long files are never buffered whole.
+ */
+async function muxAligned(
+  videoPath: string,
+  audioPath: string,
+  map: { tempo: number; segments: AlignmentSegment[] },
+  audioDurationMs: number,
+  outputPath: string,
+  profile: OutputProfile = DEFAULT_OUTPUT_PROFILE,
+  limitMs?: number // render only the start, for previews
+) {
+  const inputs: string[] = [];
+  const filters: string[] = [];
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const segments = map.segments
+    .filter((segment) => limitMs === undefined || segment.startMs < limitMs)
+    .map((segment) => (limitMs === undefined ? segment : { ...segment, endMs: Math.min(segment.endMs, limitMs) }));
+  segments.forEach((segment, index) => {
+    const durationMs = segment.endMs - segment.startMs;
+    const audioStart = segment.offsetMs === null ? 0 : (segment.startMs + segment.offsetMs) * map.tempo;
+    const audioEnd = segment.offsetMs === null ? 0 : (segment.endMs + segment.offsetMs) * map.tempo;
+    const readFrom = Math.max(0, audioStart);
+    if (segment.offsetMs === null || audioEnd <= 0 || readFrom >= audioDurationMs) {
+      filters.push(`anullsrc=r=${TIMELINE_SAMPLE_RATE}:cl=stereo,atrim=duration=${seconds(durationMs)}[s${index}]`);
+      return;
+    }
+    inputs.push('-ss', seconds(readFrom), '-t', seconds(audioEnd - readFrom), '-i', audioPath);
+    // Audio starting before the video's first frame is padded rather than trimmed
+    const leadMs = Math.round(Math.max(0, -audioStart) / map.tempo);
+    const chain = [
+      'asetpts=PTS-STARTPTS',
+      ...atempoFilters(map.tempo),
+      `aformat=sample_rates=${TIMELINE_SAMPLE_RATE}:channel_layouts=stereo`,
+      ...(leadMs > 0 ? [`adelay=${leadMs}|${leadMs}`] : []),
+      `apad=whole_dur=${seconds(durationMs)}`,
+      `atrim=duration=${seconds(durationMs)}`,
+    ];
+    filters.push(`[${inputs.filter((arg) => arg === '-i').length}:a]${chain.join(',')}[s${index}]`);
+  });
+  const labels = segments.map((_, index) => `[s${index}]`).join('');
+  filters.push(`${labels}concat=n=${segments.length}:v=0:a=1[outa]`);
 
   return await new Promise<{ success?: boolean; error?: string }>((resolve) => {
     const args = [
       '-y',
       '-i',
       videoPath,
-      '-i',
-      audioPath,
+      ...inputs,
       '-filter_complex',
       filters.join(';'),
       '-map',
@@ -1169,15 +2586,9 @@ async function muxAligned(videoPath: string, audioPath: string, offsetMs: number
       '[outa]',
       '-c:v',
       'copy',
-      '-c:a',
-      'libmp3lame',
-      '-b:a',
-      '320k',
-      '-ar',
-      '48000',
-      '-ac',
-      '2',
+      ...outputProfileArgs(videoAudioProfile(profile, outputPath)),
       '-shortest',
+      ...(limitMs !== undefined ? ['-t', seconds(limitMs)] : []),
       outputPath,
     ];
     const ff = spawn('ffmpeg', args, { windowsHide: true });
@@ -1193,6 +2604,78 @@ async function muxAligned(videoPath: string, audioPath: string, offsetMs: number
   });
 }
 
+// Keep every original stream and append the described mix as a non-default, tagged audio track
+async function muxDescribedAudio(options: DescribedAudioMuxOptions) {
+  const [source, described] = await Promise.all([
+    probeStreamCodecs(options.videoPath),
+    probeStreamCodecs(options.audioPath),
+  ]);
+  const adIndex = source.audio.length;
+  const isMp4 = isMp4Container(options.outputPath);
+  // MP4 takes AAC and MP3 as they are; WAV, FLAC, Opus and other profile mixes are encoded
+  const encodeAd = isMp4 && !['aac', 'mp3'].includes(described.audio[0] ?? '');
+  // Like buildVideoExportArgs: PCM, DTS and other source tracks MP4 cannot carry become AAC.
+  // Matroska carries any audio, but MP4 text subtitles (mov_text) have to become SRT.
+  const adCodecArgs = encodeAd ? ['aac', `-b:a:${adIndex}`, '320k'] : ['copy'];
+  const codecArgs = isMp4
+    ? ['-c:a', 'aac', '-b:a', '192k', `-c:a:${adIndex}`, ...adCodecArgs]
+    : source.subtitle.flatMap((codec, index) => (codec === 'mov_text' ? [`-c:s:${index}`, 'srt'] : []));
+
+  return await new Promise<{ success?: boolean; path?: string; error?: string }>((resolve) => {
+    const args = [
+      '-y',
+      '-i',
+      options.videoPath,
+      '-i',
+      options.audioPath,
+      '-map',
+      '0:v',
+      '-map',
+      '0:a?',
+      // MP4 cannot carry most text subtitle codecs as-is, so only MKV keeps them
+      ...(isMp4 ? [] : ['-map', '0:s?']),
+      '-map',
+      '1:a:0',
+      '-c',
+      'copy',
+      ...codecArgs,
+      `-metadata:s:a:${adIndex}`,
+      `language=${options.language || 'und'}`,
+      `-metadata:s:a:${adIndex}`,
+      `title=${options.title}`,
+      `-disposition:a:${adIndex}`,
+      'visual_impaired',
+      options.outputPath,
+    ];
+    const ff = spawn('ffmpeg', args, { windowsHide: true });
+    let errorOutput = '';
+    ff.stderr.on('data', (d) => (errorOutput += d.toString()));
+    ff.on('close', (code) => {
+      if (code === 0) {
+        resolve({ success: true, path: options.outputPath });
+      } else {
+        resolve({ error: errorOutput || `FFmpeg exited with code ${code}` });
+      }
+    });
+    ff.on('error', (err) => resolve({ error: err.message }));
+  });
+}
+
+ipcMain.handle('system:muxDescribedAudio', async (_, options: DescribedAudioMuxOptions) => {
+  if (!(await checkFfmpeg())) {
+    return { error: 'FFmpeg is required for muxing audio.' };
+  }
+  if (!fs.existsSync(options.videoPath) || !fs.existsSync(options.audioPath)) {
+    return { error: 'Source video or described audio not found.' };
+  }
+  try {
+    return await muxDescribedAudio(options);
+  } catch (error) {
+    safeError('Described audio mux error:', error);
+    return { error: (error as Error).message };
+  }
+});
+
 ipcMain.handle('alignment:checkEnv', async () => {
   const ffmpegAvailable = await checkFfmpeg();
   return { ffmpegAvailable };
@@ -1215,10 +2698,19 @@ ipcMain.handle('alignment:run', async (_, options: AlignmentRunOptions): Promise
     return { error: 'Video and audio inputs are required.', logs };
   }
 
-  // Use lexicographic order pairing similar to original tool
-  const videos = [...options.videoPaths].sort();
-  const audios = [...options.audioPaths].sort();
-  const pairs = Math.min(videos.length, audios.length);
+  let pairList: AlignPair[];
+  if (options.pairs?.length) {
+    pairList = options.pairs;
+  } else {
+    // Lexicographic order pairing similar to original tool
+    const videos = [...options.videoPaths].sort();
+    const audios = [...options.audioPaths].sort();
+    pairList = videos.slice(0, audios.length).map((video, index) => ({ video, audio: audios[index] }));
+    for (const extra of [...videos.slice(audios.length), ...audios.slice(videos.length)]) {
+      sendLog(`Unmatched, not aligned: ${path.basename(extra)}`);
+    }
+  }
+  const pairs = pairList.length;
 
   const providedOutput = options.outputPath && options.outputPath.trim().length ? path.resolve(options.outputPath) : null;
   const baseDir =
@@ -1226,12 +2718,13 @@ ipcMain.handle('alignment:run', async (_, options: AlignmentRunOptions): Promise
       ? path.dirname(providedOutput)
       : fs.mkdtempSync(path.join(app.getPath('temp'), 'align-output-'));
 
+  const review = options.review ?? DEFAULT_ALIGNMENT_REVIEW;
   let lastOutput: string | undefined;
   const reportData: AlignmentReportEntry[] = [];
   const allOutputs: AlignmentReportEntry[] = [];
   for (let i = 0; i < pairs; i++) {
-    const video = path.resolve(videos[i]);
-    const audio = path.resolve(audios[i]);
+    const video = path.resolve(pairList[i].video);
+    const audio = path.resolve(pairList[i].audio);
     const baseName = options.prepend || 'ad_';
 
     const deriveOutputPath = () => {
@@ -1256,27 +2749,57 @@ ipcMain.handle('alignment:run', async (_, options: AlignmentRunOptions): Promise
       return { error: audioExtract.error || 'Failed to extract audio', logs };
     }
 
-    const videoProfile = computeEnergyProfile(videoExtract.wavPath);
-    const audioProfile = computeEnergyProfile(audioExtract.wavPath);
-    if (videoProfile.energies.length < 5 || audioProfile.energies.length < 5) {
-      return { error: 'Could not analyze audio energy (files too short or empty).', logs };
+    const videoProfile = computeOnsetEnvelope(videoExtract.wavPath);
+    const audioProfile = computeOnsetEnvelope(audioExtract.wavPath);
+    if (videoProfile.envelope.length < 50 || audioProfile.envelope.length < 50) {
+      return { error: 'Could not analyze audio onsets (files too short or empty).', logs };
     }
-    const best = findBestOffset(videoProfile.energies, audioProfile.energies, videoProfile.hopMs);
+    const best = findBestOffset(videoProfile.envelope, audioProfile.envelope, videoProfile.hopMs);
     sendLog(`Best offset: ${best.offsetMs.toFixed(0)} ms (score ${best.score.toFixed(3)})`);
+    const map = computeAlignmentMap(
+      videoProfile.envelope,
+      audioProfile.envelope,
+      videoProfile.hopMs,
+      videoProfile.durationMs,
+      best
+    );
+    if (map.tempo !== 1) sendLog(`Tempo ratio: ${map.tempo.toFixed(5)}`);
+    if (map.segments.length > 1) {
+      sendLog(`Drift correction: ${map.segments.length} segments`);
+      for (const segment of map.segments) {
+        const range = `${(segment.startMs / 1000).toFixed(1)}s - ${(segment.endMs / 1000).toFixed(1)}s`;
+        sendLog(`  ${range}: ${segment.offsetMs === null ? 'silence' : `${Math.round(segment.offsetMs)} ms`}`);
+      }
+    }
 
-    const mux = await muxAligned(video, audio, best.offsetMs, outputPath);
-    if (mux.error) {
-      return { error: mux.error, logs };
+    const score = alignmentMatchScore(map.segments);
+    const confidence = classifyAlignment(score, review);
+    const skipped = confidence === 'low' && review.lowConfidence === 'skip';
+    if (confidence === 'low') {
+      sendLog(`Low confidence (score ${score.toFixed(3)}): ${skipped ? 'skipped, review it before muxing' : 'flagged for review'}`);
+    }
+
+    if (!skipped) {
+      const mux = await muxAligned(video, audio, map, audioProfile.durationMs, outputPath, options.outputProfile);
+      if (mux.error) {
+        return { error: mux.error, logs };
+      }
+      lastOutput = outputPath;
     }
-    lastOutput = outputPath;
 
     reportData.push({
       title: path.basename(outputPath),
       video,
       audio,
       offsetMs: Math.round(best.offsetMs),
-      score: best.score,
+      score,
+      confidence,
+      tempo: map.tempo,
+      segments: map.segments,
+      durationMs: videoProfile.durationMs,
+      audioDurationMs: audioProfile.durationMs,
       output: outputPath,
+      skipped: skipped || undefined,
     });
     allOutputs.push(reportData[reportData.length - 1]);
 
@@ -1288,18 +2811,179 @@ ipcMain.handle('alignment:run', async (_, options: AlignmentRunOptions): Promise
     }
   }
 
+  if (reportData.length) {
+    rememberAlignmentRun({
+      id: options.runId || `run-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      entries: reportData,
+    });
+  }
+
   return { success: true, logs, outputPath: lastOutput, reportData, outputs: allOutputs };
 });
 
+function readAlignmentHistory(): AlignmentRun[] {
+  try {
+    if (fs.existsSync(ALIGN_HISTORY_PATH)) {
+      const parsed = JSON.parse(fs.readFileSync(ALIGN_HISTORY_PATH, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        return parsed.filter(
+          (run): run is AlignmentRun => typeof run?.id === 'string' && Array.isArray(run.entries)
+        );
+      }
+    }
+  } catch (error) {
+    safeWarn('Error reading alignment history:', error);
+  }
+  return [];
+}
+
+function writeAlignmentHistory(runs: AlignmentRun[]) {
+  fs.writeFileSync(ALIGN_HISTORY_PATH, JSON.stringify(runs.slice(0, MAX_ALIGN_HISTORY), null, 2));
+}
+
+// Newest first; saving an existing run (e.g. after a review re-mux) keeps its place
+function rememberAlignmentRun(run: AlignmentRun) {
+  try {
+    const history = readAlignmentHistory();
+    const index = history.findIndex((entry) => entry.id === run.id);
+    if (index >= 0) {
+      history[index] = run;
+    } else {
+      history.unshift(run);
+    }
+    writeAlignmentHistory(history);
+  } catch (error) {
+    safeWarn('Error saving alignment history:', error);
+  }
+}
+
+// What of a saved run is still on disk, so a reopened run does not offer actions on missing files
+ipcMain.handle('alignment:checkFiles', async (_, entries: AlignmentReportEntry[]) => ({
+  files: entries.map((entry) => ({
+    output: fs.existsSync(entry.output),
+    sources: fs.existsSync(entry.video) && fs.existsSync(entry.audio) && fs.existsSync(path.dirname(entry.output)),
+  })),
+}));
+
+ipcMain.handle('alignment:getHistory', async () => ({ runs: readAlignmentHistory() }));
+
+ipcMain.handle('alignment:saveHistoryRun', async (_, run: AlignmentRun) => {
+  rememberAlignmentRun(run);
+  return { success: true };
+});
+
+ipcMain.handle('alignment:deleteHistoryRun', async (_, id: string) => {
+  try {
+    writeAlignmentHistory(readAlignmentHistory().filter((run) => run.id !== id));
+    return { success: true };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+});
+
+const ALIGN_REPORT_FILTERS: Record<AlignmentReportFormat, { name: string; extensions: string[] }> = {
+  csv: { name: 'CSV', extensions: ['csv'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  html: { name: 'HTML', extensions: ['html'] },
+};
+
+ipcMain.handle(
+  'alignment:exportReport',
+  async (_, content: string, format: AlignmentReportFormat, suggestedName?: string) => {
+    const { dialog } = await import('electron');
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      defaultPath: `${suggestedName || 'alignment-report'}.${format}`,
+      filters: [ALIGN_REPORT_FILTERS[format]],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { canceled: true };
+    }
+
+    try {
+      fs.writeFileSync(result.filePath, content, 'utf-8');
+      return { path: result.filePath };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+);
+
+// Negative offsets read earlier audio, so a positive nudge (delay) subtracts
+function nudgeSegments(segments: AlignmentSegment[], nudgeMs: number): AlignmentSegment[] {
+  return segments.map((segment) =>
+    segment.offsetMs === null ? segment : { ...segment, offsetMs: segment.offsetMs - nudgeMs }
+  );
+}
+
+const ALIGN_PREVIEW_DIR = path.join(app.getPath('temp'), 'align-preview');
+
+ipcMain.handle('alignment:preview', async (_, request: AlignmentMuxRequest) => {
+  if (!(await checkFfmpeg())) {
+    return { error: 'FFmpeg is required for alignment.' };
+  }
+  const { entry } = request;
+  try {
+    // One preview at a time; the previous one is no longer playing once a new one is asked for
+    fs.rmSync(ALIGN_PREVIEW_DIR, { recursive: true, force: true });
+    fs.mkdirSync(ALIGN_PREVIEW_DIR, { recursive: true });
+    const previewPath = path.join(ALIGN_PREVIEW_DIR, `preview-${Date.now()}${path.extname(entry.output) || '.mp4'}`);
+    const map = { tempo: entry.tempo, segments: nudgeSegments(entry.segments, request.nudgeMs) };
+    const result = await muxAligned(
+      entry.video,
+      entry.audio,
+      map,
+      entry.audioDurationMs,
+      previewPath,
+      request.outputProfile,
+      Math.min(ALIGN_PREVIEW_MS, entry.durationMs)
+    );
+    return result.error ? { error: result.error } : { path: previewPath };
+  } catch (error) {
+    safeError('Alignment preview error:', error);
+    return { error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('alignment:remux', async (_, request: AlignmentMuxRequest) => {
+  if (!(await checkFfmpeg())) {
+    return { error: 'FFmpeg is required for alignment.' };
+  }
+  const { entry } = request;
+  try {
+    const segments = nudgeSegments(entry.segments, request.nudgeMs);
+    const result = await muxAligned(
+      entry.video,
+      entry.audio,
+      { tempo: entry.tempo, segments },
+      entry.audioDurationMs,
+      entry.output,
+      request.outputProfile
+    );
+    if (result.error) return { error: result.error };
+    const updated: AlignmentReportEntry = {
+      ...entry,
+      offsetMs: Math.round(entry.offsetMs - request.nudgeMs),
+      segments,
+      skipped: undefined,
+      reviewed: true,
+    };
+    return { success: true, entry: updated };
+  } catch (error) {
+    safeError('Alignment re-mux error:', error);
+    return { error: (error as Error).message };
+  }
+});
+
 // File dialog
-ipcMain.handle('dialog:saveFile', async () => {
+ipcMain.handle('dialog:saveFile', async (_, profile?: OutputProfile) => {
   const { dialog } = await import('electron');
-  const result = await dialog.showSaveDialog(mainWindow!, {
-    filters: [
-      { name: 'MP3 Audio', extensions: ['mp3'] },
-      { name: 'WAV Audio', extensions: ['wav'] },
-    ],
-  });
+  // Without a profile keep offering both formats the speech providers write natively
+  const filters = profile
+    ? [OUTPUT_FORMAT_FILTERS[profile.format]]
+    : [OUTPUT_FORMAT_FILTERS.mp3, OUTPUT_FORMAT_FILTERS.wav];
+  const result = await dialog.showSaveDialog(mainWindow!, { filters });
   return result.filePath;
 });
 
@@ -1317,6 +3001,26 @@ ipcMain.handle('dialog:saveAlignOutput', async () => {
   return { path: result.filePath, canceled: false };
 });
 
+ipcMain.handle('dialog:saveVideoExport', async (_, suggestedName?: string, mode: VideoExportMode = 'soft') => {
+  const { dialog } = await import('electron');
+  // Burned-in output is re-encoded with H.264, which MP4 carries best
+  const filters =
+    mode === 'burn'
+      ? [{ name: 'MP4 Video', extensions: ['mp4'] }]
+      : [
+          { name: 'Matroska Video', extensions: ['mkv'] },
+          { name: 'MP4 Video', extensions: ['mp4'] },
+        ];
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    defaultPath: suggestedName ? `${suggestedName}.${filters[0].extensions[0]}` : undefined,
+    filters,
+  });
+  if (result.canceled || !result.filePath) {
+    return { canceled: true };
+  }
+  return { path: result.filePath, canceled: false };
+});
+
 ipcMain.handle('alignment:saveOutput', async (_, sourcePath: string, suggestedName?: string) => {
   try {
     if (!fs.existsSync(sourcePath)) {
@@ -1356,7 +3060,33 @@ ipcMain.handle('dialog:pickAlignPaths', async (_, kind: 'video' | 'audio') => {
     return { canceled: true, paths: [] };
   }
 
-  return { paths: result.filePaths, canceled: false };
+  // Folders contribute their media files, one level deep
+  const extensions = kind === 'video' ? ALIGN_VIDEO_EXTENSIONS : ALIGN_AUDIO_EXTENSIONS;
+  const paths = result.filePaths.flatMap((selected) => {
+    try {
+      if (!fs.statSync(selected).isDirectory()) return [selected];
+      return fs
+        .readdirSync(selected)
+        .filter((name) => extensions.includes(path.extname(name).slice(1).toLowerCase()))
+        .sort()
+        .map((name) => path.join(selected, name));
+    } catch {
+      return [];
+    }
+  });
+
+  return { paths, canceled: false };
+});
+
+ipcMain.handle('alignment:probeDurations', async (_, paths: string[]) => {
+  if (!(await checkFfmpeg())) {
+    return { error: 'FFmpeg is required for alignment.' };
+  }
+  const durations: Record<string, number> = {};
+  for (const filePath of paths) {
+    durations[filePath] = Math.round((await getAudioDuration(filePath)) * 1000);
+  }
+  return { durations };
 });
 
 ipcMain.handle('dialog:chooseFolder', async () => {
@@ -1399,7 +3129,12 @@ ipcMain.handle('dialog:openSrtFile', async () => {
   const { dialog } = await import('electron');
   const result = await dialog.showOpenDialog(mainWindow!, {
     properties: ['openFile'],
-    filters: [{ name: 'SubRip Subtitle', extensions: ['srt'] }],
+    filters: [
+      { name: 'Subtitles', extensions: ['srt', 'vtt', 'ass', 'ssa'] },
+      SUBTITLE_FILE_FILTERS.srt,
+      SUBTITLE_FILE_FILTERS.vtt,
+      { name: 'SubStation Alpha', extensions: ['ass', 'ssa'] },
+    ],
   });
 
   if (result.canceled || result.filePaths.length === 0) {
@@ -1407,14 +3142,95 @@ ipcMain.handle('dialog:openSrtFile', async () => {
   }
 
   try {
-    const filePath = result.filePaths[0];
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return { path: filePath, content };
+    const filePath = result.filePaths[0];
+    const content = fs.readFileSync(filePath, 'utf-8');
+    return { path: filePath, content };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+});
+
+function readRecentProjects(): string[] {
+  try {
+    if (fs.existsSync(RECENT_PROJECTS_PATH)) {
+      const parsed = JSON.parse(fs.readFileSync(RECENT_PROJECTS_PATH, 'utf-8'));
+      if (Array.isArray(parsed)) {
+        return parsed.filter((entry): entry is string => typeof entry === 'string' && fs.existsSync(entry));
+      }
+    }
+  } catch (error) {
+    safeWarn('Error reading recent projects:', error);
+  }
+  return [];
+}
+
+function rememberRecentProject(projectPath: string): void {
+  try {
+    const recent = [projectPath, ...readRecentProjects().filter((entry) => entry !== projectPath)].slice(
+      0,
+      MAX_RECENT_PROJECTS
+    );
+    fs.writeFileSync(RECENT_PROJECTS_PATH, JSON.stringify(recent, null, 2));
+  } catch (error) {
+    safeWarn('Error saving recent projects:', error);
+  }
+}
+
+function readProjectFile(projectPath: string): { path?: string; content?: string; error?: string } {
+  try {
+    const content = fs.readFileSync(projectPath, 'utf-8');
+    rememberRecentProject(projectPath);
+    return { path: projectPath, content };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+ipcMain.handle('dialog:openProject', async () => {
+  const { dialog } = await import('electron');
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    properties: ['openFile'],
+    filters: [PROJECT_FILE_FILTER],
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { canceled: true };
+  }
+  return readProjectFile(result.filePaths[0]);
+});
+
+ipcMain.handle('dialog:saveProject', async (_, content: string, currentPath?: string, suggestedName?: string) => {
+  let targetPath = currentPath;
+  if (!targetPath) {
+    const { dialog } = await import('electron');
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      defaultPath: `${suggestedName || 'project'}.${PROJECT_FILE_FILTER.extensions[0]}`,
+      filters: [PROJECT_FILE_FILTER],
+    });
+    if (result.canceled || !result.filePath) {
+      return { canceled: true };
+    }
+    targetPath = result.filePath;
+  }
+
+  try {
+    fs.writeFileSync(targetPath, content, 'utf-8');
+    rememberRecentProject(targetPath);
+    return { path: targetPath };
   } catch (error) {
     return { error: (error as Error).message };
   }
 });
 
+ipcMain.handle('project:getRecent', async () => ({ paths: readRecentProjects() }));
+
+ipcMain.handle('project:openRecent', async (_, projectPath: string) => {
+  if (!fs.existsSync(projectPath)) {
+    return { error: `Project file not found: ${projectPath}` };
+  }
+  return readProjectFile(projectPath);
+});
+
 // Play audio file
 ipcMain.handle('audio:play', async (_, filePath: string) => {
   if (mainWindow) {
@@ -1456,27 +3272,23 @@ async function getAudioDuration(filePath: string): Promise<number> {
   });
 }
 
-// Helper to generate silence file
-async function generateSilence(duration: number, outputPath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    // ffmpeg -f lavfi -i anullsrc=r=24000:cl=mono -t <seconds> -q:a 9 output.mp3
-  const args = [
-    '-f', 'lavfi',
-    '-i', 'anullsrc=r=24000:cl=mono',
-    '-t', duration.toString(),
-    '-ar', '48000',
-    '-ac', '2',
-    '-c:a', 'libmp3lame',
-    '-b:a', '320k',
-    '-y',
-    outputPath
-  ];
-    
-    const process = spawn('ffmpeg', args);
-    process.on('close', (code) => {
-      if (code === 0) resolve();
-      else reject(new Error(`FFmpeg silence generation failed with code ${code}`));
+// Codec names of the audio and subtitle streams, in stream order
+async function probeStreamCodecs(filePath: string): Promise<{ audio: string[]; subtitle: string[] }> {
+  return new Promise((resolve) => {
+    const process = spawn('ffmpeg', ['-i', filePath]);
+    let output = '';
+
+    process.stderr.on('data', (data) => (output += data.toString()));
+
+    process.on('close', () => {
+      const input = output.split(/^Output #/m)[0];
+      const codecs = { audio: [] as string[], subtitle: [] as string[] };
+      for (const match of input.matchAll(/Stream #0:\d+.*?: (Audio|Subtitle): (\w+)/g)) {
+        codecs[match[1] === 'Audio' ? 'audio' : 'subtitle'].push(match[2]);
+      }
+      resolve(codecs);
     });
+    process.on('error', () => resolve({ audio: [], subtitle: [] }));
   });
 }
 
@@ -1662,6 +3474,58 @@ ipcMain.handle('subtitle:prepareAudioForPlayback', async (_, inputPath: string)
   }
 });
 
+// Crash-safe session snapshots for Create Subtitles. Each write is a new file so a crash
+// mid-write can never corrupt the previous snapshot; only the newest few are kept.
+function listAutosaveSnapshots(): string[] {
+  if (!fs.existsSync(AUTOSAVE_DIR)) return [];
+  return fs
+    .readdirSync(AUTOSAVE_DIR)
+    .filter((file) => /^session-\d+\.json$/.test(file))
+    .sort()
+    .reverse()
+    .map((file) => path.join(AUTOSAVE_DIR, file));
+}
+
+ipcMain.handle('autosave:write', async (_, content: string) => {
+  try {
+    fs.mkdirSync(AUTOSAVE_DIR, { recursive: true });
+    const targetPath = path.join(AUTOSAVE_DIR, `session-${Date.now()}.json`);
+    const partialPath = `${targetPath}.partial`;
+    fs.writeFileSync(partialPath, content, 'utf-8');
+    fs.renameSync(partialPath, targetPath);
+    listAutosaveSnapshots()
+      .slice(MAX_AUTOSAVE_SNAPSHOTS)
+      .forEach((file) => fs.rmSync(file, { force: true }));
+    return { success: true, path: targetPath };
+  } catch (error) {
+    safeError('Autosave error:', error);
+    return { error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('autosave:getLatest', async () => {
+  // Fall back to older snapshots if the newest one is unreadable
+  for (const file of listAutosaveSnapshots()) {
+    try {
+      const content = fs.readFileSync(file, 'utf-8');
+      JSON.parse(content);
+      return { path: file, content };
+    } catch (error) {
+      safeWarn('Skipping unreadable autosave snapshot:', file, error);
+    }
+  }
+  return {};
+});
+
+ipcMain.handle('autosave:clear', async () => {
+  try {
+    fs.rmSync(AUTOSAVE_DIR, { recursive: true, force: true });
+    return { success: true };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+});
+
 ipcMain.handle('subtitle:ensureTempSrt', async (_, suggestedName?: string) => {
   const tempDir = fs.mkdtempSync(path.join(app.getPath('temp'), 'tts-subs-'));
   const baseName = suggestedName
@@ -1683,11 +3547,11 @@ ipcMain.handle('subtitle:writeSrt', async (_, targetPath: string, content: strin
   }
 });
 
-ipcMain.handle('subtitle:saveSrt', async (_, content: string, suggestedName?: string) => {
+ipcMain.handle('subtitle:saveSrt', async (_, content: string, suggestedName?: string, format: SubtitleFormat = 'srt') => {
   const { dialog } = await import('electron');
   const result = await dialog.showSaveDialog(mainWindow!, {
-    defaultPath: suggestedName ? `${suggestedName}.srt` : 'subtitles.srt',
-    filters: [{ name: 'SubRip Subtitle', extensions: ['srt'] }],
+    defaultPath: `${suggestedName || 'subtitles'}.${format}`,
+    filters: [SUBTITLE_FILE_FILTERS[format]],
   });
 
   if (result.canceled || !result.filePath) {
@@ -1715,15 +3579,116 @@ ipcMain.handle('subtitle:translateWithGemini', async (_, text: string, apiKey: s
   }
 });
 
-// System (Local Native) TTS - Windows (SAPI5) and macOS (say)
-ipcMain.handle('system:saveToFile', async (_, text: string, voiceName: string, outputPath: string, speed?: number) => {
+// Linux system voices: espeak-ng (or legacy espeak) and Piper ONNX models
+function runCommand(command: string, args: string[], input?: string): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args);
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (d) => (stdout += d.toString()));
+    child.stderr.on('data', (d) => (stderr += d.toString()));
+    child.on('error', (err) => resolve({ code: -1, stdout, stderr: err.message }));
+    child.on('close', (code) => resolve({ code, stdout, stderr }));
+    if (input !== undefined) {
+      child.stdin.write(input);
+    }
+    child.stdin.end();
+  });
+}
+
+async function findEspeakBinary(): Promise<string | null> {
+  for (const candidate of ['espeak-ng', 'espeak']) {
+    const result = await runCommand(candidate, ['--version']);
+    if (result.code === 0) return candidate;
+  }
+  return null;
+}
+
+async function listLinuxVoices(): Promise<Voice[]> {
+  const voices: Voice[] = [];
+
+  const espeak = await findEspeakBinary();
+  if (espeak) {
+    const result = await runCommand(espeak, ['--voices']);
+    // Columns: Pty Language Age/Gender VoiceName File Other Languages
+    result.stdout
+      .split('\n')
+      .slice(1)
+      .forEach((line) => {
+        const cols = line.trim().split(/\s+/);
+        if (cols.length < 5) return;
+        voices.push({ id: `espeak:${cols[1]}`, name: `${cols[3]} (eSpeak NG)`, language: cols[1] });
+      });
+  }
+
+  if (fs.existsSync(PIPER_VOICES_DIR)) {
+    fs.readdirSync(PIPER_VOICES_DIR)
+      .filter((file) => file.endsWith('.onnx'))
+      .forEach((file) => {
+        const modelName = path.basename(file, '.onnx');
+        voices.push({
+          id: `piper:${path.join(PIPER_VOICES_DIR, file)}`,
+          name: `${modelName} (Piper)`,
+          language: modelName.split('-')[0].replace('_', '-'),
+        });
+      });
+  }
+
+  return voices;
+}
+
+async function synthesizeLinux(text: string, voiceName: string, wavPath: string, speed: number): Promise<{ success?: boolean; error?: string }> {
+  const voices = await listLinuxVoices();
+  const voice = voices.find((v) => v.name === voiceName || v.id === voiceName);
+
+  if (voice?.id.startsWith('piper:')) {
+    const modelPath = voice.id.slice('piper:'.length);
+    const result = await runCommand(
+      'piper',
+      ['--model', modelPath, '--output_file', wavPath, '--length_scale', `${1 / speed}`],
+      text
+    );
+    if (result.code === 0 && fs.existsSync(wavPath)) return { success: true };
+    return { error: `Piper error: ${result.stderr || 'piper is not installed'}` };
+  }
+
+  const espeak = await findEspeakBinary();
+  if (!espeak) {
+    return { error: 'No Linux TTS engine found. Install espeak-ng or add Piper voices to ' + PIPER_VOICES_DIR };
+  }
+  const espeakVoice = voice?.id.startsWith('espeak:') ? voice.id.slice('espeak:'.length) : voiceName.replace(/ \(.*\)$/, '');
+  const args = ['-w', wavPath, '-s', `${Math.round(ESPEAK_DEFAULT_WPM * speed)}`, '--stdin'];
+  if (espeakVoice) args.unshift('-v', espeakVoice);
+  const result = await runCommand(espeak, args, text);
+  if (result.code === 0 && fs.existsSync(wavPath)) return { success: true };
+  return { error: `${espeak} error: ${result.stderr}` };
+}
+
+ipcMain.handle('system:getVoices', async () => {
+  if (process.platform !== 'linux') {
+    return { voices: [] };
+  }
+  try {
+    return { voices: await listLinuxVoices() };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+});
+
+// System (Local Native) TTS - Windows (SAPI5), macOS (say) and Linux (espeak-ng / Piper)
+async function systemSaveToFile(text: string, voiceName: string, outputPath: string, speed?: number, profile?: OutputProfile): Promise<ProviderSaveResult> {
   const hasFfmpeg = await checkFfmpeg();
   const isMp3 = outputPath.toLowerCase().endsWith('.mp3');
+  // Linux engines take a rate directly, so no atempo pass is needed there
+  const nativeSpeed = process.platform === 'linux';
   
   if (isMp3 && !hasFfmpeg) {
      return { error: 'FFmpeg is required to save as MP3. Please install FFmpeg or save as WAV.' };
   }
-  if (speed && speed !== 1 && !hasFfmpeg) {
+  if (profile && !hasFfmpeg) {
+     return { error: 'FFmpeg is required to encode to the selected output profile.' };
+  }
+  if (speed && speed !== 1 && !hasFfmpeg && !nativeSpeed) {
       return { error: 'FFmpeg is required to adjust audio speed.' };
   }
 
@@ -1778,6 +3743,10 @@ ipcMain.handle('system:saveToFile', async (_, text: string, voiceName: string, o
         child.on('error', err => resolve({ error: err.message }));
       });
     } catch (error) { saveResult = { error: (error as Error).message }; }
+  } else if (process.platform === 'linux') {
+    try {
+      saveResult = await synthesizeLinux(text, voiceName, tempWavPath, speed || 1);
+    } catch (error) { saveResult = { error: (error as Error).message }; }
   }
 
   if (!saveResult.success) {
@@ -1788,7 +3757,7 @@ ipcMain.handle('system:saveToFile', async (_, text: string, voiceName: string, o
   let currentPath = tempWavPath;
 
   // Apply speed adjustment if needed
-  if (speed && speed !== 1) {
+  if (speed && speed !== 1 && !nativeSpeed) {
       const speedWavPath = path.join(app.getPath('temp'), `tts_sys_speed_${Date.now()}.wav`);
       const result = await adjustAudioSpeed(currentPath, speedWavPath, speed);
       
@@ -1801,8 +3770,12 @@ ipcMain.handle('system:saveToFile', async (_, text: string, voiceName: string, o
       currentPath = speedWavPath;
   }
 
-  // Finalize: Convert to MP3 if requested, or move WAV to final destination
-  if (isMp3) {
+  // Finalize: encode to the output profile or MP3 if requested, or move WAV to final destination
+  if (profile) {
+    const result = await encodeAudio(currentPath, outputPath, profile);
+    try { fs.unlinkSync(currentPath); } catch (e) {}
+    return result;
+  } else if (isMp3) {
     return new Promise((resolve) => {
       const ffmpeg = spawn('ffmpeg', ['-y', '-i', currentPath, '-codec:a', 'libmp3lame', '-qscale:a', '2', outputPath]);
       ffmpeg.on('close', (code) => {
@@ -1825,128 +3798,581 @@ ipcMain.handle('system:saveToFile', async (_, text: string, voiceName: string, o
           return { error: `Failed to save file: ${(e as Error).message}` };
       }
   }
+}
+
+ipcMain.handle('system:saveToFile', (_, text: string, voiceName: string, outputPath: string, speed?: number, profile?: OutputProfile) =>
+  systemSaveToFile(text, voiceName, outputPath, speed, profile)
+);
+
+// --- TTS generation queue ---
+// Local engines render one clip at a time; cloud limits are conservative defaults for entry-level plans
+const DEFAULT_PROVIDER_LIMITS: Record<TTSServiceType, ProviderLimits> = {
+  sapi5: { concurrency: 1, ratePerMinute: 600 },
+  webspeech: { concurrency: 1, ratePerMinute: 600 },
+  azure: { concurrency: 4, ratePerMinute: 180 },
+  elevenlabs: { concurrency: 2, ratePerMinute: 60 },
+  google: { concurrency: 4, ratePerMinute: 300 },
+  gemini: { concurrency: 1, ratePerMinute: 10 },
+};
+const TTS_QUEUE_MAX_RETRIES = 4;
+const TTS_QUEUE_BACKOFF_MS = 1000;
+const TTS_QUEUE_MAX_BACKOFF_MS = 30000;
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Concurrency slots plus a token bucket refilled at ratePerMinute. Limits can be changed while
+ * work is queued; they apply from the next acquisition.
+ */
+function createProviderLimiter(initial: ProviderLimits) {
+  let limits = initial;
+  let active = 0;
+  let tokens = Math.min(limits.ratePerMinute, limits.concurrency);
+  let lastRefill = Date.now();
+  const waiting: (() => void)[] = [];
+
+  const takeToken = async () => {
+    for (;;) {
+      const now = Date.now();
+      const perMs = limits.ratePerMinute / 60000;
+      tokens = Math.min(Math.max(1, limits.concurrency), tokens + (now - lastRefill) * perMs);
+      lastRefill = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await wait(Math.ceil((1 - tokens) / perMs));
+    }
+  };
+
+  return {
+    setLimits(next: ProviderLimits) {
+      limits = next;
+    },
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      while (active >= limits.concurrency) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+      active++;
+      try {
+        await takeToken();
+        return await task();
+      } finally {
+        active--;
+        waiting.shift()?.();
+      }
+    },
+  };
+}
+
+// Shared across jobs so separate runs against one provider still respect its limits together
+const providerLimiters = new Map<TTSServiceType, ReturnType<typeof createProviderLimiter>>();
+
+function getProviderLimiter(type: TTSServiceType, override?: ProviderLimits) {
+  const limits = {
+    concurrency: Math.max(1, Math.round(override?.concurrency ?? DEFAULT_PROVIDER_LIMITS[type].concurrency)),
+    ratePerMinute: Math.max(1, override?.ratePerMinute ?? DEFAULT_PROVIDER_LIMITS[type].ratePerMinute),
+  };
+  let limiter = providerLimiters.get(type);
+  if (!limiter) {
+    limiter = createProviderLimiter(limits);
+    providerLimiters.set(type, limiter);
+  } else {
+    limiter.setLimits(limits);
+  }
+  return limiter;
+}
+
+function synthesizeToFile(service: TTSService, text: string, outputPath: string): Promise<ProviderSaveResult> {
+  const speed = service.speedFactor ?? 1;
+  switch (service.type) {
+    case 'sapi5':
+    case 'webspeech':
+      return systemSaveToFile(text, service.voiceName, outputPath, speed);
+    case 'azure':
+      if (!service.apiKey || !service.region) return Promise.resolve({ error: 'API key and region are required for Azure' });
+      return azureSaveToFile(text, service.voiceId, service.apiKey, service.region, outputPath, speed);
+    case 'elevenlabs':
+      if (!service.apiKey) return Promise.resolve({ error: 'API key is required for ElevenLabs' });
+      return elevenLabsSaveToFile(text, service.voiceId, service.apiKey, outputPath, service.modelId, speed);
+    case 'google':
+      if (!service.apiKey) return Promise.resolve({ error: 'API key is required for Google Cloud TTS' });
+      return googleSaveToFile(text, service.voiceId, service.apiKey, outputPath, speed);
+    case 'gemini':
+      if (!service.apiKey) return Promise.resolve({ error: 'API key is required for Gemini' });
+      return geminiSaveToFile(text, service.voiceId, service.apiKey, outputPath, service.style, speed);
+    default:
+      return Promise.resolve({ error: 'Unknown service type' });
+  }
+}
+
+const isRetryableStatus = (status?: number) => status === 429 || (status !== undefined && status >= 500);
+
+// Pause and cancel flags for running jobs, keyed by job id
+interface TtsQueueJobControl {
+  paused: boolean;
+  cancelled: boolean;
+  resumers: (() => void)[];
+}
+
+const ttsQueueJobs = new Map<string, TtsQueueJobControl>();
+
+function releaseTtsQueueJob(control: TtsQueueJobControl) {
+  control.resumers.splice(0).forEach((resume) => resume());
+}
+
+/**
+ * Render every task through its provider's limiter, retrying rate-limit and server errors with
+ * exponential backoff. Failed tasks are reported in the results rather than stopping the job.
+ */
+async function runTtsQueue(jobId: string, tasks: TtsQueueTask[], options: TtsQueueOptions = {}) {
+  const maxRetries = options.maxRetries ?? TTS_QUEUE_MAX_RETRIES;
+  const control: TtsQueueJobControl = { paused: false, cancelled: false, resumers: [] };
+  ttsQueueJobs.set(jobId, control);
+  let completed = 0;
+  let failed = 0;
+  const send = (event: Omit<TtsQueueProgressEvent, 'jobId' | 'completed' | 'failed' | 'total'>) => {
+    mainWindow?.webContents.send('ttsQueue:progress', { jobId, completed, failed, total: tasks.length, ...event });
+  };
+
+  // Resolves once the job may go on; true when it has been cancelled meanwhile
+  const held = async () => {
+    while (control.paused && !control.cancelled) {
+      await new Promise<void>((resolve) => control.resumers.push(resolve));
+    }
+    return control.cancelled;
+  };
+
+  const runTask = async (task: TtsQueueTask): Promise<TtsQueueTaskResult> => {
+    const limiter = getProviderLimiter(task.service.type, options.limits?.[task.service.type]);
+    for (let attempt = 1; ; attempt++) {
+      if (await held()) {
+        send({ taskId: task.id, state: 'cancelled', attempt });
+        return { id: task.id, error: 'Cancelled', cancelled: true, attempts: attempt - 1 };
+      }
+      let result: ProviderSaveResult | null;
+      try {
+        result = await limiter.run(async () => {
+          // Paused while waiting for a slot: give the slot back without spending the attempt
+          if (control.paused || control.cancelled) return null;
+          send({ taskId: task.id, state: 'running', attempt });
+          return synthesizeToFile(task.service, task.text, task.outputPath);
+        });
+      } catch (error) {
+        result = { error: (error as Error).message };
+      }
+      if (!result) {
+        attempt--;
+        continue;
+      }
+      if (!result.error && result.path) {
+        completed++;
+        send({ taskId: task.id, state: 'done', attempt, path: result.path });
+        return { id: task.id, path: result.path, attempts: attempt };
+      }
+      if (attempt <= maxRetries && isRetryableStatus(result.status) && !control.cancelled) {
+        const retryInMs = Math.min(TTS_QUEUE_MAX_BACKOFF_MS, TTS_QUEUE_BACKOFF_MS * 2 ** (attempt - 1)) + Math.random() * 250;
+        safeWarn(`[TTS queue] ${task.id} got ${result.status}, retrying in ${Math.round(retryInMs)} ms`);
+        send({ taskId: task.id, state: 'retrying', attempt, error: result.error, retryInMs: Math.round(retryInMs) });
+        await wait(retryInMs);
+        continue;
+      }
+      failed++;
+      const error = result.error || 'unknown error';
+      send({ taskId: task.id, state: 'failed', attempt, error });
+      return { id: task.id, error, attempts: attempt };
+    }
+  };
+
+  try {
+    return { results: await Promise.all(tasks.map(runTask)) };
+  } finally {
+    ttsQueueJobs.delete(jobId);
+  }
+}
+
+ipcMain.handle('ttsQueue:run', async (_, jobId: string, tasks: TtsQueueTask[], options?: TtsQueueOptions) => {
+  try {
+    return await runTtsQueue(jobId, tasks, options);
+  } catch (error) {
+    return { error: (error as Error).message, results: [] };
+  }
+});
+
+// Clips already rendering finish; pause and cancel take effect before the next request
+ipcMain.handle('ttsQueue:pause', async (_, jobId: string) => {
+  const control = ttsQueueJobs.get(jobId);
+  if (!control) return false;
+  control.paused = true;
+  return true;
+});
+
+ipcMain.handle('ttsQueue:resume', async (_, jobId: string) => {
+  const control = ttsQueueJobs.get(jobId);
+  if (!control) return false;
+  control.paused = false;
+  releaseTtsQueueJob(control);
+  return true;
+});
+
+ipcMain.handle('ttsQueue:cancel', async (_, jobId: string) => {
+  const control = ttsQueueJobs.get(jobId);
+  if (!control) return false;
+  control.cancelled = true;
+  releaseTtsQueueJob(control);
+  return true;
 });
 
 // Mix audio clips for subtitles
-ipcMain.handle('system:mixAudio', async (_, clips: { path: string; startTime: number }[], outputPath: string, backgroundPath?: string) => {
-  if (!(await checkFfmpeg())) {
-    return { error: 'FFmpeg is required for mixing audio.' };
+// --- Loudness normalization (two-pass EBU R128 loudnorm) ---
+function parseLoudnormJson(stderr: string): Record<string, string> | null {
+  const match = stderr.match(/\{[^{}]*"input_i"[^{}]*\}/g);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[match.length - 1]);
+  } catch {
+    return null;
   }
+}
 
-  const tempDir = fs.mkdtempSync(path.join(app.getPath('temp'), 'tts-mix-'));
-  const concatListPath = path.join(tempDir, 'concat_list.txt');
-  const ttsTimelinePath = path.join(tempDir, 'tts_timeline.mp3');
-  let concatFileContent = '';
-  let currentTime = 0;
+function runLoudnormPass(args: string[]): Promise<{ stats?: Record<string, string>; error?: string }> {
+  return new Promise((resolve) => {
+    const ff = spawn('ffmpeg', args, { windowsHide: true });
+    let errorOutput = '';
+    ff.stderr.on('data', (d) => (errorOutput += d.toString()));
+    ff.on('close', (code) => {
+      const stats = parseLoudnormJson(errorOutput);
+      if (code === 0 && stats) {
+        resolve({ stats });
+      } else {
+        resolve({ error: `Loudness normalization failed: ${errorOutput.slice(-4000)}` });
+      }
+    });
+  });
+}
+
+// Measure first, then apply a linear gain with the measured values so the whole file lands on target
+async function normalizeLoudness(
+  inputPath: string,
+  outputPath: string,
+  options: LoudnessOptions,
+  profile?: OutputProfile
+): Promise<{ report?: LoudnessReport; error?: string }> {
+  const target = `I=${options.integrated}:TP=${options.truePeak}:LRA=${options.lra}`;
+  const measure = await runLoudnormPass([
+    '-hide_banner',
+    '-i',
+    inputPath,
+    '-af',
+    `loudnorm=${target}:print_format=json`,
+    '-f',
+    'null',
+    '-',
+  ]);
+  if (!measure.stats) return { error: measure.error };
+
+  const m = measure.stats;
+  if (!Number.isFinite(Number(m.input_i))) {
+    return { error: 'The mix is silent, so its loudness cannot be normalized.' };
+  }
+  const apply = await runLoudnormPass([
+    '-hide_banner',
+    '-y',
+    '-i',
+    inputPath,
+    '-af',
+    `loudnorm=${target}:measured_I=${m.input_i}:measured_TP=${m.input_tp}:measured_LRA=${m.input_lra}:measured_thresh=${m.input_thresh}:offset=${m.target_offset}:linear=true:print_format=json`,
+    ...outputProfileArgs(profile),
+    outputPath,
+  ]);
+  if (!apply.stats) return { error: apply.error };
+
+  const a = apply.stats;
+  return {
+    report: {
+      target: { ...options },
+      input: { integrated: Number(m.input_i), truePeak: Number(m.input_tp), lra: Number(m.input_lra) },
+      output: { integrated: Number(a.output_i), truePeak: Number(a.output_tp), lra: Number(a.output_lra) },
+      normalizationType: a.normalization_type === 'linear' ? 'linear' : 'dynamic',
+    },
+  };
+}
 
+// Encode the lossless intermediate mix to the output profile, normalizing its loudness on the way if asked
+async function finishMix(
+  renderedPath: string,
+  outputPath: string,
+  tempDir: string,
+  loudness?: LoudnessOptions,
+  profile?: OutputProfile
+) {
   try {
-    // Sort clips by start time just in case
-    clips.sort((a, b) => a.startTime - b.startTime);
-
-    for (let i = 0; i < clips.length; i++) {
-      const clip = clips[i];
-      const gap = clip.startTime - currentTime;
-
-      if (gap > 0) { 
-        const silencePath = path.join(tempDir, `silence_${i}.mp3`);
-        await generateSilence(gap / 1000, silencePath);
-        concatFileContent += `file '${silencePath.replace(/\\/g, '/')}'\n`;
-        currentTime += gap;
-      }
+    if (!loudness) {
+      return await encodeAudio(renderedPath, outputPath, profile);
+    }
+    const result = await normalizeLoudness(renderedPath, outputPath, loudness, profile);
+    if (result.error) return { error: result.error };
+    safeLog(`Loudness normalized ${outputPath}: ${JSON.stringify(result.report?.output)}`);
+    return { success: true, path: outputPath, loudness: result.report };
+  } catch (err) {
+    return { error: (err as Error).message };
+  } finally {
+    try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch (e) {}
+  }
+}
 
-      // We need to know the duration of this clip to update currentTime
-      // Or we can just trust the file.
-      concatFileContent += `file '${clip.path.replace(/\\/g, '/')}'\n`;
-      
-      const duration = await getAudioDuration(clip.path);
-      currentTime += duration * 1000;
-    }
-
-    fs.writeFileSync(concatListPath, concatFileContent);
-
-    // First build the TTS timeline
-    const concatResult = await new Promise<{ ok: boolean; err?: string }>((resolve) => {
-      const ffmpegConcat = spawn('ffmpeg', [
-        '-f',
-        'concat',
-        '-safe',
-        '0',
-        '-i',
-        concatListPath,
-        '-c:a',
-        'libmp3lame',
-        '-b:a',
-        '320k',
-        '-ar',
-        '48000',
-        '-ac',
-        '2',
-        '-y',
-        ttsTimelinePath,
-      ]);
-      let err = '';
-      ffmpegConcat.stderr.on('data', (d) => (err += d.toString()));
-      ffmpegConcat.on('close', (code) => resolve({ ok: code === 0, err }));
+// Matches the sidechaincompress values system:mixAudio has always used
+const DEFAULT_MIX_DUCKING: DuckingSettings = {
+  enabled: true,
+  mode: 'sidechain',
+  threshold: 0.1,
+  ratio: 12,
+  attackMs: 50,
+  releaseMs: 400,
+  depthDb: -12,
+  fadeMs: 250,
+};
+
+// Volume filters that lower the background inside each cue, ramping over fadeMs on both sides.
+// Cues whose fade windows touch are merged so the background stays down between them.
+function buildEnvelopeVolumeFilters(cues: DuckingCue[], settings: DuckingSettings): string[] {
+  const fade = Math.max(0, settings.fadeMs) / 1000;
+  const windows = cues
+    .filter((cue) => cue.enabled !== false && cue.endMs > cue.startMs)
+    .map((cue) => ({
+      from: Math.max(0, cue.startMs / 1000 - fade),
+      to: cue.endMs / 1000 + fade,
+      depthDb: Math.min(0, cue.depthDb ?? settings.depthDb),
+    }))
+    .sort((a, b) => a.from - b.from);
+
+  const merged: typeof windows = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.from <= last.to) {
+      last.to = Math.max(last.to, window.to);
+      last.depthDb = Math.min(last.depthDb, window.depthDb);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  return merged
+    .filter((window) => window.depthDb < 0)
+    .map(({ from, to, depthDb }) => {
+      const reduction = (1 - Math.pow(10, depthDb / 20)).toFixed(4);
+      const ramp = fade > 0 ? `min(1,max(0,min((t-${from.toFixed(3)})/${fade},(${to.toFixed(3)}-t)/${fade})))` : '1';
+      return `volume='1-${reduction}*${ramp}':eval=frame:enable='between(t,${from.toFixed(3)},${to.toFixed(3)})'`;
+    });
+}
+
+function buildDuckingFilter(ducking: MixDuckingOptions | undefined, padSeconds: number): string {
+  const settings = { ...DEFAULT_MIX_DUCKING, ...ducking?.settings };
+  const cues = ducking?.cues ?? [];
+  // pad TTS with silence so background isn't cut early
+  const tts = padSeconds > 0 ? `[1:a]apad=whole_dur=${padSeconds.toFixed(3)}` : '[1:a]anull';
+  const mix = '[ducked][tts]amix=inputs=2:normalize=0:duration=longest[out]';
+
+  if (!settings.enabled) {
+    return `${tts}[tts];[0:a]anull[ducked];${mix}`;
+  }
+  if (settings.mode === 'envelope') {
+    const volumes = buildEnvelopeVolumeFilters(cues, settings);
+    return `${tts}[tts];[0:a]${volumes.length ? volumes.join(',') : 'anull'}[ducked];${mix}`;
+  }
+  // Silence the compressor's key signal during cues that opt out of ducking
+  const muted = cues
+    .filter((cue) => cue.enabled === false)
+    .map((cue) => `volume=0:enable='between(t,${(cue.startMs / 1000).toFixed(3)},${(cue.endMs / 1000).toFixed(3)})'`);
+  const threshold = Math.min(1, Math.max(0.001, settings.threshold));
+  const ratio = Math.min(20, Math.max(1, settings.ratio));
+  return (
+    `${tts},asplit[tts][detector];[detector]${muted.length ? muted.join(',') : 'anull'}[key];` +
+    `[0:a][key]sidechaincompress=threshold=${threshold}:ratio=${ratio}:attack=${settings.attackMs}:release=${settings.releaseMs}:makeup=1[ducked];` +
+    mix
+  );
+}
+
+// --- Timeline rendering ---
+// Clips are decoded and summed in-process at their exact sample offsets, so cue onsets do not
+// depend on MP3 padding or accumulated durations, and overlapping clips simply mix.
+const TIMELINE_SAMPLE_RATE = 48000;
+const TIMELINE_BLOCK_FRAMES = TIMELINE_SAMPLE_RATE * 10;
+
+interface TimelineClip {
+  path: string;
+  startTime: number; // ms
+}
+
+// Clips are downmixed to mono: TTS voices are mono speech, and the timeline is written as identical
+// left and right channels, so a stereo clip keeps its level but loses its panning
+function decodeClipPcm(clipPath: string): Promise<{ samples?: Float32Array; error?: string }> {
+  return new Promise((resolve) => {
+    const ff = spawn(
+      'ffmpeg',
+      ['-v', 'error', '-i', clipPath, '-vn', '-ac', '1', '-ar', String(TIMELINE_SAMPLE_RATE), '-f', 'f32le', '-'],
+      { windowsHide: true }
+    );
+    const chunks: Buffer[] = [];
+    let errorOutput = '';
+    ff.stdout.on('data', (d: Buffer) => chunks.push(d));
+    ff.stderr.on('data', (d) => (errorOutput += d.toString()));
+    ff.on('close', (code) => {
+      if (code !== 0) {
+        resolve({ error: `Failed to decode ${path.basename(clipPath)}: ${errorOutput}` });
+        return;
+      }
+      const pcm = Buffer.concat(chunks);
+      // Copy into an aligned buffer; Buffer.concat may hand back a pooled, unaligned slice
+      const aligned = new ArrayBuffer(pcm.length - (pcm.length % 4));
+      pcm.copy(Buffer.from(aligned));
+      resolve({ samples: new Float32Array(aligned) });
     });
+    ff.on('error', (err) => resolve({ error: err.message }));
+  });
+}
+
+function wavHeader(dataBytes: number, channels: number, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+/**
+ * Render clips to a 48 kHz stereo 16-bit WAV, each starting at its startTime. Written block by
+ * block and clips are decoded only while they sound, so memory stays bounded on long timelines.
+ */
+async function renderClipTimeline(clips: TimelineClip[], outputPath: string): Promise<{ error?: string }> {
+  const toFrame = (ms: number) => Math.round((ms * TIMELINE_SAMPLE_RATE) / 1000);
+  const sorted = [...clips].sort((a, b) => a.startTime - b.startTime);
+  const active: { start: number; samples: Float32Array }[] = [];
+  let next = 0;
+  let blockStart = 0;
+  let dataBytes = 0;
+  const fd = fs.openSync(outputPath, 'w');
+  try {
+    fs.writeSync(fd, wavHeader(0, 2, TIMELINE_SAMPLE_RATE));
+    for (;;) {
+      while (next < sorted.length && toFrame(sorted[next].startTime) < blockStart + TIMELINE_BLOCK_FRAMES) {
+        const decoded = await decodeClipPcm(sorted[next].path);
+        if (!decoded.samples) return { error: decoded.error };
+        active.push({ start: toFrame(sorted[next].startTime), samples: decoded.samples });
+        next++;
+      }
+      const lastFrame =
+        next < sorted.length
+          ? blockStart + TIMELINE_BLOCK_FRAMES
+          : active.reduce((end, clip) => Math.max(end, clip.start + clip.samples.length), blockStart);
+      const frames = Math.min(TIMELINE_BLOCK_FRAMES, lastFrame - blockStart);
+      if (frames <= 0) break;
+
+      const mix = new Float32Array(frames);
+      for (const clip of active) {
+        const from = Math.max(blockStart, clip.start);
+        const to = Math.min(blockStart + frames, clip.start + clip.samples.length);
+        for (let frame = from; frame < to; frame++) {
+          mix[frame - blockStart] += clip.samples[frame - clip.start];
+        }
+      }
+      const out = new Int16Array(frames * 2);
+      for (let i = 0; i < frames; i++) {
+        // Overlapping cues can sum past full scale, so clamp rather than wrap
+        const value = Math.round(Math.max(-1, Math.min(1, mix[i])) * 32767);
+        out[i * 2] = value;
+        out[i * 2 + 1] = value;
+      }
+      fs.writeSync(fd, new Uint8Array(out.buffer));
+      dataBytes += out.byteLength;
+      blockStart += frames;
+      for (let i = active.length - 1; i >= 0; i--) {
+        if (active[i].start + active[i].samples.length <= blockStart) active.splice(i, 1);
+      }
+    }
+    fs.writeSync(fd, wavHeader(dataBytes, 2, TIMELINE_SAMPLE_RATE), 0, 44, 0);
+    return {};
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+ipcMain.handle('system:mixAudio', async (
+  _,
+  clips: TimelineClip[],
+  outputPath: string,
+  backgroundPath?: string,
+  ducking?: MixDuckingOptions,
+  loudness?: LoudnessOptions,
+  profile?: OutputProfile
+) => {
+  if (!(await checkFfmpeg())) {
+    return { error: 'FFmpeg is required for mixing audio.' };
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(app.getPath('temp'), 'tts-mix-'));
+  // Intermediate renders stay lossless; only finishMix encodes to the output profile
+  const ttsTimelinePath = path.join(tempDir, 'tts_timeline.wav');
 
-    if (!concatResult.ok) {
+  try {
+    const timeline = await renderClipTimeline(clips, ttsTimelinePath);
+    if (timeline.error) {
       try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch (e) {}
-      return { error: `FFmpeg mix failed: ${concatResult.err}` };
+      return { error: `Timeline mix failed: ${timeline.error}` };
     }
 
     if (backgroundPath) {
       // Duck background against synthesized track and mix
       const bgDuration = await getAudioDuration(backgroundPath);
-      const paddedSilenceDuration = Number.isFinite(bgDuration) && bgDuration > 0 ? bgDuration + 0.5 : 0; // pad TTS with silence so background isn't cut early
-      const duckingFilter = paddedSilenceDuration
-        ? `[1:a]apad=whole_dur=${paddedSilenceDuration.toFixed(3)}[paddedtts];[paddedtts]asplit[tts][detector];[0:a][detector]sidechaincompress=threshold=0.1:ratio=12:attack=50:release=400:makeup=1[ducked];[ducked][tts]amix=inputs=2:normalize=0:duration=longest[out]`
-        : '[1:a]asplit[tts][detector];[0:a][detector]sidechaincompress=threshold=0.1:ratio=12:attack=50:release=400:makeup=1[ducked];[ducked][tts]amix=inputs=2:normalize=0:duration=longest[out]';
+      const paddedSilenceDuration = Number.isFinite(bgDuration) && bgDuration > 0 ? bgDuration + 0.5 : 0;
+      // Written to a script file: per-cue envelopes can exceed command-line length limits
+      const filterScriptPath = path.join(tempDir, 'ducking_filter.txt');
+      fs.writeFileSync(filterScriptPath, buildDuckingFilter(ducking, paddedSilenceDuration));
 
-      return await new Promise((resolve) => {
+      const mixedPath = path.join(tempDir, 'ducked_mix.wav');
+      const duckResult = await new Promise<{ ok: boolean; err?: string }>((resolve) => {
         const ffmpeg = spawn('ffmpeg', [
           '-i',
           backgroundPath,
           '-i',
           ttsTimelinePath,
-          '-filter_complex',
-          duckingFilter,
+          '-filter_complex_script',
+          filterScriptPath,
           '-map',
           '[out]',
           '-c:a',
-          'libmp3lame',
-          '-b:a',
-          '320k',
+          'pcm_s16le',
           '-ar',
           '48000',
           '-ac',
           '2',
           '-y',
-          outputPath,
+          mixedPath,
         ]);
         let errorOutput = '';
         ffmpeg.stderr.on('data', (d) => (errorOutput += d.toString()));
-        
-        ffmpeg.on('close', (code) => {
-          try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch (e) {}
-
-          if (code === 0) {
-            resolve({ success: true, path: outputPath });
-          } else {
-            resolve({ error: `FFmpeg ducking failed: ${errorOutput}` });
-          }
-        });
+        ffmpeg.on('close', (code) => resolve({ ok: code === 0, err: errorOutput }));
       });
-    }
 
-    // No background: just move timeline to destination
-    try {
-      fs.copyFileSync(ttsTimelinePath, outputPath);
-      fs.rmSync(tempDir, { recursive: true, force: true });
-      return { success: true, path: outputPath };
-    } catch (err) {
-      try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch (e) {}
-      return { error: (err as Error).message };
+      if (!duckResult.ok) {
+        try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch (e) {}
+        return { error: `FFmpeg ducking failed: ${duckResult.err}` };
+      }
+      return await finishMix(mixedPath, outputPath, tempDir, loudness, profile);
     }
+
+    // No background: the timeline itself is the output
+    return await finishMix(ttsTimelinePath, outputPath, tempDir, loudness, profile);
   } catch (error) {
     return { error: (error as Error).message };
   }
@@ -1991,3 +4417,34 @@ ipcMain.handle('subtitle:writeConvertCache', async (_, entries: Record<string, a
     return { error: (error as Error).message };
   }
 });
+
+// The last unfinished Convert Subtitles job; written while it runs so it survives a crash
+ipcMain.handle('subtitle:readConvertJob', async () => {
+  try {
+    if (!fs.existsSync(CONVERT_JOB_PATH)) return {};
+    return { content: fs.readFileSync(CONVERT_JOB_PATH, 'utf-8') };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('subtitle:writeConvertJob', async (_, content: string) => {
+  try {
+    const partialPath = `${CONVERT_JOB_PATH}.partial`;
+    fs.writeFileSync(partialPath, content, 'utf-8');
+    fs.renameSync(partialPath, CONVERT_JOB_PATH);
+    return { success: true };
+  } catch (error) {
+    safeError('Convert job write error:', error);
+    return { error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('subtitle:clearConvertJob', async () => {
+  try {
+    fs.rmSync(CONVERT_JOB_PATH, { force: true });
+    return { success: true };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+});
@@ -5,6 +5,10 @@ export interface TTSConfig {
   defaultServiceId: string | null;
   subtitleSettings: SubtitleSettings;
   language?: string;
+  speakerVoices?: Record<string, string>; // normalized speaker name -> service id
+  outputProfile?: OutputProfile;
+  providerLimits?: Partial<Record<TTSService['type'], ProviderLimits>>;
+  alignmentReview?: AlignmentReviewSettings;
 }
 
 export interface TTSService {
@@ -21,18 +25,85 @@ export interface TTSService {
    speedFactor?: number;
 }
 
+export type TranscriptionProvider = 'gemini' | 'whisper';
+
 export interface SubtitleSettings {
   transcriptionPrompt: string;
   normalizeForTranscription?: boolean;
   useConvertCache?: boolean;
+  stripAssOverrideTags?: boolean;
+  parseSpeakerPrefixes?: boolean; // take any "NAME:" prefix as a speaker, not only mapped names
+  transcriptionProvider?: TranscriptionProvider;
+  whisperBinaryPath?: string; // whisper.cpp CLI; falls back to whisper-cli on PATH
+  whisperModelPath?: string; // ggml model file
+  whisperLanguage?: string;
+  gapMinDurationMs?: number; // shortest dialogue gap listed in Create Subtitles
+  ducking?: DuckingSettings; // last settings used by Convert Subtitles
+  loudnessTarget?: LoudnessTarget;
+  loudnessTruePeak?: number; // dBTP ceiling, overrides the target's default
+}
+
+export interface TranscriptionRequest {
+  provider: TranscriptionProvider;
+  apiKey?: string;
+  prompt?: string;
+  startMs?: number;
+  endMs?: number;
+  normalizeAudio?: boolean;
+  whisperBinaryPath?: string;
+  whisperModelPath?: string;
+  whisperLanguage?: string;
+}
+
+export interface TranscriptionSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export type AlignmentConfidence = 'high' | 'medium' | 'low';
+
+export interface AlignmentReviewSettings {
+  highScore: number; // at or above: high confidence
+  lowScore: number; // below: low confidence, flagged or skipped
+  lowConfidence: 'flag' | 'skip';
+}
+
+export interface AlignPair {
+  video: string;
+  audio: string;
 }
 
 export interface AlignmentRunOptions {
   videoPaths: string[];
   audioPaths: string[];
+  pairs?: AlignPair[]; // reviewed pairing; lexicographic order when absent
   prepend?: string;
   outputPath?: string | null;
   runId?: string;
+  outputProfile?: OutputProfile;
+  review?: AlignmentReviewSettings;
+}
+
+export type AlignmentReportFormat = 'csv' | 'json' | 'html';
+
+// A finished batch as kept in the alignment history
+export interface AlignmentRun {
+  id: string;
+  createdAt: string; // ISO timestamp
+  entries: AlignmentReportEntry[];
+}
+
+export interface AlignmentFileStatus {
+  output: boolean; // the muxed file exists
+  sources: boolean; // video, audio and the output folder exist, so it can be previewed and re-muxed
+}
+
+// Re-render one pair from the review queue with the offsets shifted by nudgeMs
+export interface AlignmentMuxRequest {
+  entry: AlignmentReportEntry;
+  nudgeMs: number; // positive delays the audio
+  outputProfile?: OutputProfile;
 }
 
 export interface AlignmentRunResult {
@@ -48,17 +119,111 @@ export interface AlignmentLogEvent {
   message: string;
 }
 
+export type DuckingMode = 'sidechain' | 'envelope';
+
+export interface DuckingSettings {
+  enabled: boolean;
+  mode: DuckingMode;
+  threshold: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+  depthDb: number;
+  fadeMs: number;
+}
+
+export interface DuckingCue {
+  startMs: number;
+  endMs: number;
+  enabled?: boolean;
+  depthDb?: number;
+}
+
+export interface MixDuckingOptions {
+  settings?: Partial<DuckingSettings>;
+  cues?: DuckingCue[];
+}
+
+export type LoudnessTarget = 'off' | 'ebu-r128' | 'atsc-a85' | 'podcast';
+
+export interface LoudnessOptions {
+  integrated: number; // LUFS / LKFS
+  truePeak: number; // dBTP
+  lra: number; // LU
+}
+
+export interface LoudnessMeasurement {
+  integrated: number;
+  truePeak: number;
+  lra: number;
+}
+
+export interface LoudnessReport {
+  target: LoudnessOptions;
+  input: LoudnessMeasurement;
+  output: LoudnessMeasurement;
+  normalizationType: 'linear' | 'dynamic';
+}
+
+export type OutputFormat = 'mp3' | 'wav' | 'flac' | 'aac' | 'opus';
+
+export interface OutputProfile {
+  format: OutputFormat;
+  sampleRate: number;
+  channels: 1 | 2;
+  bitrateKbps: number; // ignored by the lossless formats
+}
+
+export type VideoExportMode = 'soft' | 'burn';
+
+export interface VideoExportOptions {
+  videoPath: string;
+  subtitleContent: string; // SRT
+  mode: VideoExportMode;
+  outputPath: string;
+  jobId?: string;
+}
+
+export interface VideoExportProgressEvent {
+  jobId: string;
+  percent?: number;
+  message?: string;
+}
+
+export interface DescribedAudioMuxOptions {
+  videoPath: string;
+  audioPath: string;
+  outputPath: string;
+  language: string; // ISO 639-2, e.g. "eng"
+  title: string;
+}
+
 export interface AlignmentEnvCheck {
   ffmpegAvailable: boolean;
 }
 
+// Video time t plays audio at (t + offsetMs) * tempo
+export interface AlignmentSegment {
+  startMs: number; // video time
+  endMs: number;
+  offsetMs: number | null; // null: the audio has nothing for this stretch
+  score: number;
+}
+
 export interface AlignmentReportEntry {
   title: string;
   video: string;
   audio: string;
-  offsetMs: number;
-  score: number;
+  offsetMs: number; // global best offset
+  score: number; // segment scores weighted by duration
+  confidence: AlignmentConfidence;
+  tempo: number; // audio ms per video ms
+  segments: AlignmentSegment[];
+  durationMs: number; // video
+  audioDurationMs: number;
   output: string;
+  skipped?: boolean; // low confidence and not muxed; output is where a re-mux writes
+  reviewed?: boolean; // re-muxed from the review queue
 }
 
 export interface Voice {
@@ -80,10 +245,76 @@ export interface SpeakResult {
   useWebSpeech?: boolean;
 }
 
+export interface ProjectFileResult {
+  path?: string;
+  content?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
+export interface WaveformData {
+  peaks?: Float32Array; // max |sample| per bucket
+  peaksPerSecond?: number;
+  durationMs?: number;
+  spectrum?: Uint8Array; // frames x spectrumBands, 0-255, low bands first
+  spectrumBands?: number;
+  spectrumFramesPerSecond?: number;
+  error?: string;
+}
+
+export interface DialogueGap {
+  startMs: number;
+  endMs: number;
+}
+
+export interface GapDetectionOptions {
+  minGapMs?: number;
+  sensitivity?: number; // 0-1, fraction of the noise-floor-to-speech range counted as quiet
+}
+
+export interface ProviderLimits {
+  concurrency: number;
+  ratePerMinute: number;
+}
+
+export interface TtsQueueTask {
+  id: string;
+  text: string;
+  outputPath: string;
+  service: TTSService; // speedFactor is the speed to render at
+}
+
+export interface TtsQueueOptions {
+  limits?: Partial<Record<TTSService['type'], ProviderLimits>>;
+  maxRetries?: number;
+}
+
+export interface TtsQueueTaskResult {
+  id: string;
+  path?: string;
+  error?: string;
+  cancelled?: boolean; // the job was cancelled before this task finished
+  attempts: number;
+}
+
+export interface TtsQueueProgressEvent {
+  jobId: string;
+  taskId: string;
+  state: 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+  attempt: number;
+  completed: number;
+  failed: number;
+  total: number;
+  path?: string; // set on 'done'
+  error?: string;
+  retryInMs?: number;
+}
+
 export interface SaveResult {
   success?: boolean;
   path?: string;
   error?: string;
+  loudness?: LoudnessReport; // set when the render was loudness-normalized
 }
 
 const electronAPI = {
@@ -97,6 +328,25 @@ const electronAPI = {
       ipcRenderer.invoke('alignment:run', options),
     saveOutput: (sourcePath: string, suggestedName?: string): Promise<{ success?: boolean; error?: string; path?: string; canceled?: boolean }> =>
       ipcRenderer.invoke('alignment:saveOutput', sourcePath, suggestedName),
+    preview: (request: AlignmentMuxRequest): Promise<{ path?: string; error?: string }> =>
+      ipcRenderer.invoke('alignment:preview', request),
+    remux: (request: AlignmentMuxRequest): Promise<{ success?: boolean; error?: string; entry?: AlignmentReportEntry }> =>
+      ipcRenderer.invoke('alignment:remux', request),
+    probeDurations: (paths: string[]): Promise<{ durations?: Record<string, number>; error?: string }> =>
+      ipcRenderer.invoke('alignment:probeDurations', paths),
+    checkFiles: (entries: AlignmentReportEntry[]): Promise<{ files: AlignmentFileStatus[] }> =>
+      ipcRenderer.invoke('alignment:checkFiles', entries),
+    getHistory: (): Promise<{ runs: AlignmentRun[] }> => ipcRenderer.invoke('alignment:getHistory'),
+    saveHistoryRun: (run: AlignmentRun): Promise<{ success?: boolean }> =>
+      ipcRenderer.invoke('alignment:saveHistoryRun', run),
+    deleteHistoryRun: (id: string): Promise<{ success?: boolean; error?: string }> =>
+      ipcRenderer.invoke('alignment:deleteHistoryRun', id),
+    exportReport: (
+      content: string,
+      format: AlignmentReportFormat,
+      suggestedName?: string
+    ): Promise<{ path?: string; canceled?: boolean; error?: string }> =>
+      ipcRenderer.invoke('alignment:exportReport', content, format, suggestedName),
     onLog: (callback: (payload: AlignmentLogEvent) => void) => {
       const listener = (_: unknown, payload: AlignmentLogEvent) => callback(payload);
       ipcRenderer.on('alignment:log', listener);
@@ -108,31 +358,31 @@ const electronAPI = {
       ipcRenderer.invoke('azure:getVoices', apiKey, region),
     speak: (text: string, voiceId: string, apiKey: string, region: string, speed?: number): Promise<SpeakResult> =>
       ipcRenderer.invoke('azure:speak', text, voiceId, apiKey, region, speed),
-    saveToFile: (text: string, voiceId: string, apiKey: string, region: string, outputPath: string, speed?: number): Promise<SaveResult> =>
-      ipcRenderer.invoke('azure:saveToFile', text, voiceId, apiKey, region, outputPath, speed),
+    saveToFile: (text: string, voiceId: string, apiKey: string, region: string, outputPath: string, speed?: number, profile?: OutputProfile): Promise<SaveResult> =>
+      ipcRenderer.invoke('azure:saveToFile', text, voiceId, apiKey, region, outputPath, speed, profile),
   },
   elevenlabs: {
     getVoices: (apiKey: string): Promise<VoicesResult> =>
       ipcRenderer.invoke('elevenlabs:getVoices', apiKey),
     speak: (text: string, voiceId: string, apiKey: string, modelId?: string, speed?: number): Promise<SpeakResult> =>
       ipcRenderer.invoke('elevenlabs:speak', text, voiceId, apiKey, modelId, speed),
-    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, modelId?: string, speed?: number): Promise<SaveResult> =>
-      ipcRenderer.invoke('elevenlabs:saveToFile', text, voiceId, apiKey, outputPath, modelId, speed),
+    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, modelId?: string, speed?: number, profile?: OutputProfile): Promise<SaveResult> =>
+      ipcRenderer.invoke('elevenlabs:saveToFile', text, voiceId, apiKey, outputPath, modelId, speed, profile),
   },
   google: {
     getVoices: (apiKey: string): Promise<VoicesResult> =>
       ipcRenderer.invoke('google:getVoices', apiKey),
     speak: (text: string, voiceId: string, apiKey: string, speed?: number): Promise<SpeakResult> =>
       ipcRenderer.invoke('google:speak', text, voiceId, apiKey, speed),
-    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, speed?: number): Promise<SaveResult> =>
-      ipcRenderer.invoke('google:saveToFile', text, voiceId, apiKey, outputPath, speed),
+    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, speed?: number, profile?: OutputProfile): Promise<SaveResult> =>
+      ipcRenderer.invoke('google:saveToFile', text, voiceId, apiKey, outputPath, speed, profile),
   },
   gemini: {
     getVoices: (): Promise<VoicesResult> => ipcRenderer.invoke('gemini:getVoices'),
     speak: (text: string, voiceId: string, apiKey: string, stylePrompt?: string, speed?: number): Promise<SpeakResult> =>
       ipcRenderer.invoke('gemini:speak', text, voiceId, apiKey, stylePrompt, speed),
-    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, stylePrompt?: string, speed?: number): Promise<SaveResult> =>
-      ipcRenderer.invoke('gemini:saveToFile', text, voiceId, apiKey, outputPath, stylePrompt, speed),
+    saveToFile: (text: string, voiceId: string, apiKey: string, outputPath: string, stylePrompt?: string, speed?: number, profile?: OutputProfile): Promise<SaveResult> =>
+      ipcRenderer.invoke('gemini:saveToFile', text, voiceId, apiKey, outputPath, stylePrompt, speed, profile),
     transcribe: (
       audioPath: string,
       apiKey: string,
@@ -143,20 +393,39 @@ const electronAPI = {
     ): Promise<{ text?: string; error?: string }> =>
       ipcRenderer.invoke('gemini:transcribe', audioPath, apiKey, prompt, startMs, endMs, normalizeAudio),
   },
+  transcription: {
+    transcribe: (audioPath: string, request: TranscriptionRequest): Promise<{ text?: string; error?: string }> =>
+      ipcRenderer.invoke('transcription:transcribe', audioPath, request),
+    transcribeTimed: (
+      audioPath: string,
+      request: TranscriptionRequest
+    ): Promise<{ segments?: TranscriptionSegment[]; error?: string }> =>
+      ipcRenderer.invoke('transcription:transcribeTimed', audioPath, request),
+  },
   system: {
-    saveToFile: (text: string, voiceName: string, outputPath: string, speed?: number): Promise<SaveResult> =>
-      ipcRenderer.invoke('system:saveToFile', text, voiceName, outputPath, speed),
+    saveToFile: (text: string, voiceName: string, outputPath: string, speed?: number, profile?: OutputProfile): Promise<SaveResult> =>
+      ipcRenderer.invoke('system:saveToFile', text, voiceName, outputPath, speed, profile),
+    getVoices: (): Promise<VoicesResult> => ipcRenderer.invoke('system:getVoices'),
     checkFfmpeg: (): Promise<boolean> => ipcRenderer.invoke('system:checkFfmpeg'),
     createTempDir: (): Promise<string> => ipcRenderer.invoke('system:createTempDir'),
     removeDir: (dirPath: string): Promise<boolean> => ipcRenderer.invoke('system:removeDir', dirPath),
     getPlatform: (): Promise<string> => ipcRenderer.invoke('system:getPlatform'),
-    mixAudio: (clips: { path: string; startTime: number }[], outputPath: string, backgroundPath?: string): Promise<SaveResult> =>
-      ipcRenderer.invoke('system:mixAudio', clips, outputPath, backgroundPath),
+    mixAudio: (
+      clips: { path: string; startTime: number }[],
+      outputPath: string,
+      backgroundPath?: string,
+      ducking?: MixDuckingOptions,
+      loudness?: LoudnessOptions,
+      profile?: OutputProfile
+    ): Promise<SaveResult> =>
+      ipcRenderer.invoke('system:mixAudio', clips, outputPath, backgroundPath, ducking, loudness, profile),
     getAudioDuration: (path: string): Promise<{ duration?: number; error?: string }> =>
       ipcRenderer.invoke('system:getAudioDuration', path),
+    muxDescribedAudio: (options: DescribedAudioMuxOptions): Promise<{ success?: boolean; path?: string; error?: string }> =>
+      ipcRenderer.invoke('system:muxDescribedAudio', options),
   },
   dialog: {
-    saveFile: (): Promise<string | undefined> => ipcRenderer.invoke('dialog:saveFile'),
+    saveFile: (profile?: OutputProfile): Promise<string | undefined> => ipcRenderer.invoke('dialog:saveFile', profile),
     saveAlignOutput: (): Promise<{ path?: string; canceled?: boolean }> =>
       ipcRenderer.invoke('dialog:saveAlignOutput'),
     pickAlignPaths: (
@@ -169,10 +438,53 @@ const electronAPI = {
       ipcRenderer.invoke('dialog:openMediaFile'),
     openSrtFile: (): Promise<{ path?: string; content?: string; error?: string }> =>
       ipcRenderer.invoke('dialog:openSrtFile'),
+    openProject: (): Promise<ProjectFileResult> => ipcRenderer.invoke('dialog:openProject'),
+    saveProject: (content: string, currentPath?: string, suggestedName?: string): Promise<ProjectFileResult> =>
+      ipcRenderer.invoke('dialog:saveProject', content, currentPath, suggestedName),
+    saveVideoExport: (suggestedName?: string, mode?: VideoExportMode): Promise<{ path?: string; canceled?: boolean }> =>
+      ipcRenderer.invoke('dialog:saveVideoExport', suggestedName, mode),
+  },
+  ttsQueue: {
+    run: (
+      jobId: string,
+      tasks: TtsQueueTask[],
+      options?: TtsQueueOptions
+    ): Promise<{ results: TtsQueueTaskResult[]; error?: string }> => ipcRenderer.invoke('ttsQueue:run', jobId, tasks, options),
+    pause: (jobId: string): Promise<boolean> => ipcRenderer.invoke('ttsQueue:pause', jobId),
+    resume: (jobId: string): Promise<boolean> => ipcRenderer.invoke('ttsQueue:resume', jobId),
+    cancel: (jobId: string): Promise<boolean> => ipcRenderer.invoke('ttsQueue:cancel', jobId),
+    onProgress: (callback: (payload: TtsQueueProgressEvent) => void) => {
+      const listener = (_: unknown, payload: TtsQueueProgressEvent) => callback(payload);
+      ipcRenderer.on('ttsQueue:progress', listener);
+      return () => ipcRenderer.removeListener('ttsQueue:progress', listener);
+    },
+  },
+  videoExport: {
+    run: (options: VideoExportOptions): Promise<{ success?: boolean; path?: string; error?: string }> =>
+      ipcRenderer.invoke('video:exportWithSubtitles', options),
+    onProgress: (callback: (payload: VideoExportProgressEvent) => void) => {
+      const listener = (_: unknown, payload: VideoExportProgressEvent) => callback(payload);
+      ipcRenderer.on('video:exportProgress', listener);
+      return () => ipcRenderer.removeListener('video:exportProgress', listener);
+    },
+  },
+  autosave: {
+    write: (content: string): Promise<{ success?: boolean; path?: string; error?: string }> =>
+      ipcRenderer.invoke('autosave:write', content),
+    getLatest: (): Promise<{ path?: string; content?: string }> => ipcRenderer.invoke('autosave:getLatest'),
+    clear: (): Promise<{ success?: boolean; error?: string }> => ipcRenderer.invoke('autosave:clear'),
+  },
+  project: {
+    getRecent: (): Promise<{ paths: string[] }> => ipcRenderer.invoke('project:getRecent'),
+    openRecent: (projectPath: string): Promise<ProjectFileResult> => ipcRenderer.invoke('project:openRecent', projectPath),
   },
   audio: {
     play: (filePath: string): Promise<{ success: boolean }> =>
       ipcRenderer.invoke('audio:play', filePath),
+    getWaveform: (inputPath: string, includeSpectrum?: boolean): Promise<WaveformData> =>
+      ipcRenderer.invoke('audio:getWaveform', inputPath, includeSpectrum),
+    detectGaps: (inputPath: string, options?: GapDetectionOptions): Promise<{ gaps?: DialogueGap[]; error?: string }> =>
+      ipcRenderer.invoke('audio:detectGaps', inputPath, options),
     onPlayFile: (callback: (filePath: string) => void) => {
       ipcRenderer.on('audio:playFile', (_, filePath) => callback(filePath));
     },
@@ -186,14 +498,20 @@ const electronAPI = {
       ipcRenderer.invoke('subtitle:ensureTempSrt', suggestedName),
     writeSrt: (path: string, content: string): Promise<{ path: string; success: boolean; error?: string }> =>
       ipcRenderer.invoke('subtitle:writeSrt', path, content),
-    saveSrt: (content: string, suggestedName?: string): Promise<{ path?: string; error?: string }> =>
-      ipcRenderer.invoke('subtitle:saveSrt', content, suggestedName),
+    saveSrt: (content: string, suggestedName?: string, format?: 'srt' | 'vtt' | 'ass'): Promise<{ path?: string; error?: string }> =>
+      ipcRenderer.invoke('subtitle:saveSrt', content, suggestedName, format),
+    translateWithGemini: (text: string, apiKey: string, prompt: string): Promise<{ text?: string; error?: string }> =>
+      ipcRenderer.invoke('subtitle:translateWithGemini', text, apiKey, prompt),
     getConvertCacheDir: (): Promise<{ path?: string; error?: string }> =>
       ipcRenderer.invoke('subtitle:getConvertCacheDir'),
     readConvertCache: (): Promise<{ entries: Record<string, unknown>; error?: string }> =>
       ipcRenderer.invoke('subtitle:readConvertCache'),
     writeConvertCache: (entries: Record<string, unknown>): Promise<{ success?: boolean; error?: string }> =>
       ipcRenderer.invoke('subtitle:writeConvertCache', entries),
+    readConvertJob: (): Promise<{ content?: string; error?: string }> => ipcRenderer.invoke('subtitle:readConvertJob'),
+    writeConvertJob: (content: string): Promise<{ success?: boolean; error?: string }> =>
+      ipcRenderer.invoke('subtitle:writeConvertJob', content),
+    clearConvertJob: (): Promise<{ success?: boolean; error?: string }> => ipcRenderer.invoke('subtitle:clearConvertJob'),
   },
 };
 
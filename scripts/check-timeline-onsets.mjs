@@ -0,0 +1,199 @@
+// Onset accuracy check for the timeline mixer. Generates click and sweep clips, renders them at
+// known startTimes through the real system:mixAudio handler and finds where each clip landed in
+// the output by cross-correlation. Needs ffmpeg on PATH; run with `npm run test:timeline`.
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const MAIN_PATH = path.join(ROOT, 'electron', 'main.ts');
+const SAMPLE_RATE = 48000; // the mixer's timeline rate
+const TOLERANCE_MS = 2;
+const SEARCH_MS = 50; // how far around the expected onset to look
+
+// Short sweep bursts correlate to a single sharp peak; a plain tone would also match a period early or late
+const click = (t) => 0.3 * Math.sin(2 * Math.PI * (2000 * t + 200000 * t * t));
+const sweep = (t) => 0.25 * Math.sin(2 * Math.PI * (300 * t + 1500 * t * t));
+
+// Clips are deliberately out of order. C and D overlap B, G overlaps F and H spans the 10 s block edge.
+const CLIPS = [
+  { name: 'E stereo click', startTime: 2500, durationMs: 10, signal: click, channels: 2 },
+  { name: 'A click', startTime: 250, durationMs: 10, signal: click },
+  { name: 'B sweep', startTime: 1000, durationMs: 600, signal: sweep },
+  { name: 'C click inside B', startTime: 1300.5, durationMs: 10, signal: click },
+  { name: 'D 44.1 kHz sweep overlapping B', startTime: 1400, durationMs: 500, signal: sweep, sampleRate: 44100 },
+  { name: 'F mp3 sweep', startTime: 3000, durationMs: 800, signal: sweep, mp3: true },
+  { name: 'G click inside F', startTime: 3010, durationMs: 10, signal: click },
+  { name: 'H sweep across block edge', startTime: 9800, durationMs: 600, signal: sweep },
+];
+
+function sampleSignal(signal, durationMs, sampleRate) {
+  const samples = new Float32Array(Math.round((durationMs * sampleRate) / 1000));
+  for (let i = 0; i < samples.length; i++) samples[i] = signal(i / sampleRate);
+  return samples;
+}
+
+function writeWav(filePath, samples, sampleRate, channels) {
+  const data = Buffer.alloc(samples.length * channels * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767);
+    for (let channel = 0; channel < channels; channel++) data.writeInt16LE(value, (i * channels + channel) * 2);
+  }
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+  fs.writeFileSync(filePath, Buffer.concat([header, data]));
+}
+
+// First channel of a 16-bit PCM WAV, skipping any chunks ffmpeg adds before the data
+function readWavChannel(filePath) {
+  const buffer = fs.readFileSync(filePath);
+  let channels = 0;
+  let sampleRate = 0;
+  for (let offset = 12; offset + 8 <= buffer.length; ) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === 'fmt ') {
+      channels = buffer.readUInt16LE(offset + 10);
+      sampleRate = buffer.readUInt32LE(offset + 12);
+    } else if (id === 'data') {
+      const end = Math.min(buffer.length, offset + 8 + size);
+      const frames = Math.floor((end - offset - 8) / (channels * 2));
+      const samples = new Float32Array(frames);
+      for (let i = 0; i < frames; i++) samples[i] = buffer.readInt16LE(offset + 8 + i * channels * 2) / 32768;
+      return { samples, sampleRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error(`No PCM data in ${filePath}`);
+}
+
+// Load electron/main.ts with a stand-in electron module and collect its ipcMain handlers
+function loadMainHandlers(userDataDir) {
+  const handlers = new Map();
+  const electron = {
+    app: { getPath: () => userDataDir, whenReady: () => new Promise(() => {}), on: () => {} },
+    ipcMain: { handle: (channel, handler) => handlers.set(channel, handler), on: () => {} },
+    protocol: { registerSchemesAsPrivileged: () => {}, handle: () => {} },
+    BrowserWindow: class {},
+    net: {},
+  };
+  const { outputText } = ts.transpileModule(fs.readFileSync(MAIN_PATH, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+  });
+  const requireFromMain = createRequire(MAIN_PATH);
+  const module = { exports: {} };
+  new Function('require', 'module', 'exports', '__filename', '__dirname', outputText)(
+    (id) => (id === 'electron' ? electron : requireFromMain(id)),
+    module,
+    module.exports,
+    MAIN_PATH,
+    path.dirname(MAIN_PATH)
+  );
+  return handlers;
+}
+
+// Frame in output where template matches best, searched around expectedFrame
+function findOnset(output, template, expectedFrame) {
+  const radius = Math.round((SEARCH_MS * SAMPLE_RATE) / 1000);
+  let best = { frame: -1, score: -Infinity };
+  for (let frame = Math.max(0, expectedFrame - radius); frame <= expectedFrame + radius; frame++) {
+    let score = 0;
+    const length = Math.min(template.length, output.length - frame);
+    for (let i = 0; i < length; i++) score += output[frame + i] * template[i];
+    if (score > best.score) best = { frame, score };
+  }
+  return best.frame;
+}
+
+async function main() {
+  if (spawnSync('ffmpeg', ['-version']).status !== 0) {
+    console.error('ffmpeg is required on PATH to run the timeline onset check.');
+    return 1;
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'timeline-onsets-'));
+  try {
+    const clips = [];
+    for (const [index, clip] of CLIPS.entries()) {
+      const sampleRate = clip.sampleRate ?? SAMPLE_RATE;
+      const wavPath = path.join(tempDir, `clip-${index}.wav`);
+      writeWav(wavPath, sampleSignal(clip.signal, clip.durationMs, sampleRate), sampleRate, clip.channels ?? 1);
+      let clipPath = wavPath;
+      if (clip.mp3) {
+        clipPath = path.join(tempDir, `clip-${index}.mp3`);
+        const mp3Args = ['-v', 'error', '-y', '-i', wavPath, '-c:a', 'libmp3lame', '-b:a', '192k', clipPath];
+        const encoded = spawnSync('ffmpeg', mp3Args);
+        if (encoded.status !== 0) {
+          console.error(`Could not encode ${clip.name} as MP3: ${encoded.stderr}`);
+          return 1;
+        }
+      }
+      clips.push({ path: clipPath, startTime: clip.startTime });
+    }
+
+    const handlers = loadMainHandlers(tempDir);
+    const outputPath = path.join(tempDir, 'timeline.wav');
+    const result = await handlers.get('system:mixAudio')(null, clips, outputPath, undefined, undefined, undefined, {
+      format: 'wav',
+      sampleRate: SAMPLE_RATE,
+      channels: 2,
+      bitrateKbps: 0,
+    });
+    if (result?.error) {
+      console.error(`system:mixAudio failed: ${result.error}`);
+      return 1;
+    }
+
+    const output = readWavChannel(outputPath);
+    if (output.sampleRate !== SAMPLE_RATE) {
+      console.error(`Expected a ${SAMPLE_RATE} Hz mix, got ${output.sampleRate} Hz.`);
+      return 1;
+    }
+    let failures = 0;
+    for (const clip of CLIPS) {
+      const template = sampleSignal(clip.signal, clip.durationMs, SAMPLE_RATE);
+      const frame = findOnset(output.samples, template, Math.round((clip.startTime * SAMPLE_RATE) / 1000));
+      const foundMs = (frame * 1000) / SAMPLE_RATE;
+      const errorMs = foundMs - clip.startTime;
+      const ok = Math.abs(errorMs) <= TOLERANCE_MS;
+      if (!ok) failures++;
+      const signed = `${errorMs >= 0 ? '+' : ''}${errorMs.toFixed(3)}`;
+      console.log(
+        `${ok ? 'ok  ' : 'FAIL'} ${clip.name}: expected ${clip.startTime} ms, found ${foundMs.toFixed(3)} ms (${signed} ms)`
+      );
+    }
+    console.log(
+      failures
+        ? `${failures} of ${CLIPS.length} onsets off by more than ${TOLERANCE_MS} ms`
+        : `All ${CLIPS.length} onsets within ${TOLERANCE_MS} ms`
+    );
+    return failures ? 1 : 0;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+// main.ts registers app listeners that never settle here, so exit explicitly
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err);
+    process.exit(1);
+  }
+);